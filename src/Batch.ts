@@ -1,83 +1,326 @@
-import { BatchStatement } from "./Client";
-import { WhereClause } from "./types";
-
-export const BatchInsert = <T>({ name, data }: { name: string, data: Partial<Record<keyof T, T[keyof T]>> }): BatchStatement => {
-    const columns = Object.keys(data);
-    const values = Object.values(data) as Partial<T>[];
-
-    return {
-        query: `
-        INSERT INTO {keyspace}.${name} (${columns.join(", ")})
-        VALUES (${columns.map(() => '?').join(", ")})
-        `,
-        params: values
-    }
+import { types } from "cassandra-driver";
+import { BatchStatement, Client } from "./Client";
+import { Model } from "./Model";
+import { identifier } from "./Identifier";
+import { deleteStatement, insertStatement, Statement, updateStatement } from "./Query";
+import { UpdateSet, WhereClause } from "./types";
+
+/**
+ * The target of a batch statement: a table name, or a model whose codecs convert the parameters.
+ */
+type BatchTarget<T, I extends Partial<Record<keyof T, any>> = Partial<T>, K extends keyof T = keyof T> = string | Model<T, I, K>;
+
+const tableName = <T>(name: BatchTarget<T, any, any>) => (typeof name == "string" ? `{keyspace}.${identifier(name)}` : name.table);
+
+export const BatchInsert = <T, I extends Partial<Record<keyof T, any>> = Partial<T>>({ name, data }: { name: BatchTarget<T, I>, data: I }): BatchStatement => {
+    return insertStatement(tableName(name), { data: typeof name == "string" ? data : name.encode(data) });
+}
+
+export const BatchDelete = <T, K extends keyof T = keyof T>({ name, where, limit }: { name: BatchTarget<T, any, K>, where: WhereClause<T, K>[], limit?: number }): BatchStatement => {
+    return deleteStatement(tableName(name), { where: typeof name == "string" ? where : name.encodeWhere(where), limit });
+}
+
+export const BatchUpdate = <T, K extends keyof T = keyof T>({ name, set, where, limit }: { name: BatchTarget<T, any, K>, set: UpdateSet<T>, where: WhereClause<T, K>[], limit?: number }): BatchStatement => {
+    return updateStatement(tableName(name), {
+        set: typeof name == "string" ? set : name.encodeSet(set),
+        where: typeof name == "string" ? where : name.encodeWhere(where),
+        limit
+    });
+}
+
+/**
+ * A statement bound to a model, created by {@link Model.batchInsert}, {@link Model.batchUpdate}, {@link Model.batchDelete},
+ * {@link Model.batchIncrement} and {@link Model.batchDecrement}.
+ */
+export interface BatchOperation {
+    /**
+     * The fully qualified name of the table.
+     */
+    table: string;
+    /**
+     * Identifies the partition written by the statement. Undefined when the conditions do not pin a single partition.
+     */
+    partition?: string;
+    /**
+     * Whether the statement updates counter columns.
+     */
+    counter: boolean;
+    /**
+     * Compile the operation. Encoding errors are thrown from here so they can be reported per statement.
+     * @param defaults The time to live of the batch, used when the operation does not set its own.
+     */
+    statements: (defaults: { ttl?: number }) => Statement[];
+}
+
+/**
+ * `logged` batches are applied atomically, `unlogged` batches skip the batch log, `counter` batches only contain counter updates.
+ */
+export type BatchMode = "logged" | "unlogged" | "counter";
+
+export interface BatchOptions {
+    /**
+     * Defaults to `counter` when every operation updates counters and to `logged` otherwise.
+     */
+    mode?: BatchMode;
+    /**
+     * The time to live in seconds of the inserted and updated values, unless an operation sets its own.
+     */
+    ttl?: number;
+    /**
+     * The write timestamp of every statement, in microseconds or as a `Date`.
+     */
+    timestamp?: number | Date;
+    prepare?: boolean;
+    /**
+     * The number of partitions a batch may span. Defaults to `10`, the `unlogged_batch_across_partitions_warn_threshold` of Cassandra.
+     */
+    maxPartitions?: number;
+    /**
+     * The estimated size in bytes a batch may reach. Defaults to `5120`, the `batch_size_warn_threshold` of Cassandra.
+     */
+    maxBytes?: number;
+    /**
+     * What to do when a batch goes over `maxPartitions` or `maxBytes`. `split` sends multiple batches, which gives up
+     * the atomicity of a logged batch across them. Defaults to `"warn"`.
+     */
+    onLimit?: "warn" | "split" | "throw";
+}
+
+/**
+ * A statement of a batch that could not be compiled or whose batch failed.
+ */
+export interface BatchStatementError {
+    /**
+     * The position of the statement in the order it was added.
+     */
+    index: number;
+    /**
+     * The fully qualified name of the table, for statements created by a model.
+     */
+    table?: string;
+    error: Error;
+}
+
+/**
+ * The outcome of a batch.
+ */
+export interface BatchResult {
+    /**
+     * Whether every statement was applied.
+     */
+    applied: boolean;
+    /**
+     * The number of batches sent, more than one when the batch was split.
+     */
+    batches: number;
+    errors: BatchStatementError[];
+}
+
+interface CompiledStatement extends Statement {
+    index: number;
+    table?: string;
+    partition?: string;
+    size: number;
 }
 
-export const BatchDelete = <T>({ name, where, limit }: { name: string, where: WhereClause<T>[], limit?: number }): BatchStatement => {
-    const conditions: [string[], any[]] = [[], []];
-
-    const conditionHandlers: Record<string, (key: string, value: any) => void> = {
-        equals: (k, v) => conditions[0].push(`${k}=?`) && conditions[1].push(v),
-        notEquals: (k, v) => conditions[0].push(`${k}=?`) && conditions[1].push(v),
-        in: (k, v) => conditions[0].push(`${k} IN (${v.map(() => '?').join(", ")})`) && conditions[1].push(v),
-        notIn: (k, v) => conditions[0].push(`${k} IN (${v.map(() => '?').join(", ")})`) && conditions[1].push(v),
-        greaterThanOrEqual: (k, v) => conditions[0].push(`${k}>=?`) && conditions[1].push(v),
-        lessThanOrEqual: (k, v) => conditions[0].push(`${k}<=?`) && conditions[1].push(v),
-        contains: (k, v) => conditions[0].push(`${k} CONTAINS ?`) && conditions[1].push(v),
-        notContains: (k, v) => conditions[0].push(`${k} DOES NOT CONTAIN ?`) && conditions[1].push(v),
-    };
-
-    for (const condition of where) {
-        const [operator, args] = Object.entries(condition)[0];
-        const [k, v] = args as [string, any];
-        conditionHandlers[operator](k.toString(), v);
+const isOperation = (operation: BatchStatement | BatchOperation): operation is BatchOperation =>
+    typeof (operation as BatchOperation).statements == "function";
+
+/**
+ * Estimate the size in bytes of a bound value.
+ */
+const valueSize = (value: any): number => {
+    if (value === null || value === undefined) return 0;
+    if (Buffer.isBuffer(value)) return value.length;
+    if (typeof value == "string") return Buffer.byteLength(value);
+    if (typeof value == "number" || value instanceof Date || value instanceof types.Long) return 8;
+    if (typeof value == "boolean") return 1;
+    if (value instanceof types.Uuid) return 16;
+    if (value instanceof types.Tuple) return value.elements.reduce((size: number, element: any) => size + valueSize(element), 0);
+    if (Array.isArray(value) || value instanceof Set) return [...value].reduce((size, element) => size + valueSize(element), 0);
+    if (value instanceof Map) return [...value].reduce((size, [key, element]) => size + valueSize(key) + valueSize(element), 0);
+    return Buffer.byteLength(JSON.stringify(value) ?? String(value));
+};
+
+/**
+ * Estimate the size in bytes of a statement, its query and bound values.
+ */
+const statementSize = ({ query, params }: Statement) =>
+    Buffer.byteLength(query) + params.reduce((size: number, value) => size + valueSize(value), 0);
+
+/**
+ * A chainable builder for batches of model-bound operations, created by {@link Client.batch}.
+ *
+ * @example
+ * const { applied, errors } = await client
+ *   .batch({ ttl: 3600 })
+ *   .add(messages.batchInsert(message))
+ *   .add(messagesByAuthor.batchInsert(message))
+ *   .execute();
+ */
+export class BatchBuilder {
+    private readonly operations: (BatchStatement | BatchOperation)[] = [];
+
+    constructor(private readonly client: Client, private readonly options: BatchOptions = {}) { }
+
+    /**
+     * Add operations to the batch. Raw statements may use `{keyspace}` in place of the keyspace of the client.
+     * @param operations The operations to add.
+     */
+    public add(...operations: (BatchStatement | BatchOperation)[]) {
+        this.operations.push(...operations);
+        return this;
     }
 
-    const limitClause = limit ? `LIMIT ${Math.max(1, Math.floor(limit))}` : '';
+    /**
+     * Set the mode of the batch.
+     * @param mode `logged`, `unlogged` or `counter`.
+     */
+    public mode(mode: BatchMode) {
+        this.options.mode = mode;
+        return this;
+    }
 
-    return {
-        query: `
-        DELETE FROM {keyspace}.${name}
-        WHERE ${conditions[0].map((cond) => cond).join(" AND ")}
-        ${limitClause};
-        `,
-        params: conditions[1],
+    /**
+     * Set the time to live in seconds of the inserted and updated values, unless an operation sets its own.
+     * @param ttl The time to live in seconds.
+     */
+    public ttl(ttl: number) {
+        this.options.ttl = ttl;
+        return this;
     }
-}
 
-export const BatchUpdate = <T>({ name, set, where, limit }: { name: string, set: Partial<Record<keyof T, T[keyof T]>>, where: WhereClause<T>[], limit?: number }): BatchStatement => {
-
-    const conditions: [string[], any[]] = [[], []];
-    const columns = Object.keys(set);
-    const values = Object.values(set);
-
-    const conditionHandlers: Record<string, (key: string, value: any) => void> = {
-        equals: (k, v) => conditions[0].push(`${k}=?`) && conditions[1].push(v),
-        notEquals: (k, v) => conditions[0].push(`${k}=?`) && conditions[1].push(v),
-        in: (k, v) => conditions[0].push(`${k} IN (${v.map(() => '?').join(", ")})`) && conditions[1].push(v),
-        notIn: (k, v) => conditions[0].push(`${k} IN (${v.map(() => '?').join(", ")})`) && conditions[1].push(v),
-        greaterThanOrEqual: (k, v) => conditions[0].push(`${k}>=?`) && conditions[1].push(v),
-        lessThanOrEqual: (k, v) => conditions[0].push(`${k}<=?`) && conditions[1].push(v),
-        contains: (k, v) => conditions[0].push(`${k} CONTAINS ?`) && conditions[1].push(v),
-        notContains: (k, v) => conditions[0].push(`${k} DOES NOT CONTAIN ?`) && conditions[1].push(v),
-    };
-
-    for (const condition of where) {
-        const [operator, args] = Object.entries(condition)[0];
-        const [k, v] = args as [string, any];
-        conditionHandlers[operator](k.toString(), v);
+    /**
+     * Set the write timestamp of every statement.
+     * @param timestamp The timestamp in microseconds or as a `Date`.
+     */
+    public timestamp(timestamp: number | Date) {
+        this.options.timestamp = timestamp;
+        return this;
+    }
+
+    /**
+     * The mode the batch is sent with.
+     */
+    public get resolvedMode(): BatchMode {
+        if (this.options.mode) return this.options.mode;
+        const counters = this.operations.filter((operation) => isOperation(operation) && operation.counter);
+        return counters.length > 0 && counters.length == this.operations.length ? "counter" : "logged";
+    }
+
+    /**
+     * The keyspace of the client, substituted for `{keyspace}` in raw statements.
+     * @throws {Error} Throws an error if the client has no default keyspace.
+     */
+    private get keyspace() {
+        const keyspace = this.client.cassandara.keyspace;
+        if (!keyspace) throw new Error("Raw statements can only use {keyspace} when the client has a default keyspace");
+        return identifier(keyspace);
+    }
+
+    private compile(mode: BatchMode): [CompiledStatement[], BatchStatementError[]] {
+        const compiled: CompiledStatement[] = [];
+        const errors: BatchStatementError[] = [];
+
+        this.operations.forEach((operation, index) => {
+            try {
+                if (!isOperation(operation)) {
+                    const statement = { ...operation, query: operation.query.replace(/\{keyspace\}/g, () => this.keyspace) };
+                    compiled.push({ ...statement, index, size: statementSize(statement) });
+                    return;
+                }
+
+                if (operation.counter != (mode == "counter"))
+                    throw new Error(operation.counter ? "Counter updates can only be sent in a counter batch" : "Counter batches can only contain counter updates");
+
+                for (const statement of operation.statements({ ttl: this.options.ttl }))
+                    compiled.push({ ...statement, index, table: operation.table, partition: operation.partition, size: statementSize(statement) });
+            } catch (error) {
+                errors.push({ index, table: isOperation(operation) ? operation.table : undefined, error: error instanceof Error ? error : new Error(String(error)) });
+            }
+        });
+
+        return [compiled, errors];
     }
 
-    const limitClause = limit ? `LIMIT ${Math.max(1, Math.floor(limit))}` : '';
+    /**
+     * Split the statements into batches that stay within the partition and size limits, keeping the statements of a partition together.
+     */
+    private split(statements: CompiledStatement[], maxPartitions: number, maxBytes: number) {
+        const partitions = new Map<string, CompiledStatement[]>();
+        for (const statement of statements) {
+            const key = statement.partition ?? `#${statement.index}`;
+            partitions.set(key, [...(partitions.get(key) ?? []), statement]);
+        }
 
-    return {
-        query: `
-        UPDATE {keyspace}.${name}
-        SET ${columns.map((col) => `${col} = ?`).join(", ")}
-        WHERE ${conditions[0].map((cond) => cond).join(" AND ")}
-        ${limitClause};
-        `,
-        params: [...values, ...conditions[1]]
+        const batches: CompiledStatement[][] = [];
+        let batch: CompiledStatement[] = [];
+        let count = 0;
+        let size = 0;
+
+        for (const group of partitions.values()) {
+            if (batch.length > 0 && count + 1 > maxPartitions) {
+                batches.push(batch);
+                [batch, count, size] = [[], 0, 0];
+            }
+            count++;
+
+            for (const statement of group) {
+                if (batch.length > 0 && size + statement.size > maxBytes) {
+                    batches.push(batch);
+                    [batch, count, size] = [[], 1, 0];
+                }
+                batch.push(statement);
+                size += statement.size;
+            }
+        }
+
+        if (batch.length > 0) batches.push(batch);
+        return batches;
+    }
+
+    /**
+     * Send the batch. Statements that fail to compile are reported without sending anything, statements of a batch
+     * that fails are reported with the error of the batch.
+     * @throws {Error} Throws an error if the batch goes over its limits and `onLimit` is `"throw"`, or if a counter batch sets a time to live or timestamp.
+     */
+    public async execute(): Promise<BatchResult> {
+        const { ttl, timestamp, prepare, maxPartitions = 10, maxBytes = 5120, onLimit = "warn" } = this.options;
+        const mode = this.resolvedMode;
+
+        if (mode == "counter" && (ttl !== undefined || timestamp !== undefined))
+            throw new Error("Counter batches do not support a time to live or timestamp");
+
+        const [statements, errors] = this.compile(mode);
+        if (errors.length > 0) return { applied: false, batches: 0, errors };
+        if (statements.length < 1) return { applied: true, batches: 0, errors };
+
+        const partitions = new Set(statements.filter(({ partition }) => partition !== undefined).map(({ partition }) => partition)).size;
+        const size = statements.reduce((total, statement) => total + statement.size, 0);
+        let batches = [statements];
+
+        if (partitions > maxPartitions || size > maxBytes) {
+            const message = `Batch of ${statements.length} statements spans ${partitions} partitions and ${size} bytes, over the limit of ${maxPartitions} partitions and ${maxBytes} bytes`;
+            if (onLimit == "throw") throw new Error(message);
+            if (onLimit == "split") batches = this.split(statements, maxPartitions, maxBytes);
+            else (this.client.logging.warn ?? this.client.logging.info)(message);
+        }
+
+        for (const batch of batches) {
+            try {
+                await this.client.executeBatch(batch.map(({ query, params }) => ({ query, params })), {
+                    prepare,
+                    logged: mode != "unlogged",
+                    counter: mode == "counter",
+                    timestamp: timestamp instanceof Date ? timestamp.getTime() * 1000 : timestamp,
+                });
+            } catch (error) {
+                const cause = error instanceof Error ? error : new Error(String(error));
+                for (const index of new Set(batch.map((statement) => statement.index)))
+                    errors.push({ index, table: batch.find((statement) => statement.index == index)?.table, error: cause });
+            }
+        }
+
+        return { applied: errors.length < 1, batches: batches.length, errors };
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,491 @@
+import { errors, types } from "cassandra-driver";
+import { Readable, Writable } from "stream";
+import { StringDecoder } from "string_decoder";
+import { CqlType, unfreeze } from "./TypeParser";
+import { WhereClause } from "./types";
+
+/**
+ * The text formats accepted by {@link Model.bulkInsert}.
+ */
+export type BulkFormat = "csv" | "ndjson";
+
+export interface BulkFormatOptions<T> {
+  /**
+   * Parse the source as CSV or newline delimited JSON instead of iterating rows.
+   */
+  format?: BulkFormat;
+  /**
+   * Map the fields of the input to columns, e.g. `{ "Channel ID": "channel_id" }`. Fields that are not mapped keep their name.
+   * An array names the column of each position of a CSV instead, and its header line is skipped unless `header` is `false`.
+   */
+  columns?: Partial<Record<string, keyof T>> | (keyof T)[];
+  /**
+   * The separator of CSV fields. Defaults to `","`.
+   */
+  delimiter?: string;
+  /**
+   * Whether the first line of a CSV is a header with the names of its fields. Defaults to `true`.
+   */
+  header?: boolean;
+}
+
+export interface BulkProgress {
+  /**
+   * Rows read from the source.
+   */
+  read: number;
+  inserted: number;
+  /**
+   * Rows that were not inserted because they already existed, when `skipLwt` is `false`.
+   */
+  skipped: number;
+  failed: number;
+  /**
+   * Writes that were retried after a transient failure.
+   */
+  retries: number;
+}
+
+/**
+ * Rows that could not be inserted and the error of their last attempt.
+ */
+export interface BulkInsertError<R> {
+  rows: R[];
+  error: Error;
+}
+
+export interface BulkInsertResult<R> extends BulkProgress {
+  errors: BulkInsertError<R>[];
+}
+
+export interface BulkInsertOptions<T> extends BulkFormatOptions<T> {
+  /**
+   * The maximum number of writes in flight. Defaults to `16`.
+   */
+  concurrency?: number;
+  /**
+   * The time to live of the rows in seconds.
+   */
+  ttl?: number;
+  /**
+   * The write timestamp of the rows, in microseconds or as a `Date`.
+   */
+  timestamp?: number | Date;
+  /**
+   * Insert without `IF NOT EXISTS`, overwriting existing rows. Defaults to `true`. Rows are only grouped into batches when the lightweight transaction is skipped.
+   */
+  skipLwt?: boolean;
+  /**
+   * The maximum number of rows of a partition written in one unlogged batch. Defaults to `20`, `1` disables batching.
+   */
+  batchSize?: number;
+  /**
+   * The number of rows held back while waiting for more rows of their partition. Defaults to `1000`.
+   */
+  bufferSize?: number;
+  /**
+   * How often a write is retried after a timeout or an unavailable or overloaded coordinator. Defaults to `3`.
+   */
+  retries?: number;
+  /**
+   * The delay before the first retry in milliseconds, doubled for every following retry. Defaults to `100`.
+   */
+  retryDelay?: number;
+  prepare?: boolean;
+  /**
+   * Called after every write with the totals so far.
+   */
+  onProgress?: (progress: BulkProgress) => void;
+}
+
+/**
+ * Where an interrupted export stopped: the token ranges that were fully exported and the page state of the others.
+ */
+export interface ExportCheckpoint {
+  /**
+   * The number of token ranges of the export. A checkpoint can only resume an export with the same number of splits.
+   */
+  splits: number;
+  /**
+   * The indexes of the token ranges that were fully exported.
+   */
+  completed: number[];
+  /**
+   * The page state of the next page of each token range that was started, keyed by the index of the range.
+   */
+  pageStates: Record<number, string>;
+}
+
+export interface ExportOptions<T, K extends keyof T = keyof T> {
+  /**
+   * Defaults to `"ndjson"`.
+   */
+  format?: BulkFormat;
+  /**
+   * Only export the rows matching these conditions. Adds `ALLOW FILTERING` to the scan of every token range.
+   */
+  where?: WhereClause<T, K>[];
+  /**
+   * The columns to export. Defaults to every column of the schema.
+   */
+  columns?: (keyof T)[];
+  /**
+   * The number of token ranges the table is split into. Defaults to `16`.
+   */
+  splits?: number;
+  /**
+   * The number of token ranges scanned at once. Defaults to `4`.
+   */
+  concurrency?: number;
+  /**
+   * The number of rows fetched per page.
+   */
+  fetchSize?: number;
+  prepare?: boolean;
+  /**
+   * The separator of CSV fields. Defaults to `","`.
+   */
+  delimiter?: string;
+  /**
+   * Whether to start a CSV with the names of its columns. Defaults to `true` unless resuming from a checkpoint.
+   */
+  header?: boolean;
+  /**
+   * Resume an interrupted export. Token ranges that were completed are skipped and started ones continue from their page state.
+   */
+  checkpoint?: ExportCheckpoint;
+  /**
+   * Called after the rows of every page were read from the stream and written by the streams it is piped to. Store the checkpoint
+   * to resume the export if it is interrupted.
+   */
+  onCheckpoint?: (checkpoint: ExportCheckpoint) => void;
+}
+
+/**
+ * Split a stream of text into lines, without their line endings. Buffers are decoded as UTF-8, also when a character spans two of them.
+ * @param source The chunks of text.
+ */
+export async function* readLines(source: AsyncIterable<string | Buffer> | Iterable<string | Buffer>): AsyncGenerator<string, void, undefined> {
+  const decoder = new StringDecoder("utf8");
+  let rest = "";
+
+  for await (const chunk of source) {
+    const lines = (rest + (typeof chunk == "string" ? chunk : decoder.write(chunk))).split("\n");
+    rest = lines.pop() ?? "";
+    for (const line of lines) yield line.replace(/\r$/, "");
+  }
+
+  rest += decoder.end();
+  if (rest.length > 0) yield rest.replace(/\r$/, "");
+}
+
+/**
+ * Split a CSV record into its fields. Empty fields that are not quoted are `null`.
+ * @param record The record, which may span lines inside quoted fields.
+ * @param delimiter The separator of the fields.
+ */
+export const splitCsvRecord = (record: string, delimiter = ","): (string | null)[] => {
+  const fields: (string | null)[] = [];
+  let field = "";
+  let quoted = false;
+  let wasQuoted = false;
+
+  for (let i = 0; i < record.length; i++) {
+    const char = record[i];
+    if (quoted) {
+      if (char == '"' && record[i + 1] == '"') {
+        field += '"';
+        i++;
+      } else if (char == '"') quoted = false;
+      else field += char;
+    } else if (char == '"') {
+      quoted = true;
+      wasQuoted = true;
+    } else if (record.startsWith(delimiter, i)) {
+      fields.push(field.length > 0 || wasQuoted ? field : null);
+      [field, wasQuoted] = ["", false];
+      i += delimiter.length - 1;
+    } else field += char;
+  }
+
+  fields.push(field.length > 0 || wasQuoted ? field : null);
+  return fields;
+};
+
+const quoteCount = (text: string) => text.split('"').length - 1;
+
+/**
+ * Read the records of a CSV or NDJSON stream as objects keyed by column.
+ * @param source The chunks of text.
+ * @param options The format of the source and the mapping of its fields to columns.
+ * @throws {Error} Throws an error if a line is not valid JSON or a CSV record has more fields than the header.
+ */
+export async function* readRecords<T>(
+  source: AsyncIterable<string | Buffer> | Iterable<string | Buffer>,
+  { format = "ndjson", columns, delimiter = ",", header = true }: BulkFormatOptions<T>
+): AsyncGenerator<Record<string, unknown>, void, undefined> {
+  const rename = (field: string) => (Array.isArray(columns) ? field : String(columns?.[field] ?? field));
+  let names = Array.isArray(columns) ? columns.map(String) : undefined;
+  let skipHeader = header && format == "csv";
+  let record = "";
+  let line = 0;
+
+  for await (const text of readLines(source)) {
+    line++;
+
+    if (format == "ndjson") {
+      if (text.trim().length < 1) continue;
+      let value: Record<string, unknown>;
+      try {
+        value = JSON.parse(text);
+      } catch (error) {
+        throw new Error(`Line ${line} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+      }
+      yield Object.fromEntries(Object.entries(value).map(([field, v]) => [rename(field), v]));
+      continue;
+    }
+
+    record = record.length > 0 ? `${record}\n${text}` : text;
+    if (quoteCount(record) % 2 == 1) continue;
+
+    const fields = splitCsvRecord(record, delimiter);
+    record = "";
+    if (fields.length == 1 && fields[0] === null) continue;
+
+    if (skipHeader) {
+      skipHeader = false;
+      names ??= fields.map((field) => rename(field ?? ""));
+      continue;
+    }
+    names ??= fields.map((_, i) => String(i));
+
+    if (fields.length > names.length) throw new Error(`Line ${line} has ${fields.length} fields but only ${names.length} columns are known`);
+    yield Object.fromEntries(fields.map((field, i) => [names![i], field]));
+  }
+
+  if (record.length > 0) throw new Error(`Line ${line} ends inside a quoted field`);
+}
+
+/**
+ * Convert the text of a CSV field to a value of a CQL type. Collections, tuples and user defined types are read as JSON.
+ * @param type The parsed CQL type of the column.
+ * @param text The text of the field.
+ * @throws {Error} Throws an error if the text is not a valid value of the type.
+ */
+export const parseText = (type: CqlType, text: string): unknown => {
+  const inner = unfreeze(type);
+  if (inner.kind != "native") return JSON.parse(text);
+
+  switch (inner.name) {
+    case "int":
+    case "smallint":
+    case "tinyint":
+    case "float":
+    case "double": {
+      const value = Number(text);
+      if (text.trim().length < 1 || Number.isNaN(value)) throw new Error(`"${text}" is not a valid ${inner.name}`);
+      return value;
+    }
+    case "boolean":
+      if (!/^(true|false)$/i.test(text)) throw new Error(`"${text}" is not a valid boolean`);
+      return text.toLowerCase() == "true";
+    case "blob":
+      return Buffer.from(text.replace(/^0x/i, ""), "hex");
+    case "timestamp":
+      return /^-?\d+$/.test(text) ? new Date(Number(text)) : new Date(text);
+    default:
+      return text;
+  }
+};
+
+/**
+ * Serialize values that JSON does not support the way {@link parseText} reads them back:
+ * dates as ISO strings, buffers as hex, sets as arrays, maps as objects and 64-bit integers as strings.
+ */
+export const jsonReplacer = function (this: any, key: string, value: unknown) {
+  const original = this[key];
+  if (original instanceof Date) return original.toISOString();
+  if (Buffer.isBuffer(original)) return `0x${original.toString("hex")}`;
+  if (original instanceof Set) return Array.from(original);
+  if (original instanceof Map) return Object.fromEntries(original);
+  if (original instanceof types.Long || original instanceof types.Integer || original instanceof types.BigDecimal) return original.toString();
+  if (original instanceof types.Tuple) return original.values();
+  return value;
+};
+
+/**
+ * Convert a value of a CQL type to the text of a CSV field, the inverse of {@link parseText}.
+ * @param type The parsed CQL type of the column.
+ * @param value The value, as decoded by the model.
+ */
+export const formatText = (type: CqlType, value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  if (unfreeze(type).kind != "native") return JSON.stringify(value, jsonReplacer);
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return `0x${value.toString("hex")}`;
+  return String(value);
+};
+
+/**
+ * Join the fields of a CSV record, quoting the fields that need it. `null` fields are left empty and empty strings are quoted,
+ * so {@link splitCsvRecord} reads them back as they were.
+ * @param fields The fields of the record.
+ * @param delimiter The separator of the fields.
+ */
+export const joinCsvRecord = (fields: (string | null)[], delimiter = ",") =>
+  fields
+    .map((field) =>
+      field === null
+        ? ""
+        : field.length < 1 || field.includes(delimiter) || /["\r\n]/.test(field)
+          ? `"${field.replace(/"/g, '""')}"`
+          : field
+    )
+    .join(delimiter);
+
+const transientCodes: number[] = [
+  types.responseErrorCodes.unavailableException,
+  types.responseErrorCodes.overloaded,
+  types.responseErrorCodes.isBootstrapping,
+  types.responseErrorCodes.writeTimeout,
+  types.responseErrorCodes.readTimeout,
+];
+
+/**
+ * Whether an error of the driver may go away when the request is retried.
+ * @param error The error.
+ */
+export const isTransientError = (error: unknown) =>
+  error instanceof errors.OperationTimedOutError ||
+  error instanceof errors.NoHostAvailableError ||
+  error instanceof errors.BusyConnectionError ||
+  (error instanceof errors.ResponseError && transientCodes.includes(error.code));
+
+/**
+ * Run a request, retrying it with an exponential backoff while it fails with a transient error.
+ * @param run The request.
+ * @param options The number of retries, the delay before the first retry and a callback for every retry.
+ */
+export const withRetries = async <R>(
+  run: () => Promise<R>,
+  { retries, delay, onRetry }: { retries: number; delay: number; onRetry?: (error: unknown) => void }
+): Promise<R> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (attempt >= retries || !isTransientError(error)) throw error;
+      onRetry?.(error);
+      await new Promise((resolve) => setTimeout(resolve, delay * 2 ** attempt));
+    }
+  }
+};
+
+/**
+ * Runs tasks with a bounded number of them in flight.
+ */
+export class ConcurrencyPool {
+  private readonly inFlight = new Set<Promise<void>>();
+
+  /**
+   * @param limit The maximum number of tasks in flight.
+   */
+  constructor(private readonly limit: number) { }
+
+  /**
+   * Start a task, waiting first until there is room for it. Tasks must handle their own errors.
+   * @param task The task.
+   */
+  public async run(task: () => Promise<void>) {
+    while (this.inFlight.size >= Math.max(1, this.limit)) await Promise.race(this.inFlight);
+
+    const promise: Promise<void> = task().finally(() => this.inFlight.delete(promise));
+    this.inFlight.add(promise);
+  }
+
+  /**
+   * Wait for every task in flight.
+   */
+  public async drain() {
+    await Promise.all(this.inFlight);
+  }
+}
+
+/**
+ * A stream of exported text that tells when the text pushed to it was read, and written by the destinations it is piped to.
+ */
+export class ExportStream extends Readable {
+  private pushedLength = 0;
+  private waitingForRoom: (() => void)[] = [];
+  private waitingForReads: { length: number; resolve: () => void }[] = [];
+  private readonly destinations = new Set<NodeJS.WritableStream>();
+
+  constructor() {
+    super();
+    this.on("close", () => {
+      this.resumeWriters();
+      this.resumeReaders();
+    });
+  }
+
+  public _read() {
+    this.resumeWriters();
+  }
+
+  public read(size?: number) {
+    const chunk = super.read(size);
+    this.resumeReaders();
+    return chunk;
+  }
+
+  public pipe<W extends NodeJS.WritableStream>(destination: W, options?: { end?: boolean }): W {
+    const unpipe = (source: unknown) => {
+      if (source !== this) return;
+      this.destinations.delete(destination);
+      destination.removeListener("unpipe", unpipe);
+    };
+    this.destinations.add(destination);
+    destination.on("unpipe", unpipe);
+    return super.pipe(destination, options);
+  }
+
+  /**
+   * Push text, waiting while the buffer of the stream is full.
+   * @param text The text.
+   */
+  public async pushText(text: string) {
+    if (this.destroyed) return;
+    this.pushedLength += Buffer.byteLength(text);
+    if (!this.push(text)) await new Promise<void>((resolve) => this.waitingForRoom.push(resolve));
+  }
+
+  /**
+   * Wait until the text pushed so far was read and the destinations of the stream wrote it, or the stream was closed.
+   */
+  public async written() {
+    const length = this.pushedLength;
+    await new Promise<void>((resolve) => {
+      this.waitingForReads.push({ length, resolve });
+      this.resumeReaders();
+    });
+
+    // Writes complete in order, so an empty write completes once the text before it was written.
+    const pending = [...this.destinations].filter(
+      (destination) => !this.destroyed && !(destination instanceof Writable && (destination.destroyed || destination.writableEnded))
+    );
+    await Promise.all(pending.map((destination) => new Promise<void>((resolve) => destination.write("", () => resolve()))));
+  }
+
+  private resumeWriters() {
+    const resolvers = this.waitingForRoom;
+    this.waitingForRoom = [];
+    resolvers.forEach((resolve) => resolve());
+  }
+
+  private resumeReaders() {
+    const read = this.pushedLength - this.readableLength;
+    const ready = this.waitingForReads.filter(({ length }) => this.destroyed || length <= read);
+    this.waitingForReads = this.waitingForReads.filter((waiting) => !ready.includes(waiting));
+    ready.forEach(({ resolve }) => resolve());
+  }
+}
@@ -1,29 +1,28 @@
-import { DseClientOptions, Client as CassandraClient } from "cassandra-driver";
-import fs from "fs";
-import path from "path";
+import { DseClientOptions, Client as CassandraClient, QueryOptions, types } from "cassandra-driver";
 import { Model } from "./Model";
 import { UDT } from "./UDT";
+import { Codec, Codecs } from "./Codec";
 import { MaterialView } from "./MaterialView";
+import { MigrationApplyOptions, Migrator } from "./Migration";
+import { LoadSource, Loader } from "./Loader";
+import { BatchBuilder, BatchOperation, BatchOptions } from "./Batch";
+import { StatementCache } from "./StatementCache";
+import { ExecutionContext, ExecutionTarget, HookMap, HookName, Hooks, Middleware } from "./Hooks";
+import { identifier, storedName } from "./Identifier";
+import { Statement } from "./Query";
+import { KeyspaceDescription, KeyspaceReplication, keyspaceStatement, parseKeyspace } from "./Keyspace";
+import { Validator } from "./Validation";
 
 interface Logger {
   success: (text: string) => void;
   info: (text: string) => void;
   error: (text: string) => void;
+  /**
+   * Used for warnings such as queries that need `ALLOW FILTERING`. Falls back to `info`.
+   */
+  warn?: (text: string) => void;
 }
 
-type KeyspaceReplication = (
-  | {
-    class: "SimpleStrategy";
-    factor: number;
-  }
-  | {
-    class: "NetworkTopologyStrategy";
-    datacenters: { name: string; factor: number }[];
-  }
-) & {
-  durableWrites?: boolean;
-};
-
 export interface BatchStatement {
   query: string;
   params: any[];
@@ -31,23 +30,64 @@ export interface BatchStatement {
 
 interface Options extends DseClientOptions {
   /**
-   * Your path for loading your user defined types.
+   * Where to load your user defined types from: a directory, which is searched recursively, a file, a glob pattern,
+   * or a list of them mixed with types.
    */
-  typesPath?: string;
+  typesPath?: LoadSource<UDT<any>>;
   /**
-   * Your path for loading your models.
+   * Where to load your models from: a directory, which is searched recursively, a file, a glob pattern, or a list of
+   * them mixed with models.
    */
-  modelsPath?: string;
+  modelsPath?: LoadSource<Model<any, any, any>>;
 
   /**
-   * Your path for loading your material views.
+   * Where to load your material views from: a directory, which is searched recursively, a file, a glob pattern, or a
+   * list of them mixed with views.
    */
-  materialViewsPath?: string;
+  materialViewsPath?: LoadSource<MaterialView<any>>;
 
   /**
    * Set your preferred logging function. (Wraps text in a function)
    */
   logging?: Logger;
+
+  /**
+   * Migrate the keyspace to match the loaded models and user defined types after connecting.
+   */
+  migrate?: boolean | MigrationApplyOptions;
+
+  /**
+   * Replace the codecs used to convert values of a CQL type, keyed by the type.
+   */
+  codecs?: Record<string, Codec>;
+
+  /**
+   * What to do when a query needs `ALLOW FILTERING` or an index that is not declared. Defaults to `"warn"`.
+   */
+  filtering?: "warn" | "throw" | "ignore";
+
+  /**
+   * Prepare the statements generated by models, unless a call sets `$prepare`. Defaults to `true`.
+   * Unprepared statements send bound numbers as doubles, which columns and clauses of integer types such as `TTL` and
+   * `LIMIT` reject.
+   */
+  prepare?: boolean;
+
+  /**
+   * The number of statement shapes whose generated CQL is kept. Defaults to `1000`.
+   */
+  statementCacheSize?: number;
+
+  /**
+   * Check rows and updates against the schemas of their models before they are written, throwing a `ValidationError`
+   * that lists every invalid field. Defaults to `true`.
+   */
+  validate?: boolean;
+
+  /**
+   * Create the keyspace of the client with this replication when connecting, if it does not exist yet.
+   */
+  createKeyspace?: KeyspaceReplication;
 }
 
 /**
@@ -67,7 +107,7 @@ export class Client {
   /**
    * A map of all loaded models.
    */
-  public readonly models = new Map<string, Model<any>>();
+  public readonly models = new Map<string, Model<any, any, any>>();
 
   /**
    * A map of all loaded material views.
@@ -76,6 +116,59 @@ export class Client {
 
   public readonly logging!: Logger;
 
+  /**
+   * Converts values between the driver and the TypeScript types declared in the schemas.
+   */
+  public readonly codecs!: Codecs;
+
+  /**
+   * Diffs the loaded schemas against the database and migrates it.
+   */
+  public readonly migrator = new Migrator(this);
+
+  /**
+   * Discovers and loads the user defined types, models and material views.
+   */
+  public readonly loader = new Loader(this);
+
+  /**
+   * What to do when a query needs `ALLOW FILTERING` or an index that is not declared.
+   */
+  public readonly filtering: NonNullable<Options["filtering"]>;
+
+  /**
+   * Whether generated statements are prepared unless a call sets `$prepare`.
+   */
+  public readonly prepare: boolean;
+
+  /**
+   * The CQL generated for each statement shape and the queries that were prepared.
+   *
+   * @example
+   * const { hits, misses, prepared } = client.statements.stats;
+   */
+  public readonly statements: StatementCache;
+
+  /**
+   * Whether rows and updates are validated before they are written.
+   */
+  public readonly validation: boolean;
+
+  /**
+   * Checks rows and updates against the schemas of the models.
+   */
+  public readonly validator = new Validator(this);
+
+  /**
+   * The hooks that run for every model.
+   */
+  public readonly hooks = new Hooks<any>();
+
+  /**
+   * The middleware that runs around every statement executed by a model, before the middleware of the model.
+   */
+  public readonly middleware: Middleware[] = [];
+
   /**
    * Construct an instance of the Better Cassandra Client.
    * @param options Options for configuring Better Cassandra.
@@ -86,66 +179,101 @@ export class Client {
       success: console.log,
       info: console.info,
       error: console.error,
+      warn: console.warn,
     };
+    this.codecs = new Codecs(this, this.options.codecs);
+    this.filtering = this.options.filtering ?? "warn";
+    this.prepare = this.options.prepare ?? true;
+    this.statements = new StatementCache(this.options.statementCacheSize);
+    this.validation = this.options.validate ?? true;
+  }
+
+  /**
+   * Register a hook that runs for every model, before the hooks of the model.
+   * @param name The hook, e.g. `beforeInsert` or `afterSelect`.
+   * @param handler The handler. `before` hooks may return a replacement for their argument.
+   *
+   * @example
+   * // Stamp every insert
+   * client.hook("beforeInsert", (data) => ({ ...data, created_at: new Date() }));
+   */
+  public hook<N extends HookName>(name: N, handler: HookMap<any>[N]) {
+    this.hooks.add(name, handler);
+    return this;
+  }
+
+  /**
+   * Add a middleware that sees the generated CQL, parameters and options of every statement before it is executed.
+   * @param middleware The middleware.
+   */
+  public use(middleware: Middleware) {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Run the middleware of the client and of the model of a statement, then the driver.
+   */
+  private dispatch(context: ExecutionContext, execute: (context: ExecutionContext) => Promise<types.ResultSet>) {
+    const chain = [...this.middleware, ...(context.model?.middleware ?? [])];
+    const next = (i: number): Promise<types.ResultSet> => (i < chain.length ? chain[i](context, () => next(i + 1)) : execute(context));
+    return next(0);
+  }
+
+  /**
+   * Execute a generated statement through the middleware, prepared unless `options.prepare` is `false` or the client disables `prepare`.
+   * @param query The query.
+   * @param params The bound parameters.
+   * @param options The options of the driver.
+   * @param target The operation and model or view the statement was generated for.
+   */
+  public async execute(query: string, params?: any[], options: QueryOptions = {}, { operation = "execute", model, view }: ExecutionTarget = {}) {
+    const context = { operation, model, view, statements: [{ query, params: params ?? [] }], options: { ...options, prepare: options.prepare ?? this.prepare } };
+
+    return this.dispatch(context, ({ statements: [statement], options }) => {
+      if (options.prepare) this.statements.prepared(statement.query);
+      return this.cassandara.execute(statement.query, statement.params, options);
+    });
+  }
+
+  /**
+   * Execute generated statements as one batch through the middleware.
+   * @param statements The statements.
+   * @param options The options of the driver, including `logged` and `counter`.
+   * @param target The operation and model or view the statements were generated for.
+   */
+  public async executeBatch(statements: Statement[], options: QueryOptions = {}, { operation = "batch", model, view }: ExecutionTarget = {}) {
+    const context = { operation, model, view, statements, options: { ...options, prepare: options.prepare ?? this.prepare } };
+
+    return this.dispatch(context, ({ statements, options }) => {
+      if (options.prepare) statements.forEach((statement) => this.statements.prepared(statement.query));
+      return this.cassandara.batch(statements, options);
+    });
   }
 
   /**
    * Load all models and setup Better Cassandra.
+   * @throws {LoadError} Throws an error listing every file, type, model or view that could not be loaded, after
+   * loading everything else.
    */
   public async connect() {
-    await this.cassandara.connect();
-    if (this.options.typesPath) {
-      const files = fs.readdirSync(this.options.typesPath);
-      for (const file of files) {
-        const filePath = path.join(this.options.typesPath, file);
-        let type: UDT<any> | undefined;
-        if (path.extname(file) == ".ts") type = require(filePath).default;
-        else if (path.extname(file) == ".js") type = require(filePath);
-        else return;
-
-        if (type && typeof type.init === "function") {
-          await (async () => {
-            await type.init(this);
-          })();
-        }
-      }
-    }
-
-    // if (!this.options.modelsPath) return;
-    if (this.options.modelsPath) {
-      const files = fs.readdirSync(this.options.modelsPath);
-      for (const file of files) {
-        const filePath = path.join(this.options.modelsPath, file);
-        let model: Model<any> | undefined;
-        if (path.extname(file) == ".ts") model = require(filePath).default;
-        else if (path.extname(file) == ".js") model = require(filePath);
-        else return;
-
-        if (model && typeof model.load === "function") {
-          await (async () => {
-            await model.load(this);
-          })();
-        }
-      }
-    }
-
-    if (this.options.materialViewsPath) {
-      const files = fs.readdirSync(this.options.materialViewsPath);
-      for (const file of files) {
-        const filePath = path.join(this.options.materialViewsPath, file);
-        let materialView: MaterialView<any> | undefined;
-        if (path.extname(file) == ".ts")
-          materialView = require(filePath).default;
-        else if (path.extname(file) == ".js") materialView = require(filePath);
-        else return;
-
-        if (materialView && typeof materialView.load == "function") {
-          await (async () => {
-            await materialView?.load(this);
-          })();
-        }
-      }
-    }
+    const keyspace = this.options.keyspace;
+    if (keyspace && this.options.createKeyspace) {
+      // The driver switches to its keyspace while connecting, which fails while the keyspace does not exist.
+      (this.cassandara as { keyspace?: string }).keyspace = undefined;
+      await this.cassandara.connect();
+      await this.createKeyspace(keyspace, this.options.createKeyspace);
+      await this.cassandara.execute(`USE ${identifier(keyspace)};`);
+    } else await this.cassandara.connect();
+
+    await this.loader.load({
+      types: this.options.typesPath,
+      models: this.options.modelsPath,
+      materialViews: this.options.materialViewsPath,
+    });
+
+    if (this.options.migrate)
+      await this.migrator.migrate(this.options.migrate === true ? {} : this.options.migrate);
   }
 
   /**
@@ -155,7 +283,7 @@ export class Client {
    * @param {string} name - The name of the keyspace to be altered.
    * @param {KeyspaceReplication} replication - The replication strategy and configuration for the keyspace.
    *
-   * @throws {Error} Throws an error if an unsupported replication strategy is provided.
+   * @throws {Error} Throws an error if an unsupported replication strategy or an invalid replication factor is provided.
    *
    * @example
    * // Alter keyspace with SimpleStrategy replication
@@ -172,42 +300,37 @@ export class Client {
    * });
    */
   public async alterKeyspace(name: string, replication: KeyspaceReplication) {
-    let query = `ALTER KEYSPACE ${name}\n`;
-    switch (replication.class) {
-      case "SimpleStrategy":
-        query = `
-            ALTER KEYSPACE ${name}
-                WITH REPLICATION = {
-                    'class': '${replication.class}',
-                    'replication_factor': ${replication.factor}
-                }`;
-        break;
-      case "NetworkTopologyStrategy":
-        query = `
-            ALTER KEYSPACE ${name}
-                WITH REPLICATION = {
-                    'class': '${replication.class}',
-                    ${replication.datacenters.map(
-          (dc) => `'${dc.name}': ${dc.factor}`
-        )}
-                }`;
-        break;
-      default:
-        throw new Error(
-          `The only available replication strategies are 'SimpleStrategy' and 'NetworkTopologyStrategy'`
-        );
-    }
-
-    query += replication.durableWrites
-      ? `\n    AND DURABLE WRITES = ${replication.durableWrites};`
-      : ";";
-    await this.cassandara.execute(query);
+    await this.cassandara.execute(keyspaceStatement("ALTER", name, replication));
   }
 
-  public async batch(operations: BatchStatement[], { prepare }: { prepare?: boolean } = {}) {
-    await this.cassandara.batch(operations.map((operation) => {
-      return { ...operation, query: operation.query.replace("{keyspace}", this.cassandara.keyspace) };
-    }), { prepare });
+  /**
+   * Start a batch of model-bound operations, or send a list of operations at once.
+   *
+   * @param {Array<BatchStatement | BatchOperation>} [operations] - The operations to send. Returns a {@link BatchBuilder} when omitted.
+   * @param {BatchOptions} [options] - The mode, time to live, timestamp and size limits of the batch.
+   * @throws {Error} When operations are passed, throws the first error of a statement that was not applied.
+   *
+   * @example
+   * // Write a message and its copy in a lookup table atomically
+   * const { applied, errors } = await client
+   *   .batch()
+   *   .add(messages.batchInsert(message), messagesById.batchInsert(message))
+   *   .execute();
+   *
+   * // Bump counters of a counter table
+   * await client.batch([stats.batchIncrement({ $counters: { messages: 1 }, $where: [{ equals: ['channel_id', channelId] }] })]);
+   */
+  public batch(options?: BatchOptions): BatchBuilder;
+  public batch(operations: (BatchStatement | BatchOperation)[], options?: BatchOptions): Promise<void>;
+  public batch(operations?: (BatchStatement | BatchOperation)[] | BatchOptions, options?: BatchOptions): BatchBuilder | Promise<void> {
+    if (!Array.isArray(operations)) return new BatchBuilder(this, { ...operations });
+
+    return new BatchBuilder(this, { ...options })
+      .add(...operations)
+      .execute()
+      .then(({ errors }) => {
+        if (errors.length > 0) throw errors[0].error;
+      });
   }
 
   /**
@@ -215,8 +338,10 @@ export class Client {
    *
    * @param {string} name - The name of the keyspace to be created.
    * @param {KeyspaceReplication} replication - The replication strategy and configuration for the keyspace.
+   * @param {Object} [options] - Options for the creation.
+   * @param {boolean} [options.ifNotExists] - Do nothing if the keyspace exists already. Defaults to `true`.
    *
-   * @throws {Error} Throws an error if an unsupported replication strategy is provided.
+   * @throws {Error} Throws an error if an unsupported replication strategy or an invalid replication factor is provided.
    *
    * @example
    * // Create keyspace with SimpleStrategy replication
@@ -232,48 +357,44 @@ export class Client {
    *   durableWrites: false
    * });
    */
-  public async createKeyspace(name: string, replication: KeyspaceReplication) {
-    let query = `CREATE KEYSPACE ${name}`;
-
-    switch (replication.class) {
-      case "SimpleStrategy":
-        query += `
-        WITH REPLICATION = {
-            'class': '${replication.class}',
-            'replication_factor': ${replication.factor}
-        }`;
-        break;
-      case "NetworkTopologyStrategy":
-        query = `
-        WITH REPLICATION = {
-            'class': '${replication.class}',
-            ${replication.datacenters.map((dc) => `'${dc.name}': ${dc.factor}`)}
-            }`;
-        break;
-      default:
-        throw new Error(
-          `The only available replication strategies are 'SimpleStrategy' and 'NetworkTopologyStrategy'`
-        );
-    }
-
-    query += replication.durableWrites
-      ? `\n    AND DURABLE WRITES = ${replication.durableWrites};`
-      : ";";
-    await this.cassandara.execute(query);
+  public async createKeyspace(name: string, replication: KeyspaceReplication, { ifNotExists = true }: { ifNotExists?: boolean } = {}) {
+    await this.cassandara.execute(keyspaceStatement("CREATE", name, replication, ifNotExists));
+  }
+
+  /**
+   * Read the replication of a keyspace from `system_schema.keyspaces`.
+   *
+   * @param {string} [name] - The name of the keyspace. Defaults to the keyspace of the client.
+   * @returns {Promise<KeyspaceDescription | null>} The replication of the keyspace, or `null` if it does not exist.
+   *
+   * @example
+   * const keyspace = await client.describeKeyspace('tenant_a');
+   * if (keyspace?.replication?.class == 'NetworkTopologyStrategy') console.log(keyspace.replication.datacenters);
+   */
+  public async describeKeyspace(name = this.cassandara.keyspace): Promise<KeyspaceDescription | null> {
+    const data = await this.cassandara.execute(
+      `SELECT keyspace_name, durable_writes, replication FROM system_schema.keyspaces WHERE keyspace_name = ?;`,
+      [storedName(name)],
+      { prepare: true }
+    );
+
+    return data.rows.length > 0 ? parseKeyspace(data.rows[0]) : null;
   }
 
   /**
    * Drop (delete) an existing keyspace in the Cassandra database.
    *
    * @param {string} name - The name of the keyspace to be dropped.
+   * @param {Object} [options] - Options for the drop.
+   * @param {boolean} [options.ifExists] - Do nothing if the keyspace does not exist. Defaults to `false`.
    *
-   * @throws {Error} Throws an error if the keyspace does not exist or if there's an issue with the execution.
+   * @throws {Error} Throws an error if the keyspace does not exist and `ifExists` is not set, or if there's an issue with the execution.
    *
    * @example
    * // Drop an existing keyspace
    * await dropKeyspace('myKeyspace');
    */
-  public async dropKeyspace(name: string) {
-    await this.cassandara.execute(`DROP KEYSPACE ${name};`);
+  public async dropKeyspace(name: string, { ifExists = false }: { ifExists?: boolean } = {}) {
+    await this.cassandara.execute(`DROP KEYSPACE ${ifExists ? "IF EXISTS " : ""}${identifier(name)};`);
   }
 }
@@ -0,0 +1,368 @@
+import { types } from "cassandra-driver";
+import type { Client } from "./Client";
+import { storedName } from "./Identifier";
+import {
+  FieldTypeMap,
+  FrozenType,
+  parseFieldType,
+  SchemaOptionsFieldType,
+  UDTSchemaOptionsField,
+} from "./Schema";
+import { CqlType, unfreeze } from "./TypeParser";
+import { getCollectionOperator } from "./Query";
+import { UpdateSet, WhereClause } from "./types";
+
+/**
+ * Converts a column value between the representation used by the driver and the TypeScript type declared in the schema.
+ */
+export interface Codec<TS = any, DB = any> {
+  /**
+   * Convert a value returned by the driver.
+   */
+  decode(value: DB): TS;
+  /**
+   * Convert a value before it is sent to the driver.
+   */
+  encode(value: TS): DB;
+}
+
+const toLong = (value: number | string | types.Long) =>
+  value instanceof types.Long
+    ? value
+    : typeof value == "string"
+      ? types.Long.fromString(value)
+      : types.Long.fromNumber(value);
+
+/**
+ * Convert a value to a date.
+ * @param value A date, milliseconds since the epoch or a date string.
+ * @throws {Error} Throws an error if the value is not a valid date.
+ */
+const toDate = (value: Date | number | string) => {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) throw new Error(`${String(value)} is not a valid timestamp`);
+  return date;
+};
+
+/**
+ * Get the key of a map passed as an object from its encoded value. The driver parses the string form of every native type.
+ * @param key The encoded key.
+ */
+const keyString = (key: unknown) => (key instanceof Date ? key.toISOString() : String(key));
+
+const identity: Codec = { decode: (value) => value, encode: (value) => value };
+
+/**
+ * The codecs used for every CQL type unless they are overridden in the client options.
+ */
+export const defaultCodecs: Record<keyof FieldTypeMap<any>, Codec> = {
+  ascii: identity,
+  bigint: {
+    decode: (value: types.Long) => value.toString(),
+    encode: toLong,
+  },
+  blob: identity,
+  boolean: identity,
+  counter: {
+    decode: (value: types.Long) => value.toNumber(),
+    encode: toLong,
+  },
+  date: {
+    decode: (value: types.LocalDate) => value.toString(),
+    encode: (value: string | Date | types.LocalDate) =>
+      value instanceof types.LocalDate ? value : value instanceof Date ? types.LocalDate.fromDate(value) : types.LocalDate.fromString(value),
+  },
+  decimal: {
+    decode: (value: types.BigDecimal) => value.toString(),
+    encode: (value: number | string | types.BigDecimal) =>
+      value instanceof types.BigDecimal ? value : typeof value == "string" ? types.BigDecimal.fromString(value) : types.BigDecimal.fromNumber(value),
+  },
+  double: identity,
+  duration: {
+    decode: (value: types.Duration) => value.toString(),
+    encode: (value: string | types.Duration) => (value instanceof types.Duration ? value : types.Duration.fromString(value)),
+  },
+  float: identity,
+  inet: {
+    decode: (value: types.InetAddress) => value.toString(),
+    encode: (value: string | types.InetAddress) => (value instanceof types.InetAddress ? value : types.InetAddress.fromString(value)),
+  },
+  int: identity,
+  smallint: identity,
+  text: identity,
+  time: {
+    decode: (value: types.LocalTime) => value.toString(),
+    encode: (value: string | types.LocalTime) => (value instanceof types.LocalTime ? value : types.LocalTime.fromString(value)),
+  },
+  timestamp: {
+    decode: (value: Date) => value,
+    encode: toDate,
+  },
+  timeuuid: {
+    decode: (value: types.TimeUuid) => value.toString(),
+    encode: (value: string | types.TimeUuid) => (value instanceof types.Uuid ? value : types.TimeUuid.fromString(value)),
+  },
+  tinyint: identity,
+  uuid: {
+    decode: (value: types.Uuid) => value.toString(),
+    encode: (value: string | types.Uuid) => (value instanceof types.Uuid ? value : types.Uuid.fromString(value)),
+  },
+  varchar: identity,
+  varint: {
+    decode: (value: types.Integer) => value.toString(),
+    encode: (value: string | number | types.Integer) =>
+      value instanceof types.Integer ? value : types.Integer.fromString(String(value)),
+  },
+};
+
+/**
+ * The driver returns vectors as a `Float32Array` and only accepts them as one.
+ */
+const vectorCodec: Codec<number[], Float32Array> = {
+  decode: (value) => Array.from(value),
+  encode: (value) => (value instanceof Float32Array ? value : Float32Array.from(value)),
+};
+
+/**
+ * Converts rows and parameters between the driver and the TypeScript types declared in the schemas.
+ */
+export class Codecs {
+  private readonly codecs = new Map<string, Codec>(Object.entries(defaultCodecs));
+  private readonly parsed = new Map<string, CqlType>();
+  private readonly declaredNames = new WeakMap<object, Map<string, string>>();
+
+  constructor(private readonly client: Client, overrides: Record<string, Codec> = {}) {
+    for (const [type, codec] of Object.entries(overrides)) this.register(type, codec);
+  }
+
+  /**
+   * Replace the codec of a CQL type.
+   * @param type The CQL type, e.g. `bigint`.
+   * @param codec The codec to use for every column of that type.
+   */
+  public register(type: string, codec: Codec) {
+    this.codecs.set(type, codec);
+  }
+
+  /**
+   * Whether the codec of a native type was replaced.
+   * @param type The CQL type, e.g. `bigint`.
+   */
+  public overridden(type: keyof FieldTypeMap<any>) {
+    return this.codecs.get(type) !== defaultCodecs[type];
+  }
+
+  private parse(type: SchemaOptionsFieldType<any> | string | CqlType): CqlType {
+    if (typeof type == "object" && "kind" in type) return type;
+
+    const key = type instanceof FrozenType ? `frozen<${type.udt}>` : type;
+    let parsed = this.parsed.get(key);
+    if (!parsed) {
+      parsed = parseFieldType(key);
+      this.parsed.set(key, parsed);
+    }
+    return parsed;
+  }
+
+  /**
+   * Get the declared name of a column or field from the name Cassandra stores for it, e.g. `createdAt` from `createdat`.
+   * @param definition The schema definition of the table or type.
+   * @param name The stored name.
+   */
+  private declaredName(definition: Record<string, unknown>, name: string) {
+    if (name in definition) return name;
+    let names = this.declaredNames.get(definition);
+    if (!names) {
+      names = new Map(Object.keys(definition).map((key) => [storedName(key), key]));
+      this.declaredNames.set(definition, names);
+    }
+    return names.get(name) ?? name;
+  }
+
+  private convert(type: SchemaOptionsFieldType<any> | string | CqlType, value: any, direction: keyof Codec, codec?: Codec): any {
+    if (value === null || value === undefined) return value;
+    if (codec) return codec[direction](value);
+
+    const parsed = this.parse(type);
+    switch (parsed.kind) {
+      case "frozen":
+        return this.convert(parsed.inner, value, direction);
+      case "list":
+      case "set":
+        return Array.from(value as Iterable<any>, (element) => this.convert(parsed.element, element, direction));
+      case "map":
+        if (value instanceof Map)
+          return new Map(Array.from(value, ([k, v]) => [this.convert(parsed.key, k, direction), this.convert(parsed.value, v, direction)]));
+        return Object.fromEntries(
+          Object.entries(value).map(([k, v]) => [
+            direction == "encode" ? keyString(this.convert(parsed.key, k, direction)) : k,
+            this.convert(parsed.value, v, direction),
+          ])
+        );
+      case "tuple": {
+        const elements: any[] = value instanceof types.Tuple ? value.values() : value;
+        const converted = elements.map((element, i) => this.convert(parsed.elements[i], element, direction));
+        return direction == "encode" ? types.Tuple.fromArray(converted) : converted;
+      }
+      case "vector":
+        return vectorCodec[direction](value);
+      case "udt": {
+        const udt = this.client.types.get(parsed.name);
+        if (!udt) return value;
+        const definition = udt.schema.definition as Record<string, UDTSchemaOptionsField<any>>;
+        // The driver reads and writes the fields of a user defined type under the names Cassandra stores.
+        return Object.fromEntries(
+          Object.entries(value).map(([k, v]) => {
+            const field = direction == "decode" ? this.declaredName(definition, k) : k;
+            const converted = definition[field] ? this.convert(definition[field].type, v, direction, definition[field].codec) : v;
+            return [direction == "decode" ? field : storedName(field), converted];
+          })
+        );
+      }
+      case "native":
+        return (this.codecs.get(parsed.name) ?? identity)[direction](value);
+    }
+  }
+
+  /**
+   * Convert a value returned by the driver to its declared TypeScript type.
+   * @param type The CQL type of the value.
+   * @param value The value returned by the driver.
+   * @param codec A codec that overrides the codec of the type.
+   */
+  public decode(type: SchemaOptionsFieldType<any> | string | CqlType, value: any, codec?: Codec) {
+    return this.convert(type, value, "decode", codec);
+  }
+
+  /**
+   * Convert a value to the representation expected by the driver.
+   * @param type The CQL type of the value.
+   * @param value The value to send.
+   * @param codec A codec that overrides the codec of the type.
+   */
+  public encode(type: SchemaOptionsFieldType<any> | string | CqlType, value: any, codec?: Codec) {
+    return this.convert(type, value, "encode", codec);
+  }
+
+  /**
+   * Convert the value of every declared column of a row, keyed by its declared name. Undeclared columns, such as
+   * aggregates, are kept as they are.
+   * @param definition The schema definition of the table.
+   * @param row The row returned by the driver.
+   */
+  public decodeRow<T>(definition: Record<string, { type: SchemaOptionsFieldType<any>; codec?: Codec }>, row: types.Row): T {
+    return Object.fromEntries(
+      row.keys().map((key) => {
+        const column = this.declaredName(definition, key);
+        const field = definition[column];
+        return [column, field ? this.decode(field.type, row.get(key), field.codec) : row.get(key)];
+      })
+    ) as T;
+  }
+
+  /**
+   * Convert the value of every declared column of an object.
+   * @param definition The schema definition of the table.
+   * @param data The column values.
+   */
+  public encodeRow<T>(definition: Record<string, { type: SchemaOptionsFieldType<any>; codec?: Codec }>, data: T): T {
+    return Object.fromEntries(
+      Object.entries(data as Record<string, any>).map(([key, value]) => {
+        const field = definition[key];
+        return [key, field ? this.encode(field.type, value, field.codec) : value];
+      })
+    ) as T;
+  }
+
+  /**
+   * Convert the values of where clauses. `in` and `notIn` convert every element, `contains` converts a collection element
+   * and multi-column relations convert the value of every column. `token()` values are converted when the statement is built.
+   * @param definition The schema definition of the table.
+   * @param where The where clauses.
+   */
+  public encodeWhere<T>(definition: Record<string, { type: SchemaOptionsFieldType<any>; codec?: Codec }>, where: WhereClause<T>[]) {
+    return where.map((condition) => {
+      const [operator, args] = Object.entries(condition)[0];
+      const [k, v] = args as [keyof T, any];
+      if (operator == "token") return condition;
+      if (Array.isArray(k)) {
+        const encodeTuple = (values: any[]) =>
+          values.map((element, i) => {
+            const field = definition[String(k[i])];
+            return field ? this.encode(field.type, element, field.codec) : element;
+          });
+        return { [operator]: [k, operator == "in" ? (v as any[][]).map(encodeTuple) : encodeTuple(v)] } as WhereClause<T>;
+      }
+
+      const field = definition[k.toString()];
+      if (!field) return condition;
+
+      let value: any;
+      if (operator == "in" || operator == "notIn")
+        value = (v as any[]).map((element) => this.encode(field.type, element, field.codec));
+      else if (operator == "contains" || operator == "notContains")
+        value = field.codec ? v : this.encode(this.elementType(field.type) ?? field.type, v);
+      else value = this.encode(field.type, v, field.codec);
+
+      return { [operator]: [k, value] } as WhereClause<T>;
+    });
+  }
+
+  /**
+   * Convert the values of an update, including the payloads of collection operators.
+   * @param definition The schema definition of the table.
+   * @param set The columns to change.
+   */
+  public encodeSet<T>(definition: Record<string, { type: SchemaOptionsFieldType<any>; codec?: Codec }>, set: UpdateSet<T>): UpdateSet<T> {
+    return Object.fromEntries(
+      Object.entries(set).map(([key, value]) => {
+        const field = definition[key];
+        const operation = getCollectionOperator(value);
+        if (!field) return [key, value];
+        if (!operation) return [key, this.encode(field.type, value, field.codec)];
+
+        const [operator, payload] = operation;
+        const collection = unfreeze(this.parse(field.type));
+        const keyType = collection.kind == "map" ? collection.key : this.elementType(field.type) ?? collection;
+        const valueType = this.elementType(field.type) ?? collection;
+        let encoded: any;
+        switch (operator) {
+          case "$putKey":
+            encoded = Array.isArray(payload)
+              ? [this.encode(keyType, payload[0]), this.encode(valueType, payload[1])]
+              : this.encode(field.type, payload, field.codec);
+            break;
+          case "$removeKey":
+            encoded = (payload as any[]).map((k) => this.encode(keyType, k));
+            break;
+          case "$setIndex":
+            encoded = [payload[0], this.encode(valueType, payload[1])];
+            break;
+          case "$deleteIndex":
+            encoded = collection.kind == "map" ? this.encode(keyType, payload) : payload;
+            break;
+          default:
+            encoded = this.encode(field.type, payload, field.codec);
+        }
+
+        return [key, { [operator]: encoded }];
+      })
+    ) as UpdateSet<T>;
+  }
+
+  /**
+   * Get the type of the elements of a list or set column, or of the values of a map column.
+   * @param type The CQL type of the column.
+   */
+  public elementType(type: SchemaOptionsFieldType<any> | string | CqlType): CqlType | undefined {
+    const collection = unfreeze(this.parse(type));
+    switch (collection.kind) {
+      case "list":
+      case "set":
+      case "vector":
+        return collection.element;
+      case "map":
+        return collection.value;
+    }
+  }
+}
@@ -0,0 +1,245 @@
+import type { Model } from "./Model";
+import type { WriteResult } from "./Query";
+import type { UpdateSet, WhereClause } from "./types";
+
+/**
+ * An entity with its columns as properties, e.g. `user.name`.
+ */
+export type EntityOf<T, I extends Partial<Record<keyof T, any>> = Partial<T>, K extends keyof T = keyof T> = Entity<T, I, K> & T;
+
+/**
+ * The primary key of a row, e.g. `{ id }`. A model created from its row type alone, without {@link defineModel}, does not
+ * know which columns form its key, so it accepts any columns and the key is checked when the row is read.
+ */
+export type EntityKey<T, K extends keyof T = keyof T> = keyof T extends K ? Partial<T> : Pick<T, K>;
+
+export interface EntitySaveOptions {
+  /**
+   * Prepare the statement. Defaults to the `prepare` option of the client.
+   */
+  prepare?: boolean;
+  /**
+   * The time to live of the written columns in seconds.
+   */
+  ttl?: number;
+  /**
+   * The write timestamp, in microseconds or as a `Date`.
+   */
+  timestamp?: number | Date;
+}
+
+/**
+ * Copy a value so changes made to it in place, such as pushing to a list, can be detected.
+ * @param value The value of a column.
+ */
+const clone = (value: unknown): unknown => {
+  if (value instanceof Date) return new Date(value.getTime());
+  if (Buffer.isBuffer(value)) return Buffer.from(value);
+  if (Array.isArray(value)) return value.map(clone);
+  if (value instanceof Set) return new Set(Array.from(value, clone));
+  if (value instanceof Map) return new Map(Array.from(value, ([k, v]) => [k, clone(v)]));
+  if (typeof value == "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype)
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, clone(v)]));
+  return value;
+};
+
+/**
+ * Compare two values of a column. `null` and `undefined` are the same, because both mean the column is not set.
+ */
+const equal = (a: unknown, b: unknown): boolean => {
+  if (a === b || (a == null && b == null)) return true;
+  if (a == null || b == null || typeof a != "object" || typeof b != "object") return false;
+  if (a instanceof Date || b instanceof Date) return a instanceof Date && b instanceof Date && a.getTime() == b.getTime();
+  if (Buffer.isBuffer(a) || Buffer.isBuffer(b)) return Buffer.isBuffer(a) && Buffer.isBuffer(b) && a.equals(b);
+  if (Array.isArray(a) || Array.isArray(b))
+    return Array.isArray(a) && Array.isArray(b) && a.length == b.length && a.every((value, i) => equal(value, b[i]));
+  if (a instanceof Set || b instanceof Set)
+    return a instanceof Set && b instanceof Set && a.size == b.size && Array.from(a).every((value) => Array.from(b).some((other) => equal(value, other)));
+  if (a instanceof Map || b instanceof Map)
+    return a instanceof Map && b instanceof Map && a.size == b.size && Array.from(a).every(([k, v]) => b.has(k) && equal(v, b.get(k)));
+  if (typeof (a as { equals?: unknown }).equals == "function") return (a as { equals: (other: unknown) => boolean }).equals(b);
+
+  const keys = Object.keys(a);
+  return keys.length == Object.keys(b).length && keys.every((key) => equal((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+};
+
+/**
+ * A row tracked by its model. The columns are exposed as properties and `save()` only writes the columns that changed,
+ * so values read earlier never overwrite newer writes of other columns.
+ *
+ * Columns whose name collides with a member of the entity, such as `save`, are only available through {@link Entity.get}
+ * and {@link Entity.set}.
+ *
+ * @example
+ * const user = await users.get({ id });
+ * if (user) {
+ *   user.name = "Ada";
+ *   await user.save(); // UPDATE users SET name=? WHERE id=? IF EXISTS
+ * }
+ *
+ * const created = users.create({ id: randomUUID(), name: "Grace" });
+ * await created.save(); // INSERT
+ */
+export class Entity<T, I extends Partial<Record<keyof T, any>> = Partial<T>, K extends keyof T = keyof T> {
+  private values: Record<string, unknown>;
+  private original: Record<string, unknown> = {};
+  private persisted = false;
+
+  /**
+   * Use {@link Model.get} or {@link Model.create} instead.
+   * @param model The model of the row.
+   * @param values The values of the row.
+   * @param persisted Whether the row was read from the table.
+   */
+  constructor(
+    public readonly model: Model<T, I, K>,
+    values: Partial<T>,
+    persisted: boolean
+  ) {
+    this.values = { ...values };
+    if (persisted) this.track();
+
+    for (const column of Object.keys(model.schema.definition)) {
+      if (column in this) continue;
+      Object.defineProperty(this, column, {
+        get: () => this.values[column],
+        set: (value) => {
+          this.values[column] = value;
+        },
+        enumerable: true,
+      });
+    }
+  }
+
+  /**
+   * Remember the current values as the values stored in the table.
+   */
+  private track() {
+    this.original = clone(this.values) as Record<string, unknown>;
+    this.persisted = true;
+  }
+
+  /**
+   * Whether the entity was not saved yet, or was deleted.
+   */
+  public get isNew() {
+    return !this.persisted;
+  }
+
+  /**
+   * The columns changed since the entity was read or saved. Every set column of a new entity.
+   */
+  public get changes(): (keyof T)[] {
+    const columns = Object.keys(this.values).filter((column) =>
+      this.persisted ? !equal(this.values[column], this.original[column]) : this.values[column] !== undefined && this.values[column] !== null
+    );
+    return columns as (keyof T)[];
+  }
+
+  /**
+   * Whether any column changed since the entity was read or saved.
+   */
+  public get isDirty() {
+    return this.changes.length > 0;
+  }
+
+  /**
+   * Get the value of a column.
+   * @param column The column.
+   */
+  public get<C extends keyof T>(column: C): T[C] {
+    return this.values[column as string] as T[C];
+  }
+
+  /**
+   * Change the value of a column.
+   * @param column The column.
+   * @param value The new value.
+   */
+  public set<C extends keyof T>(column: C, value: T[C]) {
+    this.values[column as string] = value;
+    return this;
+  }
+
+  /**
+   * Change the values of several columns.
+   * @param values The new values.
+   */
+  public assign(values: Partial<T>) {
+    Object.assign(this.values, values);
+    return this;
+  }
+
+  /**
+   * The primary key of the stored row, as where clauses.
+   * @throws {Error} Throws an error if a primary key column is not set.
+   */
+  private get where(): WhereClause<T, K>[] {
+    const [partitionKey, clusteringKey] = this.model.primaryKey;
+    const source = this.persisted ? this.original : this.values;
+    return [...partitionKey, ...clusteringKey].map((column) => {
+      if (source[column] === undefined || source[column] === null)
+        throw new Error(`Entity of model "${this.model.name}" is missing primary key column "${column}"`);
+      return { equals: [column, source[column]] } as WhereClause<T, K>;
+    });
+  }
+
+  /**
+   * Insert a new entity, or update the changed columns of an existing one. Nothing is written when nothing changed.
+   * Updates only apply if the row still exists, and inserts only if it does not exist yet.
+   * @param options The options of the write.
+   * @returns Whether the write was applied and, if not, the current values of the row.
+   * @throws {Error} Throws an error if a primary key column of an existing entity was changed.
+   */
+  public async save({ prepare, ttl, timestamp }: EntitySaveOptions = {}): Promise<WriteResult<T>> {
+    const changes = this.changes;
+    let result: WriteResult<T> = { applied: true };
+
+    if (!this.persisted) {
+      const data = Object.fromEntries(changes.map((column) => [column, this.values[column as string]])) as I;
+      result = await this.model.insert(data, { prepare, ttl, timestamp });
+    } else if (changes.length > 0) {
+      const [partitionKey, clusteringKey] = this.model.primaryKey;
+      const keys = changes.filter((column) => partitionKey.includes(column as string) || clusteringKey.includes(column as string));
+      if (keys.length > 0)
+        throw new Error(`Can not change primary key column(s) ${keys.map((column) => `"${column.toString()}"`).join(", ")} of an entity of model "${this.model.name}"`);
+
+      const $set = Object.fromEntries(changes.map((column) => [column, this.values[column as string] ?? null])) as UpdateSet<T>;
+      result = await this.model.update({ $set, $where: this.where, $prepare: prepare, $ttl: ttl, $timestamp: timestamp, $ifExists: true });
+    }
+
+    if (result.applied) this.track();
+    return result;
+  }
+
+  /**
+   * Delete the row of the entity. Saving it afterwards inserts it again.
+   * @param options Whether to prepare the statement.
+   */
+  public async delete({ prepare }: Pick<EntitySaveOptions, "prepare"> = {}) {
+    const result = await this.model.delete({ $where: this.where, $prepare: prepare });
+    this.persisted = false;
+    this.original = {};
+    return result;
+  }
+
+  /**
+   * Read the row of the entity again, discarding unsaved changes.
+   * @throws {Error} Throws an error if the row does not exist anymore.
+   */
+  public async reload() {
+    const [row] = await this.model.select({ $where: this.where, $limit: 1 });
+    if (!row) throw new Error(`Entity of model "${this.model.name}" does not exist anymore`);
+
+    this.values = { ...row };
+    this.track();
+    return this;
+  }
+
+  /**
+   * The values of the columns.
+   */
+  public toJSON(): Partial<T> {
+    return { ...this.values } as Partial<T>;
+  }
+}
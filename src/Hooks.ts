@@ -0,0 +1,143 @@
+import type { QueryOptions, types } from "cassandra-driver";
+import type { MaterialView } from "./MaterialView";
+import type { Model } from "./Model";
+import type { Statement, WriteResult } from "./Query";
+import type { UpdateSet, WhereClause } from "./types";
+
+type Awaitable<T> = T | Promise<T>;
+
+/**
+ * The kind of operation a statement was generated for.
+ */
+export type Operation = "select" | "count" | "insert" | "update" | "delete" | "counter" | "batch" | "execute";
+
+/**
+ * The model and operation a hook runs for.
+ */
+export interface HookContext {
+  model: Model<any, any, any>;
+  operation: Operation;
+}
+
+/**
+ * The value passed through the handlers of each `before` hook and `afterSelect`, each of which may return a replacement.
+ */
+export interface PipedHookValues<T, I = Partial<T>, K extends keyof T = keyof T> {
+  beforeInsert: I;
+  beforeUpdate: { set: UpdateSet<T>; where: WhereClause<T, K>[] };
+  beforeDelete: { where: WhereClause<T, K>[] };
+  beforeSelect: { where: WhereClause<T, K>[] };
+  afterSelect: Partial<T>[];
+}
+
+/**
+ * What was written, as passed to the handlers of each `after` hook of a write.
+ */
+export interface NotifiedHookValues<T, I = Partial<T>, K extends keyof T = keyof T> {
+  afterInsert: I;
+  afterUpdate: { set: UpdateSet<T>; where: WhereClause<T, K>[] };
+  afterDelete: { where: WhereClause<T, K>[] };
+}
+
+export type PipedHookName = keyof PipedHookValues<any>;
+export type NotifiedHookName = keyof NotifiedHookValues<any>;
+
+type PipedHookHandlers<T, I, K extends keyof T> = {
+  [N in PipedHookName]: (value: PipedHookValues<T, I, K>[N], context: HookContext) => Awaitable<PipedHookValues<T, I, K>[N] | void>;
+};
+
+type NotifiedHookHandlers<T, I, K extends keyof T> = {
+  [N in NotifiedHookName]: (value: NotifiedHookValues<T, I, K>[N], result: WriteResult<T>, context: HookContext) => Awaitable<void>;
+};
+
+/**
+ * The handlers of each hook. `before` hooks may return a replacement for their argument, `afterSelect` may return replacement rows.
+ */
+export interface HookMap<T, I = Partial<T>, K extends keyof T = keyof T> extends PipedHookHandlers<T, I, K>, NotifiedHookHandlers<T, I, K> {}
+
+export type HookName = keyof HookMap<any>;
+
+/**
+ * A statement about to be executed, as seen by a middleware.
+ */
+export interface ExecutionContext {
+  operation: Operation;
+  /**
+   * The model that generated the statements, if any.
+   */
+  model?: Model<any, any, any>;
+  /**
+   * The material view the statements read from, if any.
+   */
+  view?: MaterialView<any>;
+  /**
+   * The statements to execute. A middleware may replace them, e.g. to add a condition.
+   */
+  statements: Statement[];
+  /**
+   * The options passed to the driver.
+   */
+  options: QueryOptions;
+}
+
+/**
+ * The operation and model or view passed along with a statement to {@link Client.execute}.
+ */
+export type ExecutionTarget = Partial<Pick<ExecutionContext, "operation" | "model" | "view">>;
+
+/**
+ * Runs around the execution of generated statements. Call `next` to continue with the next middleware and the driver.
+ *
+ * @example
+ * client.use(async (context, next) => {
+ *   const started = Date.now();
+ *   const result = await next();
+ *   console.log(`${context.operation} on ${context.model?.name}: ${Date.now() - started}ms`);
+ *   return result;
+ * });
+ */
+export type Middleware = (context: ExecutionContext, next: () => Promise<types.ResultSet>) => Promise<types.ResultSet>;
+
+/**
+ * The handlers registered for each hook of a model or client.
+ */
+export class Hooks<T, I = Partial<T>, K extends keyof T = keyof T> {
+  private readonly handlers: { [N in HookName]?: HookMap<T, I, K>[N][] } = {};
+
+  /**
+   * Register a handler.
+   * @param name The hook.
+   * @param handler Runs after the handlers registered before it.
+   */
+  public add<N extends HookName>(name: N, handler: HookMap<T, I, K>[N]) {
+    const handlers: { [M in N]?: HookMap<T, I, K>[M][] } = this.handlers;
+    (handlers[name] ??= []).push(handler);
+  }
+
+  /**
+   * Run the handlers of a `before` hook or `afterSelect` in order, passing each the value returned by the previous one.
+   * @param name The hook.
+   * @param value The value to pass to the first handler.
+   * @param context The model and operation.
+   */
+  public async pipe<N extends PipedHookName>(name: N, value: PipedHookValues<T, I, K>[N], context: HookContext) {
+    const handlers: PipedHookHandlers<T, I, K>[N][] = this.handlers[name] ?? [];
+    for (const handler of handlers) {
+      const result = await handler(value, context);
+      if (result !== undefined) value = result;
+    }
+    return value;
+  }
+
+  /**
+   * Run the handlers of an `after` hook in order.
+   * @param name The hook.
+   * @param value What was written.
+   * @param result The outcome of the write.
+   * @param context The model and operation.
+   */
+  public async notify<N extends NotifiedHookName>(name: N, value: NotifiedHookValues<T, I, K>[N], result: WriteResult<T>, context: HookContext) {
+    const handlers: NotifiedHookHandlers<T, I, K>[N][] = this.handlers[name] ?? [];
+    for (const handler of handlers) await handler(value, result, context);
+  }
+}
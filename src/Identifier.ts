@@ -0,0 +1,50 @@
+/**
+ * The keywords CQL reserves. They can only be used as names when quoted.
+ */
+export const reservedKeywords = new Set([
+  "add", "allow", "alter", "and", "apply", "asc", "authorize", "batch", "begin", "by", "columnfamily", "create",
+  "default", "delete", "desc", "describe", "drop", "entries", "execute", "from", "full", "grant", "if", "in", "index",
+  "infinity", "insert", "into", "is", "keyspace", "limit", "materialized", "mbean", "mbeans", "modify", "nan",
+  "norecursive", "not", "null", "of", "on", "or", "order", "primary", "rename", "replace", "revoke", "schema", "select",
+  "set", "table", "to", "token", "truncate", "unlogged", "unset", "update", "use", "using", "view", "where", "with",
+]);
+
+/**
+ * Whether a name can only be used quoted: reserved keywords and names with characters unquoted names can not have.
+ * @param name The name.
+ */
+const needsQuotes = (name: string) => !/^[a-zA-Z][a-zA-Z0-9_]*$/.test(name) || reservedKeywords.has(name.toLowerCase());
+
+const quote = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+/**
+ * Render a CQL identifier. Plain names are left unquoted, so Cassandra folds them to lower case and `createdAt` keeps
+ * referring to the `createdat` column. Reserved keywords and names with other characters are quoted.
+ * @param name The name of the keyspace, table, type, index or column.
+ * @throws {Error} Throws an error if the name is empty.
+ */
+export const identifier = (name: string | number | symbol) => {
+  if (typeof name != "string" || name.length < 1) throw new Error(`Invalid CQL identifier: ${String(name)}`);
+  return needsQuotes(name) ? quote(name) : name;
+};
+
+/**
+ * The name Cassandra stores for an identifier, e.g. in `system_schema` and the column names of rows: plain names in
+ * lower case and quoted names as they are.
+ * @param name The name as it is declared.
+ */
+export const storedName = (name: string) => (needsQuotes(name) ? name : name.toLowerCase());
+
+/**
+ * Render a name as it is stored by Cassandra, such as a name read from `system_schema`, quoting it when it is not in
+ * lower case.
+ * @param name The stored name.
+ */
+export const storedIdentifier = (name: string) => (needsQuotes(name) || name != name.toLowerCase() ? quote(name) : name);
+
+/**
+ * Render the name of a table or type qualified with its keyspace.
+ * @param keyspace The keyspace.
+ * @param name The name of the table or type.
+ */
+export const qualifiedName = (keyspace: string, name: string) => `${identifier(keyspace)}.${identifier(name)}`;
@@ -0,0 +1,91 @@
+import type { types } from "cassandra-driver";
+import { identifier } from "./Identifier";
+import { stringLiteral } from "./Query";
+
+export type KeyspaceReplication = (
+  | {
+    class: "SimpleStrategy";
+    factor: number;
+  }
+  | {
+    class: "NetworkTopologyStrategy";
+    datacenters: { name: string; factor: number }[];
+  }
+) & {
+  /**
+   * Write to the commit log before acknowledging writes. Omitted from the statement when not set, which keeps the
+   * default of `true` for new keyspaces and the current setting for altered ones.
+   */
+  durableWrites?: boolean;
+};
+
+export interface KeyspaceDescription {
+  name: string;
+  /**
+   * The replication of the keyspace, or `null` when it uses a strategy other than `SimpleStrategy` and
+   * `NetworkTopologyStrategy`, such as the `LocalStrategy` of system keyspaces.
+   */
+  replication: KeyspaceReplication | null;
+  /**
+   * The replication options as stored in `system_schema.keyspaces`.
+   */
+  options: Record<string, string>;
+  durableWrites: boolean;
+}
+
+const isFactor = (factor: unknown, min: number) => typeof factor == "number" && Number.isInteger(factor) && factor >= min;
+
+/**
+ * Render the replication of a keyspace as the map of a `WITH REPLICATION` clause.
+ * @param replication The replication strategy and factors.
+ * @throws {Error} Throws an error if the strategy is not supported or a replication factor is invalid.
+ */
+const replicationMap = (replication: KeyspaceReplication) => {
+  switch (replication.class) {
+    case "SimpleStrategy":
+      if (!isFactor(replication.factor, 1))
+        throw new Error(`The replication factor must be a positive integer, got ${replication.factor}`);
+      return `{'class': 'SimpleStrategy', 'replication_factor': ${replication.factor}}`;
+    case "NetworkTopologyStrategy": {
+      const names = replication.datacenters.map(({ name }) => name);
+      if (names.length < 1) throw new Error(`NetworkTopologyStrategy needs at least one datacenter`);
+      const duplicate = names.find((name, i) => names.indexOf(name) != i);
+      if (duplicate) throw new Error(`Datacenter "${duplicate}" is listed more than once`);
+      const invalid = replication.datacenters.find(({ factor }) => !isFactor(factor, 0));
+      if (invalid) throw new Error(`The replication factor of datacenter "${invalid.name}" must be a non-negative integer, got ${invalid.factor}`);
+
+      return `{'class': 'NetworkTopologyStrategy', ${replication.datacenters.map(({ name, factor }) => `${stringLiteral(name)}: ${factor}`).join(", ")}}`;
+    }
+    default:
+      throw new Error(`The only available replication strategies are 'SimpleStrategy' and 'NetworkTopologyStrategy'`);
+  }
+};
+
+/**
+ * Build the `CREATE KEYSPACE` or `ALTER KEYSPACE` statement of a keyspace.
+ * @param action Whether the keyspace is created or altered.
+ * @param name The name of the keyspace.
+ * @param replication The replication strategy and configuration of the keyspace.
+ * @param ifNotExists Only create the keyspace if it does not exist yet.
+ */
+export const keyspaceStatement = (action: "CREATE" | "ALTER", name: string, replication: KeyspaceReplication, ifNotExists = false) =>
+  `${action} KEYSPACE ${action == "CREATE" && ifNotExists ? "IF NOT EXISTS " : ""}${identifier(name)} WITH REPLICATION = ${replicationMap(replication)}${replication.durableWrites === undefined ? "" : ` AND DURABLE_WRITES = ${replication.durableWrites ? "true" : "false"}`
+  };`;
+
+/**
+ * Parse a row of `system_schema.keyspaces`.
+ * @param row The row.
+ */
+export const parseKeyspace = (row: types.Row): KeyspaceDescription => {
+  const options: Record<string, string> = row.get("replication") ?? {};
+  const durableWrites: boolean = row.get("durable_writes");
+  const strategy = (options.class ?? "").split(".").pop();
+  const settings = Object.entries(options).filter(([key]) => key != "class");
+
+  let replication: KeyspaceReplication | null = null;
+  if (strategy == "SimpleStrategy") replication = { class: strategy, factor: Number(options.replication_factor), durableWrites };
+  else if (strategy == "NetworkTopologyStrategy")
+    replication = { class: strategy, datacenters: settings.map(([name, factor]) => ({ name, factor: Number(factor) })), durableWrites };
+
+  return { name: row.get("keyspace_name"), replication, options, durableWrites };
+};
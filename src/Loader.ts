@@ -0,0 +1,320 @@
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import type { Client } from "./Client";
+import type { MaterialView } from "./MaterialView";
+import type { Model } from "./Model";
+import { parseFieldType } from "./Schema";
+import { typeDependencies } from "./TypeParser";
+import type { UDT } from "./UDT";
+
+/**
+ * Where to find models, user defined types or material views: a directory, a file, a glob pattern such as
+ * `src/models/**\/*.ts`, or a list of them mixed with instances.
+ */
+export type LoadSource<T> = string | (string | T)[];
+
+export interface LoadSources {
+  types?: LoadSource<UDT<any>>;
+  models?: LoadSource<Model<any, any, any>>;
+  materialViews?: LoadSource<MaterialView<any>>;
+}
+
+export interface LoadFailure {
+  /**
+   * The file, type, model or view that failed.
+   */
+  source: string;
+  error: Error;
+}
+
+/**
+ * Thrown after loading when files could not be imported or types, models or views could not be loaded.
+ */
+export class LoadError extends Error {
+  constructor(public readonly failures: LoadFailure[]) {
+    super(`Failed to load ${failures.length} item(s):\n${failures.map(({ source, error }) => `- ${source}: ${error.message}`).join("\n")}`);
+    this.name = "LoadError";
+  }
+}
+
+const moduleExtensions = [".js", ".cjs", ".mjs", ".ts", ".cts", ".mts"];
+
+const isModule = (file: string) => moduleExtensions.includes(path.extname(file)) && !/\.d\.[cm]?ts$/.test(file);
+
+const isGlob = (pattern: string) => /[*?{]/.test(pattern);
+
+const escapeRegExp = (text: string) => text.replace(/[.+^$()|[\]\\]/g, "\\$&");
+
+/**
+ * Convert a glob pattern to a regular expression. Supports `*`, `**`, `?` and `{a,b}`.
+ * @param pattern The glob pattern, with `/` as separator.
+ */
+const globRegExp = (pattern: string) => {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char == "*" && pattern[i + 1] == "*") {
+      i++;
+      if (pattern[i + 1] == "/") {
+        i++;
+        source += "(?:.*/)?";
+      } else source += ".*";
+    } else if (char == "*") source += "[^/]*";
+    else if (char == "?") source += "[^/]";
+    else if (char == "{" && pattern.indexOf("}", i) > i) {
+      const end = pattern.indexOf("}", i);
+      source += `(?:${pattern.slice(i + 1, end).split(",").map(escapeRegExp).join("|")})`;
+      i = end;
+    } else source += escapeRegExp(char);
+  }
+  return new RegExp(`^${source}$`);
+};
+
+/**
+ * List the files of a directory and its subdirectories, skipping `node_modules`.
+ * @param directory The directory.
+ */
+const walk = (directory: string): string[] =>
+  fs.readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const file = path.join(directory, entry.name);
+    if (entry.isDirectory()) return entry.name == "node_modules" ? [] : walk(file);
+    return entry.isFile() ? [file] : [];
+  });
+
+/**
+ * Find the module files matched by a directory, file or glob pattern, sorted so the load order is stable.
+ * @param pattern The directory, file or glob pattern. Relative paths are resolved against the working directory.
+ */
+const findFiles = (pattern: string) => {
+  const absolute = path.resolve(pattern).split(path.sep).join("/");
+  if (!isGlob(absolute)) return (fs.statSync(absolute).isDirectory() ? walk(absolute) : [absolute]).filter(isModule).sort();
+
+  const segments = absolute.split("/");
+  const base = segments.slice(0, segments.findIndex(isGlob)).join("/") || "/";
+  const matcher = globRegExp(absolute);
+  if (!fs.existsSync(base)) return [];
+  return walk(base).filter((file) => isModule(file) && matcher.test(file.split(path.sep).join("/"))).sort();
+};
+
+// `import()` is compiled to `require()` for CommonJS, which can not load ES modules.
+const importModule = new Function("specifier", "return import(specifier)") as (specifier: string) => Promise<unknown>;
+
+/**
+ * Load a module with `require`, falling back to `import()` for ES modules.
+ * @param file The absolute path of the module.
+ */
+const loadModule = async (file: string): Promise<unknown> => {
+  if (path.extname(file) == ".mjs") return importModule(pathToFileURL(file).href);
+  try {
+    return require(file);
+  } catch (error) {
+    if ((error as { code?: string }).code != "ERR_REQUIRE_ESM") throw error;
+    return importModule(pathToFileURL(file).href);
+  }
+};
+
+/**
+ * The models, user defined types and views exported by a module, from its default export or any named export.
+ * @param exports The exports of the module.
+ */
+const exportedItems = (exports: unknown) => {
+  if (typeof exports != "object" || exports === null) return [exports];
+  const values = Object.values(exports as Record<string, unknown>);
+  const nested = (exports as { default?: unknown }).default;
+  return [exports, ...values, ...(typeof nested == "object" && nested !== null ? Object.values(nested) : [])];
+};
+
+type Item = UDT<any> | Model<any, any, any> | MaterialView<any>;
+
+/**
+ * Whether a value is a user defined type, model or material view. Items are recognized by their shape instead of with
+ * `instanceof`, so those created by another copy of the package, e.g. one installed next to the model files, are found too.
+ * @param value The value.
+ */
+const kindOf = (value: unknown): "type" | "model" | "view" | undefined => {
+  if (typeof value != "object" || value === null) return undefined;
+  const item = value as Record<string, unknown>;
+  if (typeof item.name != "string" || typeof item.load != "function") return undefined;
+  if (typeof item.init == "function" && typeof item.schema == "object") return "type";
+  if (Array.isArray(item.primaryKey) && typeof item.schema == "object") return "model";
+  if (typeof item.options == "object" && item.options !== null && "tableName" in item.options) return "view";
+  return undefined;
+};
+
+const isItem = (value: unknown): value is Item => kindOf(value) !== undefined;
+
+const toError = (error: unknown) => (error instanceof Error ? error : new Error(String(error)));
+
+/**
+ * The names of the user defined types used by the fields of a schema.
+ * @param definition The schema definition of a type or model.
+ */
+const typesUsed = (definition: object) =>
+  (Object.values(definition) as { type: Parameters<typeof parseFieldType>[0] }[]).flatMap((field) => typeDependencies(parseFieldType(field.type)));
+
+/**
+ * Discovers models, user defined types and material views and loads them in dependency order: every type after the
+ * types it uses, models after their types and views after their base tables. Every failure is collected and reported
+ * together once everything that could be loaded is loaded. Files that export none of them are logged as a warning.
+ */
+export class Loader {
+  constructor(private readonly client: Client) { }
+
+  /**
+   * Import the files of every source and collect the items they export, keeping the instances passed directly.
+   */
+  private async discover(sources: LoadSources, failures: LoadFailure[]) {
+    const items = new Set<Item>();
+    const imported = new Set<string>();
+    const entries = [sources.types, sources.models, sources.materialViews].flatMap(
+      (source): (string | Item)[] =>
+        source === undefined ? [] : Array.isArray(source) ? source : [source]
+    );
+
+    for (const entry of entries) {
+      if (typeof entry != "string") {
+        if (isItem(entry)) items.add(entry);
+        else failures.push({ source: String(entry), error: new Error("Not a model, user defined type or material view") });
+        continue;
+      }
+
+      let files: string[];
+      try {
+        files = findFiles(entry);
+      } catch (error) {
+        failures.push({ source: entry, error: toError(error) });
+        continue;
+      }
+
+      for (const file of files) {
+        if (imported.has(file)) continue;
+        imported.add(file);
+        try {
+          const found = exportedItems(await loadModule(file)).filter(isItem);
+          if (found.length < 1) (this.client.logging.warn ?? this.client.logging.info)(`${file} does not export a model, user defined type or material view`);
+          found.forEach((item) => items.add(item));
+        } catch (error) {
+          failures.push({ source: file, error: toError(error) });
+        }
+      }
+    }
+
+    const all = [...items];
+    return {
+      types: all.filter((item): item is UDT<any> => kindOf(item) == "type"),
+      models: all.filter((item): item is Model<any, any, any> => kindOf(item) == "model"),
+      views: all.filter((item): item is MaterialView<any> => kindOf(item) == "view"),
+    };
+  }
+
+  /**
+   * Order user defined types so that every type comes after the types it uses.
+   * @param types The types to order.
+   * @param failures Collects the types that use missing types or depend on themselves. They are left out.
+   */
+  private orderTypes(types: UDT<any>[], failures: LoadFailure[]) {
+    const byName = new Map([...this.client.types.values(), ...types].map((udt) => [udt.name, udt]));
+    const ordered: UDT<any>[] = [];
+    const state = new Map<UDT<any>, "visiting" | "done" | "failed">();
+
+    const visit = (udt: UDT<any>, chain: string[]): boolean => {
+      const current = state.get(udt);
+      if (current == "done") return true;
+      if (current == "failed") return false;
+      if (current == "visiting") {
+        failures.push({ source: `type ${udt.name}`, error: new Error(`Circular dependency: ${[...chain, udt.name].join(" -> ")}`) });
+        return false;
+      }
+
+      state.set(udt, "visiting");
+      for (const name of typesUsed(udt.schema.definition)) {
+        const dependency = byName.get(name);
+        if (dependency && visit(dependency, [...chain, udt.name])) continue;
+        if (!dependency) failures.push({ source: `type ${udt.name}`, error: new Error(`Requires the "${name}" user defined type which was not found`) });
+        state.set(udt, "failed");
+        return false;
+      }
+
+      state.set(udt, "done");
+      ordered.push(udt);
+      return true;
+    };
+
+    for (const udt of types) visit(udt, []);
+    return ordered.filter((udt) => types.includes(udt));
+  }
+
+  /**
+   * Discover and load user defined types, models and material views.
+   * @param sources Where to find the types, models and views.
+   * @throws {LoadError} Throws an error listing every file, type, model or view that could not be loaded.
+   *
+   * @example
+   * await client.loader.load({ models: ["src/models/**\/*.ts", AuditLog], types: "src/types" });
+   */
+  public async load(sources: LoadSources) {
+    const failures: LoadFailure[] = [];
+    const { types, models, views } = await this.discover(sources, failures);
+
+    // The types that failed to initialize, order or load. Types and models that use them are skipped.
+    const unavailable = new Set<string>();
+    const notLoaded = (name: string) => new Error(`Requires the "${name}" user defined type which was not loaded`);
+
+    for (const udt of types) {
+      try {
+        await udt.init(this.client);
+      } catch (error) {
+        failures.push({ source: `type ${udt.name}`, error: toError(error) });
+        unavailable.add(udt.name);
+      }
+    }
+
+    const ordered = this.orderTypes(types, failures);
+    for (const udt of types) if (!ordered.includes(udt)) unavailable.add(udt.name);
+
+    for (const udt of ordered) {
+      if (unavailable.has(udt.name)) continue;
+      const missing = typesUsed(udt.schema.definition).find((name) => unavailable.has(name));
+      if (missing) {
+        failures.push({ source: `type ${udt.name}`, error: notLoaded(missing) });
+        unavailable.add(udt.name);
+        continue;
+      }
+      try {
+        await udt.load();
+      } catch (error) {
+        failures.push({ source: `type ${udt.name}`, error: toError(error) });
+        unavailable.add(udt.name);
+      }
+    }
+
+    for (const model of models) {
+      const missing = typesUsed(model.schema.definition).find((name) => unavailable.has(name));
+      if (missing) {
+        failures.push({ source: `model ${model.name}`, error: notLoaded(missing) });
+        continue;
+      }
+      try {
+        await model.load(this.client);
+      } catch (error) {
+        failures.push({ source: `model ${model.name}`, error: toError(error) });
+      }
+    }
+
+    for (const view of views) {
+      const base = typeof view.options.tableName == "string" ? view.options.tableName : view.options.tableName.name;
+      if (!this.client.models.has(base)) {
+        failures.push({ source: `material view ${view.name}`, error: new Error(`Requires the "${base}" model which was not loaded`) });
+        continue;
+      }
+      try {
+        await view.load(this.client);
+      } catch (error) {
+        failures.push({ source: `material view ${view.name}`, error: toError(error) });
+      }
+    }
+
+    if (failures.length > 0) throw new LoadError(failures);
+  }
+}
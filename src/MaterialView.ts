@@ -1,54 +1,256 @@
+import { types } from "cassandra-driver";
 import { Client } from "./Client";
+import { identifier, qualifiedName } from "./Identifier";
+import { Model } from "./Model";
+import {
+  buildLiteralWhere,
+  countStatement,
+  executePage,
+  iteratePages,
+  selectStatement,
+} from "./Query";
+import { MVSchema, MVSchemaDefinition, parseFieldType } from "./Schema";
+import { WhereClause } from "./types";
+
+/**
+ * Prevent a position from being used to infer a type argument, so the rows of a view are only inferred from its base model.
+ */
+type NoInfer<T> = [T][T extends any ? 0 : never];
 
 export interface MaterialViewOptions<T> {
-  tableName: string;
-  columns: {
+  /**
+   * The base table of the view. Pass its model to type the rows of the view from the model.
+   */
+  tableName: string | Model<T, any, any>;
+  /**
+   * The primary key of the view, ordered by partition and clustering key positions like a table schema.
+   */
+  schema?: MVSchema<T> | MVSchemaDefinition<NoInfer<T>>;
+  /**
+   * The columns of the base table to copy into the view besides its primary key. Defaults to every column.
+   */
+  include?: (keyof T)[];
+  /**
+   * Only copy the rows that match these conditions.
+   */
+  where?: WhereClause<NoInfer<T>>[];
+  /**
+   * @deprecated Use `schema` instead. Primary columns become the partition key, every other column a clustering column.
+   */
+  columns?: {
     name: keyof T;
     primary?: boolean;
   }[];
-  include?: (keyof T)[];
 }
 
+/**
+ * A class used to create and query materialized views in Cassandra.
+ *
+ * Reads from a view are plain selects: they return rows in the clustering order of the view, and do not accept `$orderBy`,
+ * `$groupBy`, aggregates or `$allowFiltering`, check filtering or run the hooks of the base model. Read the base model
+ * when a query needs them.
+ */
 export class MaterialView<T> {
   public client!: Client;
+  public readonly schema: MVSchema<T>;
 
+  /**
+   * @param name The name of the materialized view.
+   * @param options The base table and schema of the view.
+   *
+   * @example
+   * const usersByEmail = new MaterialView("users_by_email", {
+   *   tableName: Users,
+   *   schema: { email: { partitionKey: true }, id: { clusteringKey: true, order: "DESC" } },
+   *   include: ["name"],
+   *   where: [{ equals: ["verified", true] }],
+   * });
+   */
   constructor(
     public readonly name: string,
-    public readonly options: MaterialViewOptions<T> // schema?
-  ) {}
+    public readonly options: MaterialViewOptions<T>
+  ) {
+    if (options.schema instanceof MVSchema) this.schema = options.schema;
+    else if (options.schema) this.schema = new MVSchema(options.schema as MVSchemaDefinition<T>, { include: options.include, where: options.where as WhereClause<T>[] });
+    else
+      this.schema = new MVSchema(
+        Object.fromEntries(
+          (options.columns ?? []).map(({ name, primary }) => [name, primary ? { partitionKey: true } : { clusteringKey: true }])
+        ) as MVSchemaDefinition<T>,
+        { include: options.include, where: options.where as WhereClause<T>[] }
+      );
+  }
+
+  /**
+   * The model of the base table.
+   * @throws {Error} Throws an error if the base table has not been loaded.
+   */
+  public get model(): Model<T, any, any> {
+    if (typeof this.options.tableName != "string") return this.options.tableName;
+
+    const model = this.client.models.get(this.options.tableName);
+    if (!model) throw new Error(`Material view "${this.name}" requires the "${this.options.tableName}" model which was not found!`);
+    return model;
+  }
+
+  /**
+   * The keyspace of the view, which is always the keyspace of its base table.
+   */
+  public get keyspace() {
+    return this.model.keyspace;
+  }
 
+  /**
+   * The fully qualified name of the view.
+   */
+  public get table() {
+    return qualifiedName(this.keyspace, this.name);
+  }
+
+  private decode(row: types.Row): Partial<T> {
+    return this.model.decode(row);
+  }
+
+  private encodeWhere(where: WhereClause<T>[]) {
+    return this.model.encodeWhere(where);
+  }
+
+  private include(columns?: (keyof T)[]) {
+    this.model.checkColumns(columns ?? []);
+    return columns;
+  }
+
+  /**
+   * Build the `CREATE MATERIALIZED VIEW IF NOT EXISTS` statement for this view.
+   * @param keyspace The keyspace the view belongs to. Defaults to the keyspace of the base table.
+   * @throws {Error} Throws an error if the view does not fit its base table.
+   */
+  public createQuery(keyspace = this.keyspace) {
+    const model = this.model;
+    this.schema.validate(this.name, model.schema);
+    const { partitionKey, clusteringKey, clusteringOrder } = this.schema;
+    const primaryKey = [...partitionKey, ...clusteringKey];
+    const include = this.schema.options?.include?.map((column) => column.toString());
+    const columns = include ? [...primaryKey, ...include.filter((column) => !primaryKey.includes(column))].map(identifier) : ["*"];
+    const definition = model.schema.definition as Record<string, { type: Parameters<typeof parseFieldType>[0] }>;
+    const filters = buildLiteralWhere(this.schema.options?.where ?? [], (column) => parseFieldType(definition[column].type), (name) => {
+      const udt = model.client.types.get(name);
+      if (!udt) return undefined;
+      return Object.fromEntries(Object.entries(udt.schema.definition as Record<string, { type: Parameters<typeof parseFieldType>[0] }>)
+        .map(([field, { type }]) => [field, parseFieldType(type)]));
+    });
+
+    return `CREATE MATERIALIZED VIEW IF NOT EXISTS ${qualifiedName(keyspace, this.name)} AS
+        SELECT ${columns.join(", ")}
+        FROM ${qualifiedName(keyspace, model.name)}
+        WHERE ${[...primaryKey.map((column) => `${identifier(column)} IS NOT NULL`), ...filters].join(" AND ")}
+        PRIMARY KEY ((${partitionKey.map(identifier).join(", ")})${clusteringKey.length > 0 ? `, ${clusteringKey.map(identifier).join(", ")}` : ""})${clusteringOrder.length > 0
+        ? `\n        WITH CLUSTERING ORDER BY (${clusteringOrder.map(([column, order]) => `${identifier(column)} ${order}`).join(", ")})`
+        : ""
+      };`;
+  }
+
+  /**
+   * Create the view if it does not exist already. The base table must be loaded first.
+   * @param client Better Cassandra Client.
+   * @throws {Error} Throws an error if the view does not fit its base table or can not be created.
+   */
   public async load(client: Client) {
-    try {
-      const partitionKey: (string | number | symbol)[][] = [[], []];
-
-      for (const column of this.options.columns) {
-        if (column.primary) partitionKey[0].push(column.name);
-        else partitionKey[1].push(column.name);
-      }
-      this.client = client;
-
-      const query = `
-      CREATE MATERIALIZED VIEW IF NOT EXISTS ${client.cassandara.keyspace}.${
-        this.name
-      } AS
-      SELECT ${
-        this.options.include
-          ? this.options.include.map((col) => col.toString()).join(", ")
-          : "*"
-      } FROM ${client.cassandara.keyspace}.${this.options.tableName}
-      WHERE ${this.options.columns
-        .map((key) => `${key.name.toString()} IS NOT NULL`)
-        .join(" AND ")}
-      PRIMARY KEY ((${partitionKey[0].map((key) => key).join(", ")}), ${partitionKey[1].map((key) => key).join(", ")});`;
-
-      await client.cassandara.execute(query);
-
-      client.materialViews.set(this.name, this);
-      client.logging.success(`Loaded material view: \`${this.name}\``);
-    } catch (error) {
-      this.client.logging.error(
-        `Error creating materialized view ${this.name}: ${error}`
-      );
-    }
+    this.client = client;
+    await client.cassandara.execute(this.createQuery());
+
+    client.materialViews.set(this.name, this);
+    client.logging.success(`Loaded material view: \`${this.name}\``);
+  }
+
+  /**
+   * Removes the view from the database if it exists.
+   */
+  public async drop() {
+    await this.client.cassandara.execute(`DROP MATERIALIZED VIEW IF EXISTS ${this.table};`);
+    this.client.materialViews.delete(this.name);
+    this.client.logging.success(`Successfully dropped the material view: "${this.name}"`);
+  }
+
+  /**
+   * Count the rows of the view matching the conditions.
+   *
+   * @param {Object} options - Options for the COUNT query.
+   * @param {Array.<Object>} options.$where - Array of conditions for the WHERE clause.
+   * @param {number} options.$limit - Optional limit for the number of rows to count.
+   * @param {boolean} options.$prepare - Optional flag indicating whether to prepare the statement.
+   */
+  public async count({ $where, $limit, $prepare }: { $where: WhereClause<T>[], $limit?: number, $prepare?: boolean }) {
+    const { query, params } = countStatement(this.table, { where: this.encodeWhere($where), limit: $limit }, this.client.statements);
+    const data = await this.client.execute(query, params, { prepare: $prepare }, { operation: "count", view: this });
+
+    return (data.rows[0].get("count") as types.Long).toNumber();
+  }
+
+  /**
+   * Select rows from the view.
+   *
+   * @param {Object} options - Options for the SELECT query.
+   * @param {Array.<string>} options.$include - Optional array of columns to include in the SELECT query.
+   * @param {Array.<Object>} options.$where - Array of conditions for the WHERE clause.
+   * @param {number} options.$limit - Optional limit for the number of results to retrieve.
+   * @param {boolean} options.$prepare - Optional flag indicating whether to prepare the statement.
+   *
+   * @example
+   * const [user] = await usersByEmail.select({ $where: [{ equals: ["email", email] }], $limit: 1 });
+   */
+  public async select({ $include, $where, $limit, $prepare }: { $include?: (keyof T)[], $where: WhereClause<T>[], $limit?: number, $prepare?: boolean }) {
+    const { query, params } = selectStatement(this.table, { columns: this.include($include), where: this.encodeWhere($where), limit: $limit }, this.client.statements);
+    const data = await this.client.execute(query, params, { prepare: $prepare }, { operation: "select", view: this });
+
+    return data.rows.map((row) => this.decode(row));
+  }
+
+  /**
+   * Retrieves every row of the view matching the conditions, or `null` if there is none.
+   *
+   * @param {Object} options - The options for the selection.
+   * @param {Array<keyof T>} [options.$include] - Optional. An array of columns to include in the result.
+   * @param {Array<WhereClause<T>>} options.$where - An array of conditions to filter the results.
+   * @param {boolean} [options.$prepare] - Optional. Indicates whether to prepare the query.
+   */
+  public async selectAll({ $include, $where, $prepare }: { $include?: (keyof T)[], $where: WhereClause<T>[], $prepare?: boolean }) {
+    const { query, params } = selectStatement(this.table, { columns: this.include($include), where: this.encodeWhere($where) }, this.client.statements);
+    const data = await this.client.execute(query, params, { prepare: $prepare }, { operation: "select", view: this });
+
+    if (data.rowLength < 1) return null;
+
+    if (!$include) return data.rows.map((row) => this.decode(row)) as T[];
+    else return data.rows.map((row) => this.decode(row));
+  }
+
+  /**
+   * Retrieves a single page of rows from the view. Use the returned `nextPageState` to fetch the next page.
+   *
+   * @param {Object} options - The options for the selection.
+   * @param {Array<keyof T>} [options.$include] - Optional. An array of columns to include in the result.
+   * @param {Array<WhereClause<T>>} options.$where - An array of conditions to filter the results.
+   * @param {number} [options.$fetchSize] - Optional. The maximum number of rows in the page.
+   * @param {string} [options.$pageState] - Optional. The `nextPageState` of the previous page.
+   * @param {boolean} [options.$prepare] - Optional. Indicates whether to prepare the query.
+   */
+  public async paginate({ $include, $where, $fetchSize, $pageState, $prepare }: { $include?: (keyof T)[], $where: WhereClause<T>[], $fetchSize?: number, $pageState?: string, $prepare?: boolean }) {
+    const statement = selectStatement(this.table, { columns: this.include($include), where: this.encodeWhere($where) }, this.client.statements);
+    return executePage(this.client, statement, { fetchSize: $fetchSize, pageState: $pageState, prepare: $prepare }, (row) => this.decode(row), { operation: "select", view: this });
+  }
+
+  /**
+   * Streams the rows of the view matching the conditions, fetching one page at a time.
+   *
+   * @param {Object} options - The options for the selection.
+   * @param {Array<keyof T>} [options.$include] - Optional. An array of columns to include in the result.
+   * @param {Array<WhereClause<T>>} options.$where - An array of conditions to filter the results.
+   * @param {number} [options.$fetchSize] - Optional. The number of rows fetched per page.
+   * @param {string} [options.$pageState] - Optional. The page state to resume from.
+   * @param {boolean} [options.$prepare] - Optional. Indicates whether to prepare the query.
+   */
+  public iterate({ $include, $where, $fetchSize, $pageState, $prepare }: { $include?: (keyof T)[], $where: WhereClause<T>[], $fetchSize?: number, $pageState?: string, $prepare?: boolean }) {
+    const statement = selectStatement(this.table, { columns: this.include($include), where: this.encodeWhere($where) }, this.client.statements);
+    return iteratePages(this.client, statement, { fetchSize: $fetchSize, pageState: $pageState, prepare: $prepare }, (row) => this.decode(row), { operation: "select", view: this });
   }
 }
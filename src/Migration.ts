@@ -0,0 +1,705 @@
+import { createHash } from "crypto";
+import { types } from "cassandra-driver";
+import { Client } from "./Client";
+import { Model } from "./Model";
+import { UDT } from "./UDT";
+import {
+  getCqlType,
+  parseFieldType,
+  SchemaOptionsField,
+  TableOptions,
+  UDTSchemaOptionsField,
+} from "./Schema";
+import { identifier, qualifiedName, storedIdentifier, storedName } from "./Identifier";
+import { createIndexStatement, indexClass, indexName, indexTarget, tableOptionsClause } from "./Query";
+import { typeDependencies } from "./TypeParser";
+
+/**
+ * The kind of change a migration step performs.
+ */
+export type MigrationStepKind =
+  | "createType"
+  | "addField"
+  | "renameField"
+  | "alterField"
+  | "createTable"
+  | "addColumn"
+  | "dropColumn"
+  | "alterColumn"
+  | "alterPrimaryKey"
+  | "alterTableOptions"
+  | "createIndex"
+  | "dropIndex"
+  | "alterIndex";
+
+export interface MigrationStep {
+  kind: MigrationStepKind;
+  /**
+   * The table or user defined type the step applies to.
+   */
+  target: string;
+  /**
+   * The CQL statement to execute. Unsafe steps have no statement.
+   */
+  query?: string;
+  /**
+   * Whether the step can be applied automatically.
+   */
+  safe: boolean;
+  /**
+   * Why the step can not be applied automatically.
+   */
+  reason?: string;
+}
+
+export interface MigrationPlanOptions {
+  /**
+   * Drop columns that exist in the database but are no longer declared in the schema. Defaults to `false`,
+   * in which case such columns are reported as unsafe steps.
+   */
+  dropColumns?: boolean;
+  /**
+   * Drop indexes that exist in the database but are no longer declared in the schema. Defaults to `false`,
+   * in which case such indexes are reported as unsafe steps.
+   */
+  dropIndexes?: boolean;
+}
+
+export interface MigrationApplyOptions extends MigrationPlanOptions {
+  /**
+   * Print the plan instead of executing it.
+   */
+  dryRun?: boolean;
+  /**
+   * Apply the safe steps even when the plan contains unsafe steps or was already applied. Defaults to `false`.
+   */
+  force?: boolean;
+}
+
+export interface MigrationHistoryEntry {
+  appliedAt: Date;
+  checksum: string;
+  statements: string[];
+}
+
+interface LiveColumn {
+  kind: "partition_key" | "clustering" | "regular" | "static";
+  position: number;
+  type: string;
+  clusteringOrder: string;
+}
+
+interface LiveIndex {
+  kind: "COMPOSITES" | "KEYS" | "CUSTOM";
+  options: Record<string, string>;
+}
+
+/**
+ * The tables, indexes and types of the live schema are keyed by their keyspace and name.
+ */
+interface LiveSchema {
+  tables: Map<string, Map<string, LiveColumn>>;
+  indexes: Map<string, Map<string, LiveIndex>>;
+  tableOptions: Map<string, Record<string, unknown>>;
+  types: Map<string, Map<string, string>>;
+}
+
+/**
+ * The name of the table used to record applied migrations.
+ */
+export const MIGRATION_HISTORY_TABLE = "better_cassandra_migrations";
+
+const qualified = (keyspace: string, name: string) => `${keyspace}.${name}`;
+
+/**
+ * The key of a declared table or type in the live schema, which holds names as Cassandra stores them.
+ * @param keyspace The keyspace.
+ * @param name The declared name of the table or type.
+ */
+const liveKey = (keyspace: string, name: string) => qualified(keyspace, storedName(name));
+
+/**
+ * Normalize a CQL type so that the declared and the live representation can be compared.
+ * @param type The CQL type.
+ */
+const normalizeType = (type: string) =>
+  type.replace(/\s+/g, "").toLowerCase().replace(/\bvarchar\b/g, "text");
+
+/**
+ * Normalize the value of a table property so that equivalent spellings compare equal: numbers are compared by value,
+ * and retry thresholds such as `99PERCENTILE` (Cassandra 3) and `99p` (Cassandra 4) by their amount and unit.
+ * @param value The declared or live value.
+ */
+const normalizeOption = (value: unknown) => {
+  const text = String(value).trim().toLowerCase();
+  if (text != "" && !isNaN(Number(text))) return String(Number(text));
+
+  const threshold = /^(\d+(?:\.\d+)?)\s*(p|percentile|ms)$/.exec(text);
+  if (threshold) return `${Number(threshold[1])}${threshold[2] == "ms" ? "ms" : "p"}`;
+  return text;
+};
+
+/**
+ * Compare a declared table property with the value stored in `system_schema.tables`.
+ * Map properties only compare the keys that are declared, and strategy classes match on their short name.
+ * @param declared The declared value.
+ * @param live The live value.
+ */
+const sameOption = (declared: unknown, live: unknown): boolean => {
+  if (typeof declared == "object" && declared !== null) {
+    if (typeof live != "object" || live === null) return false;
+    const liveMap = live as Record<string, unknown>;
+    return Object.entries(declared).every(([key, value]) =>
+      value === undefined ||
+      (key == "class"
+        ? String(liveMap[key] ?? "").split(".").pop() == String(value).split(".").pop()
+        : normalizeOption(liveMap[key]) == normalizeOption(value))
+    );
+  }
+  return normalizeOption(live) == normalizeOption(declared);
+};
+
+/**
+ * An ordered list of the steps needed to bring the database in line with the loaded schemas.
+ */
+export class MigrationPlan {
+  constructor(public readonly steps: MigrationStep[]) { }
+
+  /**
+   * The steps that can be applied automatically.
+   */
+  public get safeSteps() {
+    return this.steps.filter((step) => step.safe);
+  }
+
+  /**
+   * The steps that need manual intervention.
+   */
+  public get unsafeSteps() {
+    return this.steps.filter((step) => !step.safe);
+  }
+
+  /**
+   * Whether the database already matches the loaded schemas.
+   */
+  public get empty() {
+    return this.steps.length < 1;
+  }
+
+  /**
+   * A checksum of the statements in the plan, used to identify it in the migration history.
+   */
+  public get checksum() {
+    return createHash("sha256")
+      .update(this.safeSteps.map((step) => step.query).join("\n"))
+      .digest("hex");
+  }
+
+  /**
+   * Render the plan as CQL. Unsafe steps are rendered as comments.
+   */
+  public toCQL() {
+    return this.steps
+      .map((step) =>
+        step.safe
+          ? step.query
+          : `-- UNSAFE (${step.kind} on ${step.target}): ${step.reason}`
+      )
+      .join("\n");
+  }
+}
+
+/**
+ * Diffs the loaded models and user defined types against the live `system_schema` and migrates the database.
+ * Tables and types in other keyspaces than the keyspace of the client are migrated too, but the history of every
+ * migration is recorded in the keyspace of the client, or of the first loaded model or type when the client has none.
+ */
+export class Migrator {
+  constructor(private readonly client: Client) { }
+
+  /**
+   * The keyspace the migration history is recorded in.
+   * @throws {Error} Throws an error if neither the client nor any loaded model or type has a keyspace.
+   */
+  private get keyspace(): string {
+    const keyspace =
+      this.client.cassandara.keyspace ??
+      [...this.client.models.values(), ...this.client.types.values()].map((item) => item.keyspace).find(Boolean);
+    if (!keyspace) throw new Error("The migration history needs a keyspace: set the keyspace of the client or of a model");
+    return keyspace;
+  }
+
+  /**
+   * The name of a table or type in steps, qualified with its keyspace when that is not the keyspace of the client.
+   */
+  private target(keyspace: string, name: string) {
+    return keyspace == this.client.cassandara.keyspace ? name : qualified(keyspace, name);
+  }
+
+  private async readLiveSchema(keyspaces: string[]): Promise<LiveSchema> {
+    const tables = new Map<string, Map<string, LiveColumn>>();
+    const tableOptions = new Map<string, Record<string, unknown>>();
+    const indexes = new Map<string, Map<string, LiveIndex>>();
+    const udts = new Map<string, Map<string, string>>();
+
+    for (const keyspace of keyspaces) {
+      const tableRows = await this.client.cassandara.execute(
+        `SELECT * FROM system_schema.tables WHERE keyspace_name = ?;`,
+        [storedName(keyspace)],
+        { prepare: true }
+      );
+      for (const row of tableRows.rows) {
+        const table = qualified(keyspace, row.get("table_name"));
+        tables.set(table, new Map());
+        tableOptions.set(table, Object.fromEntries(row.keys().map((key) => [key, row.get(key)])));
+      }
+
+      const columnRows = await this.client.cassandara.execute(
+        `SELECT table_name, column_name, kind, position, type, clustering_order FROM system_schema.columns WHERE keyspace_name = ?;`,
+        [storedName(keyspace)],
+        { prepare: true }
+      );
+      for (const row of columnRows.rows) {
+        tables.get(qualified(keyspace, row.get("table_name")))?.set(row.get("column_name"), {
+          kind: row.get("kind"),
+          position: row.get("position"),
+          type: row.get("type"),
+          clusteringOrder: row.get("clustering_order"),
+        });
+      }
+
+      const indexRows = await this.client.cassandara.execute(
+        `SELECT table_name, index_name, kind, options FROM system_schema.indexes WHERE keyspace_name = ?;`,
+        [storedName(keyspace)],
+        { prepare: true }
+      );
+      for (const row of indexRows.rows) {
+        const table = qualified(keyspace, row.get("table_name"));
+        if (!indexes.has(table)) indexes.set(table, new Map());
+        indexes.get(table)!.set(row.get("index_name"), {
+          kind: row.get("kind"),
+          options: row.get("options") ?? {},
+        });
+      }
+
+      const typeRows = await this.client.cassandara.execute(
+        `SELECT type_name, field_names, field_types FROM system_schema.types WHERE keyspace_name = ?;`,
+        [storedName(keyspace)],
+        { prepare: true }
+      );
+      for (const row of typeRows.rows) {
+        const names: string[] = row.get("field_names");
+        const fieldTypes: string[] = row.get("field_types");
+        udts.set(
+          qualified(keyspace, row.get("type_name")),
+          new Map(names.map((name, i) => [name, fieldTypes[i]]))
+        );
+      }
+    }
+
+    return { tables, indexes, tableOptions, types: udts };
+  }
+
+  /**
+   * The keyspaces every user defined type is needed in. A type without its own keyspace is needed in the keyspace of
+   * the client and in the keyspace of every model and type that uses it.
+   */
+  private typeKeyspaces() {
+    const keyspaces = new Map<string, Set<string>>();
+
+    const add = (udt: UDT<any>, keyspace: string) => {
+      const target = udt.options.keyspace ?? keyspace;
+      if (keyspaces.get(udt.name)?.has(target)) return;
+      keyspaces.set(udt.name, (keyspaces.get(udt.name) ?? new Set<string>()).add(target));
+      for (const field of Object.values(udt.schema.definition) as UDTSchemaOptionsField<any>[])
+        for (const name of typeDependencies(parseFieldType(field.type))) {
+          const dependency = this.client.types.get(name);
+          if (dependency) add(dependency, target);
+        }
+    };
+
+    for (const udt of this.client.types.values()) add(udt, udt.keyspace);
+    for (const model of this.client.models.values())
+      for (const field of Object.values(model.schema.definition) as SchemaOptionsField<any>[])
+        for (const name of typeDependencies(parseFieldType(field.type))) {
+          const udt = this.client.types.get(name);
+          if (udt) add(udt, model.keyspace);
+        }
+
+    return keyspaces;
+  }
+
+  /**
+   * Order user defined types so that every type comes after the types it depends on.
+   */
+  private orderTypes() {
+    const ordered: UDT<any>[] = [];
+    const visited = new Set<string>();
+
+    const visit = (udt: UDT<any>) => {
+      if (visited.has(udt.name)) return;
+      visited.add(udt.name);
+      for (const field of Object.values(udt.schema.definition) as UDTSchemaOptionsField<any>[]) {
+        for (const name of typeDependencies(parseFieldType(field.type))) {
+          const dependency = this.client.types.get(name);
+          if (dependency) visit(dependency);
+        }
+      }
+      ordered.push(udt);
+    };
+
+    for (const udt of this.client.types.values()) visit(udt);
+    return ordered;
+  }
+
+  private diffType(udt: UDT<any>, keyspace: string, live: Map<string, string> | undefined) {
+    const steps: MigrationStep[] = [];
+    const target = this.target(keyspace, udt.name);
+
+    if (!live) {
+      steps.push({
+        kind: "createType",
+        target,
+        query: udt.createQuery(undefined, keyspace),
+        safe: true,
+      });
+      return steps;
+    }
+
+    const entries = Object.entries(udt.schema.definition) as [string, UDTSchemaOptionsField<any>][];
+    for (const [name, field] of entries) {
+      const type = getCqlType(field.type);
+      const liveType = live.get(storedName(name));
+
+      if (liveType === undefined && field.renamedFrom && live.has(storedName(field.renamedFrom))) {
+        steps.push({
+          kind: "renameField",
+          target,
+          query: `ALTER TYPE ${qualifiedName(keyspace, udt.name)} RENAME ${identifier(field.renamedFrom)} TO ${identifier(name)};`,
+          safe: true,
+        });
+      } else if (liveType === undefined) {
+        steps.push({
+          kind: "addField",
+          target,
+          query: `ALTER TYPE ${qualifiedName(keyspace, udt.name)} ADD ${identifier(name)} ${type};`,
+          safe: true,
+        });
+      } else if (normalizeType(liveType) !== normalizeType(type)) {
+        steps.push({
+          kind: "alterField",
+          target,
+          safe: false,
+          reason: `Field "${name}" is "${liveType}" in the database but "${type}" in the schema.`,
+        });
+      }
+    }
+
+    return steps;
+  }
+
+  private diffTableOptions(model: Model<any>, live: Record<string, unknown> | undefined): MigrationStep[] {
+    const declared = model.schema.options?.table ?? {};
+    const drifted = (Object.entries(declared) as [keyof TableOptions, unknown][]).filter(
+      ([name, value]) => value !== undefined && live && name in live && !sameOption(value, live[name])
+    );
+    if (drifted.length < 1) return [];
+
+    return [{
+      kind: "alterTableOptions",
+      target: this.target(model.keyspace, model.name),
+      query: `ALTER TABLE ${model.table} WITH ${tableOptionsClause(Object.fromEntries(drifted)).join(" AND ")};`,
+      safe: true,
+    }];
+  }
+
+  private diffIndexes(model: Model<any>, live: Map<string, LiveIndex> | undefined, { dropIndexes }: MigrationPlanOptions) {
+    const steps: MigrationStep[] = [];
+    const declared = new Set<string>();
+
+    for (const index of model.schema.indexes) {
+      const name = storedName(indexName(model.name, index));
+      const existing = live?.get(name);
+      declared.add(name);
+
+      if (!existing) {
+        steps.push({
+          kind: "createIndex",
+          target: this.target(model.keyspace, model.name),
+          query: createIndexStatement(model.keyspace, model.name, index, model.primaryKey[0]),
+          safe: true,
+        });
+        continue;
+      }
+
+      // Local indexes store their target as JSON, so only the class of custom indexes is compared for them.
+      const className = indexClass(index);
+      const liveClass = existing.options.class_name?.split(".").pop();
+      const sameTarget = index.using == "local" || existing.options.target?.toLowerCase() == indexTarget(index).toLowerCase();
+      if (!sameTarget || className?.split(".").pop() != liveClass) {
+        steps.push({
+          kind: "alterIndex",
+          target: this.target(model.keyspace, model.name),
+          safe: false,
+          reason: `Index "${name}" is ${existing.options.target}${liveClass ? ` using ${liveClass}` : ""} in the database but ${indexTarget(index)}${className ? ` using ${className}` : ""} in the schema. The index has to be dropped and rebuilt.`,
+        });
+      }
+    }
+
+    for (const name of live?.keys() ?? []) {
+      if (declared.has(name)) continue;
+      steps.push(
+        dropIndexes
+          ? {
+            kind: "dropIndex",
+            target: this.target(model.keyspace, model.name),
+            query: `DROP INDEX IF EXISTS ${identifier(model.keyspace)}.${storedIdentifier(name)};`,
+            safe: true,
+          }
+          : {
+            kind: "dropIndex",
+            target: this.target(model.keyspace, model.name),
+            safe: false,
+            reason: `Index "${name}" is not declared in the schema. Pass \`dropIndexes\` to drop it.`,
+          }
+      );
+    }
+
+    return steps;
+  }
+
+  private diffTable(model: Model<any>, live: Map<string, LiveColumn> | undefined, { dropColumns }: MigrationPlanOptions) {
+    const steps: MigrationStep[] = [];
+
+    if (!live) {
+      steps.push({
+        kind: "createTable",
+        target: this.target(model.keyspace, model.name),
+        query: model.createQuery(),
+        safe: true,
+      });
+      return steps;
+    }
+
+    const livePrimaryKey = (kind: LiveColumn["kind"]) =>
+      [...live.entries()]
+        .filter(([, column]) => column.kind == kind)
+        .sort(([, a], [, b]) => a.position - b.position)
+        .map(([name]) => name);
+
+    const partitionKey = livePrimaryKey("partition_key");
+    const clusteringKey = livePrimaryKey("clustering");
+
+    if (
+      partitionKey.join(",") != model.primaryKey[0].map(storedName).join(",") ||
+      clusteringKey.join(",") != model.primaryKey[1].map(storedName).join(",")
+    ) {
+      steps.push({
+        kind: "alterPrimaryKey",
+        target: this.target(model.keyspace, model.name),
+        safe: false,
+        reason: `Primary key is ((${partitionKey.join(", ")})${clusteringKey.length > 0 ? `, ${clusteringKey.join(", ")}` : ""}) in the database but ((${model.primaryKey[0].join(", ")})${model.primaryKey[1].length > 0 ? `, ${model.primaryKey[1].join(", ")}` : ""}) in the schema. The table has to be recreated.`,
+      });
+    }
+
+    for (const [name, order] of model.schema.clusteringOrder) {
+      const column = live.get(storedName(name));
+      if (!column || column.kind != "clustering" || column.clusteringOrder.toUpperCase() == order) continue;
+      steps.push({
+        kind: "alterPrimaryKey",
+        target: this.target(model.keyspace, model.name),
+        safe: false,
+        reason: `Clustering column "${name}" is ordered ${column.clusteringOrder.toUpperCase()} in the database but ${order} in the schema. The table has to be recreated.`,
+      });
+    }
+
+    const entries = Object.entries(model.schema.definition) as [string, SchemaOptionsField<any>][];
+    for (const [name, field] of entries) {
+      const type = getCqlType(field.type);
+      const column = live.get(storedName(name));
+
+      if (!column) {
+        if (model.primaryKey[0].includes(name) || model.primaryKey[1].includes(name)) continue;
+        steps.push({
+          kind: "addColumn",
+          target: this.target(model.keyspace, model.name),
+          query: `ALTER TABLE ${model.table} ADD ${identifier(name)} ${type}${field.static ? " STATIC" : ""};`,
+          safe: true,
+        });
+      } else if ((column.kind == "static") != !!field.static) {
+        steps.push({
+          kind: "alterColumn",
+          target: this.target(model.keyspace, model.name),
+          safe: false,
+          reason: `Column "${name}" is ${column.kind == "static" ? "" : "not "}static in the database but ${field.static ? "" : "not "}static in the schema.`,
+        });
+      } else if (normalizeType(column.type) !== normalizeType(type)) {
+        steps.push({
+          kind: "alterColumn",
+          target: this.target(model.keyspace, model.name),
+          safe: false,
+          reason: `Column "${name}" is "${column.type}" in the database but "${type}" in the schema.`,
+        });
+      }
+    }
+
+    const declared = new Set(Object.keys(model.schema.definition).map(storedName));
+    for (const [name, column] of live) {
+      if (declared.has(name) || column.kind == "partition_key" || column.kind == "clustering") continue;
+      steps.push(
+        dropColumns
+          ? {
+            kind: "dropColumn",
+            target: this.target(model.keyspace, model.name),
+            query: `ALTER TABLE ${model.table} DROP ${storedIdentifier(name)};`,
+            safe: true,
+          }
+          : {
+            kind: "dropColumn",
+            target: this.target(model.keyspace, model.name),
+            safe: false,
+            reason: `Column "${name}" is not declared in the schema. Pass \`dropColumns\` to drop it.`,
+          }
+      );
+    }
+
+    return steps;
+  }
+
+  /**
+   * Compare the loaded models and user defined types with the live schema and build a migration plan.
+   * User defined types are migrated before tables, and additions before removals.
+   *
+   * @param {MigrationPlanOptions} options - Options for building the plan.
+   * @returns {Promise<MigrationPlan>} The ordered migration plan.
+   */
+  public async plan(options: MigrationPlanOptions = {}) {
+    const typeKeyspaces = this.typeKeyspaces();
+    const models = [...this.client.models.values()];
+    const keyspaces = new Set([...[...typeKeyspaces.values()].flatMap((set) => [...set]), ...models.map((model) => model.keyspace)]);
+    const live = await this.readLiveSchema([...keyspaces]);
+    const steps: MigrationStep[] = [];
+
+    for (const udt of this.orderTypes())
+      for (const keyspace of typeKeyspaces.get(udt.name) ?? [])
+        steps.push(...this.diffType(udt, keyspace, live.types.get(liveKey(keyspace, udt.name))));
+
+    const tableSteps: MigrationStep[] = [];
+    for (const model of models) {
+      const table = liveKey(model.keyspace, model.name);
+      tableSteps.push(
+        ...this.diffTable(model, live.tables.get(table), options),
+        ...this.diffTableOptions(model, live.tableOptions.get(table)),
+        ...this.diffIndexes(model, live.indexes.get(table), options)
+      );
+    }
+
+    // Removals run last so a failing addition never leaves a table with less data than before.
+    // Indexes are dropped before columns because a column can not be dropped while it is indexed.
+    steps.push(
+      ...tableSteps.filter((step) => step.kind != "dropColumn" && step.kind != "dropIndex"),
+      ...tableSteps.filter((step) => step.kind == "dropIndex"),
+      ...tableSteps.filter((step) => step.kind == "dropColumn")
+    );
+
+    return new MigrationPlan(steps);
+  }
+
+  /**
+   * Build a migration plan and apply it, recording it in the migration history table.
+   *
+   * @param {MigrationApplyOptions} options - Options for applying the plan.
+   * @returns {Promise<MigrationPlan>} The plan that was applied (or printed when `dryRun` is set).
+   * @throws {Error} Throws an error if the plan contains unsafe steps, or is recorded in the history as already applied,
+   * and `force` is not set.
+   *
+   * @example
+   * // Print the statements without executing them
+   * await client.migrator.migrate({ dryRun: true });
+   *
+   * // Apply the plan and drop columns that were removed from the schema
+   * await client.migrator.migrate({ dropColumns: true });
+   */
+  public async migrate(options: MigrationApplyOptions = {}) {
+    const plan = await this.plan(options);
+
+    if (plan.empty) {
+      this.client.logging.info("Schema is up to date");
+      return plan;
+    }
+
+    if (options.dryRun) {
+      this.client.logging.info(plan.toCQL());
+      return plan;
+    }
+
+    if (plan.unsafeSteps.length > 0 && !options.force)
+      throw new Error(
+        `Migration contains unsafe steps:\n${plan.unsafeSteps.map((step) => `- ${step.target}: ${step.reason}`).join("\n")}`
+      );
+
+    // A plan that was applied before and is planned again did not bring the schema in line, e.g. because the
+    // database rewrites a value. Applying it again will not either, so it is reported instead of repeated.
+    const previous = (await this.history()).find((entry) => entry.checksum == plan.checksum);
+    if (previous && !options.force)
+      throw new Error(
+        `Migration ${plan.checksum.slice(0, 12)} was already applied at ${previous.appliedAt.toISOString()} but the schema still differs. Pass \`force\` to apply it again:\n${plan.toCQL()}`
+      );
+
+    await this.apply(plan);
+    return plan;
+  }
+
+  /**
+   * Execute the safe steps of a plan in order and record them in the migration history table.
+   * @param plan The plan to apply.
+   */
+  public async apply(plan: MigrationPlan) {
+    const statements = plan.safeSteps.map((step) => step.query!);
+    if (statements.length < 1) return;
+
+    const keyspace = this.keyspace;
+    await this.createHistoryTable();
+    for (const statement of statements) await this.client.cassandara.execute(statement);
+
+    await this.client.cassandara.execute(
+      `INSERT INTO ${qualifiedName(keyspace, MIGRATION_HISTORY_TABLE)} (keyspace_name, applied_at, checksum, statements) VALUES (?, ?, ?, ?);`,
+      [keyspace, types.TimeUuid.now(), plan.checksum, statements],
+      { prepare: true }
+    );
+    this.client.logging.success(
+      `Applied ${statements.length} migration statement(s) to keyspace \`${keyspace}\``
+    );
+  }
+
+  /**
+   * Get the migrations that were applied to the keyspace, oldest first.
+   */
+  public async history(): Promise<MigrationHistoryEntry[]> {
+    const keyspace = this.keyspace;
+    await this.createHistoryTable();
+    const data = await this.client.cassandara.execute(
+      `SELECT applied_at, checksum, statements FROM ${qualifiedName(keyspace, MIGRATION_HISTORY_TABLE)} WHERE keyspace_name = ?;`,
+      [keyspace],
+      { prepare: true }
+    );
+
+    return data.rows.map((row) => ({
+      appliedAt: (row.get("applied_at") as types.TimeUuid).getDate(),
+      checksum: row.get("checksum"),
+      statements: row.get("statements") ?? [],
+    }));
+  }
+
+  private async createHistoryTable() {
+    await this.client.cassandara.execute(
+      `CREATE TABLE IF NOT EXISTS ${qualifiedName(this.keyspace, MIGRATION_HISTORY_TABLE)} (
+          keyspace_name text,
+          applied_at timeuuid,
+          checksum text,
+          statements list<text>,
+          PRIMARY KEY ((keyspace_name), applied_at)
+        );`
+    );
+  }
+}
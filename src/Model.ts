@@ -1,25 +1,98 @@
+import { types } from "cassandra-driver";
+import { Readable } from "stream";
+import { BatchOperation } from "./Batch";
+import {
+  BulkInsertError,
+  BulkInsertOptions,
+  BulkInsertResult,
+  BulkProgress,
+  ConcurrencyPool,
+  ExportCheckpoint,
+  ExportOptions,
+  ExportStream,
+  formatText,
+  joinCsvRecord,
+  jsonReplacer,
+  parseText,
+  readRecords,
+  withRetries,
+} from "./Bulk";
 import { Client } from "./Client";
+import { Entity, EntityKey, EntityOf } from "./Entity";
+import { HookMap, HookName, Hooks, Middleware, NotifiedHookName, NotifiedHookValues, Operation, PipedHookName, PipedHookValues } from "./Hooks";
+import { identifier, qualifiedName, storedName } from "./Identifier";
+import { Projection, ProjectionOptions } from "./Projection";
 import {
-  FieldTypeMap,
-  FrozenType,
+  getCqlType,
+  InferInsert,
+  InferRow,
+  KeyColumns,
+  parseFieldType,
   Query,
   Schema,
   SchemaDefinition,
+  SchemaOptions,
   SchemaOptionsField,
   SchemaOptionsFieldType,
+  SortOrder,
 } from "./Schema";
-import { WhereClause } from "./types";
+import {
+  counterStatement,
+  countStatement,
+  createIndexStatement,
+  CollectionOperator,
+  deleteStatement,
+  executePage,
+  filteringReason,
+  getCollectionOperator,
+  insertStatement,
+  parseRelation,
+  iteratePages,
+  Page,
+  QueryBuilder,
+  scanStatement,
+  selectStatement,
+  splitElementDeletes,
+  splitTokenRing,
+  Statement,
+  tableOptionsClause,
+  TokenRange,
+  updateStatement,
+  writeResult,
+  WriteResult,
+} from "./Query";
+import { formatType, typeDependencies } from "./TypeParser";
+import { ValidationError } from "./Validation";
+import { Aggregate, AggregateResult, CounterColumns, SelectOptions, UpdateSet, WhereClause } from "./types";
 
 /**
  * A class used to perform actions on tables in Cassandra.
+ * @typeParam T The shape of a row.
+ * @typeParam I The shape of a row that can be inserted.
+ * @typeParam K The primary key columns, the only columns accepted by multi-column and `token()` relations.
  */
-export class Model<T> {
+export class Model<T, I extends Partial<Record<keyof T, any>> = Partial<T>, K extends keyof T = keyof T> {
   /**
    * Instance of the Better Cassandra Client.
    */
   public client!: Client;
   public primaryKey: [string[], string[]] = [[], []];
 
+  /**
+   * The hooks of the model, which run after the hooks of the client.
+   */
+  public readonly hooks = new Hooks<T, I, K>();
+
+  /**
+   * The middleware that runs around every statement of the model, after the middleware of the client.
+   */
+  public readonly middleware: Middleware[] = [];
+
+  /**
+   * The tables that mirror the rows of the model under other primary keys.
+   */
+  public readonly projections: Projection<T>[] = [];
+
   /**
    *
    * @param name The name of the model.
@@ -28,59 +101,355 @@ export class Model<T> {
   constructor(
     public readonly name: string,
     public readonly schema: Schema<T>
-  ) { }
+  ) {
+    this.schema.validate(this.name);
+    this.primaryKey = [this.schema.partitionKey, this.schema.clusteringKey];
+  }
+
+  /**
+   * Register a hook that runs for this model, after the hooks of the client.
+   * @param name The hook, e.g. `beforeInsert` or `afterSelect`.
+   * @param handler The handler. `before` hooks may return a replacement for their argument.
+   * Hooks do not run for batch operations, scans and exports, which still pass through the middleware.
+   *
+   * @example
+   * // Only ever read and delete the rows of the current tenant
+   * documents.hook("beforeSelect", ({ where }) => ({ where: [...where, { equals: ["tenant_id", tenant()] }] }));
+   * documents.hook("beforeDelete", ({ where }) => ({ where: [...where, { equals: ["tenant_id", tenant()] }] }));
+   *
+   * // Keep `updated_at` current
+   * documents.hook("beforeUpdate", ({ set, where }) => ({ set: { ...set, updated_at: new Date() }, where }));
+   */
+  public hook<N extends HookName>(name: N, handler: HookMap<T, I, K>[N]) {
+    this.hooks.add(name, handler);
+    return this;
+  }
+
+  /**
+   * Add a middleware that sees the generated CQL, parameters and options of every statement of the model before it is executed.
+   * @param middleware The middleware.
+   *
+   * @example
+   * messages.use(async ({ operation, statements }, next) => {
+   *   audit.log(operation, statements);
+   *   return next();
+   * });
+   */
+  public use(middleware: Middleware) {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Mirror the rows of the model to another table with a different primary key, the client-side alternative to a
+   * materialized view. Inserts, updates and deletes of the model then also write the projection, in one logged batch.
+   *
+   * Updates and deletes read the rows they change first, to find their projection rows. An update that changes a key
+   * column of a projection moves its projection row to the new key. Like any update, an update of a missing row creates
+   * it along with its projection rows, unless `$ifExists` is set. Conditional writes are executed on their own and the
+   * projections are written once they were applied. `batchUpdate` and `batchDelete` do not write projections.
+   *
+   * The read and the write are not atomic: a write of the same row by someone else in between can leave a projection
+   * row with stale values, or under a key the row no longer has. Serialize the writes of a row when that matters.
+   *
+   * @param target The model of the projection. Its primary key columns must be columns of this model.
+   * @param options The columns to copy. Defaults to every column of the projection that this model has.
+   * @throws {Error} Throws an error if the projection needs columns this model does not have.
+   *
+   * @example
+   * messages.project(messagesByAuthor);
+   *
+   * // INSERT INTO messages ... and INSERT INTO messages_by_author ... in a logged batch
+   * await messages.insert({ channel_id, id, author_id, content });
+   */
+  public project(target: Model<any, any, any>, options: ProjectionOptions<T> = {}) {
+    this.projections.push(new Projection(this, target, options));
+    return this;
+  }
+
+  /**
+   * Run a `before` hook or `afterSelect`, first the handlers of the client then those of the model.
+   * @param name The hook.
+   * @param value The value to pass to the first handler.
+   * @param operation The operation the hook runs for.
+   */
+  private async pipeHooks<N extends PipedHookName>(name: N, value: PipedHookValues<T, I, K>[N], operation: Operation) {
+    const context = { model: this, operation };
+    value = (await this.client.hooks.pipe(name, value, context)) as typeof value;
+    return this.hooks.pipe(name, value, context);
+  }
+
+  /**
+   * Run an `after` hook, first the handlers of the client then those of the model.
+   * @param name The hook.
+   * @param value What was written.
+   * @param result The outcome of the write.
+   * @param operation The operation the hook runs for.
+   */
+  private async notifyHooks<N extends NotifiedHookName>(name: N, value: NotifiedHookValues<T, I, K>[N], result: WriteResult<T>, operation: Operation) {
+    const context = { model: this, operation };
+    await this.client.hooks.notify(name, value, result, context);
+    await this.hooks.notify(name, value, result, context);
+  }
+
+  /**
+   * The keyspace of the table, set by the `keyspace` option of the schema. Defaults to the keyspace of the client.
+   */
+  public get keyspace() {
+    return this.schema.options?.keyspace ?? this.client.cassandara.keyspace;
+  }
+
+  /**
+   * The fully qualified name of the table.
+   */
+  public get table() {
+    return qualifiedName(this.keyspace, this.name);
+  }
+
+  /**
+   * Convert a row returned by the driver to the types declared in the schema.
+   * @param row The row returned by the driver.
+   */
+  public decode(row: types.Row): Partial<T> {
+    return this.client.codecs.decodeRow<Partial<T>>(this.schema.definition, row);
+  }
+
+  /**
+   * Convert column values to the representation expected by the driver.
+   * @param data The column values.
+   */
+  public encode<D extends Partial<Record<keyof T, any>>>(data: D): D {
+    this.checkColumns(Object.keys(data));
+    return this.client.codecs.encodeRow(this.schema.definition, data);
+  }
+
+  /**
+   * Convert the values of an update, including the payloads of collection operators.
+   * @param set The columns to change.
+   */
+  public encodeSet(set: UpdateSet<T>) {
+    this.checkColumns(Object.keys(set));
+    return this.client.codecs.encodeSet(this.schema.definition, set);
+  }
+
+  /**
+   * Convert the values of where clauses.
+   * @param where The where clauses.
+   */
+  public encodeWhere(where: WhereClause<T, K>[]) {
+    this.checkRelations(where);
+    return this.client.codecs.encodeWhere(this.schema.definition, where) as WhereClause<T, K>[];
+  }
+
+  /**
+   * Check a row against the schema: every column must exist and match its type and custom validators, and every
+   * primary key column must be set. Called by every insert unless the client disables `validate`.
+   * @param data The row.
+   * @throws {ValidationError} Throws an error listing every invalid field.
+   */
+  public validate(data: I) {
+    const issues = this.client.validator.row(this.schema, data);
+    if (issues.length > 0) throw new ValidationError(this.name, issues);
+  }
+
+  /**
+   * Check the columns of an update against the schema, including the payloads of collection operators.
+   * Called by every update unless the client disables `validate`.
+   * @param set The columns to change.
+   * @throws {ValidationError} Throws an error listing every invalid field.
+   */
+  public validateUpdate(set: UpdateSet<T>) {
+    const issues = this.client.validator.set(this.schema, set);
+    if (issues.length > 0) throw new ValidationError(this.name, issues);
+  }
+
+  /**
+   * Check that columns used by a statement are declared in the schema, so that misspelled or foreign names are
+   * reported before they reach the database.
+   * @param columns The columns.
+   * @throws {Error} Throws an error listing every column the schema does not declare.
+   */
+  public checkColumns(columns: Iterable<PropertyKey>) {
+    const unknown = Array.from(columns, String).filter((column) => !Object.prototype.hasOwnProperty.call(this.schema.definition, column));
+    if (unknown.length > 0)
+      throw new Error(`${unknown.map((column) => `"${column}"`).join(", ")} ${unknown.length == 1 ? "is not a column" : "are not columns"} of "${this.name}"`);
+  }
+
+  /**
+   * Check that every column of where clauses exists, that multi-column relations use consecutive clustering columns
+   * and that `token()` relations use the partition key.
+   * @param where The where clauses.
+   * @throws {Error} Throws an error if a relation uses other columns.
+   */
+  private checkRelations(where: WhereClause<T, K>[]) {
+    const [partitionKey, clusteringKey] = this.primaryKey;
+
+    for (const relation of where.map(parseRelation)) {
+      this.checkColumns(relation.kind == "column" ? [relation.column] : relation.columns);
+      if (relation.kind == "token" && relation.columns.join(", ") != partitionKey.join(", "))
+        throw new Error(`token(${relation.columns.join(", ")}) on "${this.name}" must use the partition key (${partitionKey.join(", ")})`);
+
+      if (relation.kind == "tuple") {
+        const start = clusteringKey.indexOf(relation.columns[0]);
+        if (start < 0 || relation.columns.some((column, i) => clusteringKey[start + i] != column))
+          throw new Error(`(${relation.columns.join(", ")}) on "${this.name}" must be consecutive clustering columns (${clusteringKey.join(", ")})`);
+      }
+    }
+  }
+
+  /**
+   * Warn about or reject where clauses that can not be served by the primary key or a declared index,
+   * depending on the `filtering` option of the client.
+   * @param where The where clauses of a query.
+   * @throws {Error} Throws an error if the query needs `ALLOW FILTERING` and the client is configured to throw.
+   */
+  public checkFiltering(where: WhereClause<T, K>[]) {
+    if (this.client.filtering == "ignore") return;
+
+    const reason = filteringReason(
+      { partitionKey: this.primaryKey[0], clusteringKey: this.primaryKey[1], indexes: this.schema.indexes },
+      where
+    );
+    if (!reason) return;
+
+    const message = `Query on "${this.name}" requires ALLOW FILTERING: ${reason}`;
+    if (this.client.filtering == "throw") throw new Error(message);
+    (this.client.logging.warn ?? this.client.logging.info)(message);
+  }
+
+  /**
+   * Check the options of a select against the primary key of the table and compile them into a statement.
+   * @param options The options of the select.
+   * @param limit The maximum number of rows.
+   * @throws {Error} Throws an error if the ordering, grouping or distinct columns can not be used on the table.
+   */
+  private selectQuery<A extends Record<string, Aggregate<T>>>(
+    { $include, $where, $orderBy, $perPartitionLimit, $distinct, $groupBy, $aggregates, $allowFiltering }: SelectOptions<T, A, K>,
+    limit?: number
+  ): Statement {
+    const [partitionKey, clusteringKey] = this.primaryKey;
+    const primaryKey = [...partitionKey, ...clusteringKey];
+    const orderBy = Object.entries($orderBy ?? {}) as [keyof T, SortOrder][];
+    this.checkColumns([...($include ?? []), ...($groupBy ?? [])]);
+
+    for (const [column] of orderBy)
+      if (!clusteringKey.includes(column.toString()))
+        throw new Error(`Can not order "${this.name}" by "${column.toString()}" because it is not a clustering column`);
+
+    if ($distinct)
+      for (const column of $include ?? [])
+        if (!partitionKey.includes(column.toString()) && !this.schema.staticColumns.includes(column.toString()))
+          throw new Error(`Can not select distinct "${column.toString()}" from "${this.name}" because it is not a partition key or static column`);
+
+    if ($groupBy && $groupBy.some((column, i) => primaryKey[i] != column.toString()))
+      throw new Error(`Can not group "${this.name}" by ${$groupBy.map((column) => `"${column.toString()}"`).join(", ")} because it is not a prefix of the primary key (${primaryKey.join(", ")})`);
+
+    for (const aggregate of Object.values($aggregates ?? {}) as Aggregate<T>[]) {
+      const [fn, column] = Object.entries(aggregate)[0];
+      if (!(fn == "count" && column == "*") && !Object.prototype.hasOwnProperty.call(this.schema.definition, column))
+        throw new Error(`Can not compute ${fn} of "${String(column)}" because it is not a column of "${this.name}"`);
+    }
+
+    const where = this.encodeWhere($where);
+    if (!$allowFiltering) this.checkFiltering($where);
+
+    return selectStatement(this.table, {
+      columns: $include ?? ($distinct ? (partitionKey as (keyof T)[]) : $aggregates ? $groupBy : undefined),
+      where,
+      orderBy,
+      limit,
+      perPartitionLimit: $perPartitionLimit,
+      distinct: $distinct,
+      groupBy: $groupBy,
+      aggregates: $aggregates,
+      allowFiltering: $allowFiltering,
+    }, this.client.statements);
+  }
+
+  /**
+   * Convert a selected row, including the values of its aggregates.
+   * @param row The row returned by the driver.
+   * @param aggregates The aggregates of the select, keyed by their alias.
+   */
+  private decodeSelected<A extends Record<string, Aggregate<T>>>(row: types.Row, aggregates?: A) {
+    const decoded = this.decode(row) as Record<string, unknown>;
+
+    for (const [alias, aggregate] of Object.entries(aggregates ?? {})) {
+      const [fn, column] = Object.entries(aggregate)[0];
+      const field = this.schema.definition[column as keyof T];
+      const value = row.get(storedName(alias));
+      delete decoded[storedName(alias)];
+      decoded[alias] = fn == "count"
+        ? (value as types.Long).toNumber()
+        : field ? this.client.codecs.decode(field.type, value, field.codec) : value;
+    }
+
+    return decoded as Partial<T> & AggregateResult<T, A>;
+  }
+
+  /**
+   * Read a row by its primary key as a tracked entity, whose `save()` only writes the columns that changed.
+   * @param key The value of every primary key column.
+   * @returns The entity, or `null` if the row does not exist.
+   * @throws {Error} Throws an error if a primary key column is missing.
+   *
+   * @example
+   * const user = await users.get({ id });
+   * if (user) {
+   *   user.email = email;
+   *   await user.save();
+   * }
+   */
+  public async get(key: EntityKey<T, K>): Promise<EntityOf<T, I, K> | null> {
+    const [row] = await this.select({ $where: this.keyWhere(key), $limit: 1 });
+    return row ? (new Entity(this, row, true) as EntityOf<T, I, K>) : null;
+  }
+
+  /**
+   * Create a tracked entity for a new row. It is inserted by its first `save()`.
+   * @param data The values of the row.
+   */
+  public create(data: I): EntityOf<T, I, K> {
+    return new Entity(this, data as Partial<T>, false) as EntityOf<T, I, K>;
+  }
+
+  /**
+   * Start a chainable query on the table.
+   *
+   * @example
+   * const messages = await model
+   *   .find()
+   *   .where("channel_id").eq(channelId)
+   *   .and("created_at").gte(since)
+   *   .orderBy("created_at", "DESC")
+   *   .limit(50)
+   *   .select("id", "content");
+   */
+  public find() {
+    return new QueryBuilder<T, K>(this);
+  }
 
   private async getColumnDefinition(
     fieldName: string,
     fieldOptions: SchemaOptionsField<T>
   ): Promise<string> {
-    const typeMapping: Partial<Record<keyof FieldTypeMap<T>, string>> = {
-      ascii: "ascii",
-      bigint: "bigint",
-      blob: "blob",
-      boolean: "boolean",
-      counter: "counter",
-      date: "date",
-      decimal: "decimal",
-      double: "double",
-      duration: "duration",
-      float: "float",
-      inet: "inet",
-      int: "int",
-      smallint: "smallint",
-      text: "text",
-      time: "time",
-      timestamp: "timestamp",
-      timeuuid: "timeuuid",
-      tinyint: "tinyint",
-      uuid: "uuid",
-      varchar: "varchar",
-      varint: "varint",
-    };
-
-    const fieldType = fieldOptions.type as keyof Partial<Record<keyof FieldTypeMap<T>, string>> | FrozenType;
+    const fieldType = parseFieldType(fieldOptions.type);
 
-    if (fieldType instanceof FrozenType) {
-      let startPos = fieldType.udt.indexOf("<") + 1;
-      let endPos = fieldType.udt.indexOf(">");
-
-      const type = this.client.types.get(fieldType.udt) || this.client.types.get(fieldType.udt.substring(startPos, endPos));
+    for (const dependency of typeDependencies(fieldType)) {
+      const type = this.client.types.get(dependency);
       if (!type)
         throw new Error(
-          `Model "${this.name}" requires the "${fieldType.udt}" user defined type which was not found!`
+          `Model "${this.name}" requires the "${dependency}" user defined type which was not found!`
+        );
+      // A table can only use the types of its own keyspace.
+      if (type.options.keyspace && type.options.keyspace != this.keyspace)
+        throw new Error(
+          `Model "${this.name}" in keyspace "${this.keyspace}" can not use the "${dependency}" user defined type of keyspace "${type.options.keyspace}"`
         );
-      await type.load();
-      return `${fieldName} frozen<${fieldType.udt}>`;
-    } else {
-      let startPos = fieldType.indexOf("<") + 1;
-      let endPos = fieldType.indexOf(">");
-
-      if (typeMapping[fieldType] || typeMapping[fieldType.substring(startPos, endPos) as keyof Partial<Record<keyof FieldTypeMap<T>, string>>]) {
-        if (fieldOptions.partitionKey) this.primaryKey[0].push(fieldName);
-        else if (fieldOptions.cluseringKey) this.primaryKey[1].push(fieldName);
-        return `${fieldName} ${typeMapping[fieldType] || fieldType.split('<')[0] + '<' + typeMapping[fieldType.substring(startPos, endPos) as keyof Partial<Record<keyof FieldTypeMap<T>, string>>] + '>'}`;
-      } else throw new Error(`Unsupported field type: ${fieldType}`);
+      await type.load(this.keyspace);
     }
+
+    return `${identifier(fieldName)} ${formatType(fieldType)}${fieldOptions.static ? " STATIC" : ""}`;
   }
 
   /**
@@ -132,7 +501,7 @@ export class Model<T> {
     const queries: string[] = [];
 
     if ($alter)
-      queries.push(`ALTER ${$alter.column.toString()} TYPE ${$alter.type}`);
+      queries.push(`ALTER ${identifier($alter.column)} TYPE ${getCqlType($alter.type)}`);
 
     if ($add && $add.length > 0) {
       queries.push(
@@ -141,19 +510,18 @@ export class Model<T> {
             const key = Object.keys(definition)[0] as keyof Partial<
               SchemaDefinition<T>
             >;
-            return `${key.toString()} ${definition[key]?.type}`;
+            return `${identifier(key)} ${getCqlType(definition[key]!.type)}`;
           })
           .join(", ")}`
       );
     }
 
-    if ($drop && $drop.length > 0) queries.push(`DROP ${$drop.join(", ")}`);
+    if ($drop && $drop.length > 0) queries.push(`DROP ${$drop.map(identifier).join(", ")}`);
     if ($rename && $rename.length > 1)
-      queries.push(`RENAME ${$rename[0].toString()} TO ${$rename[1]}`);
+      queries.push(`RENAME ${identifier($rename[0])} TO ${identifier($rename[1])}`);
 
     await this.client.cassandara.execute(
-      `ALTER TABLE ${this.client.cassandara.keyspace}.${this.name
-      }\n${queries.join("\n")};`
+      `ALTER TABLE ${this.table}\n${queries.join("\n")};`
     );
   }
 
@@ -164,7 +532,8 @@ export class Model<T> {
    * @param {Object} params - Parameters for counting records.
    * @param {WhereClause[]} params.$where - An array of conditions specifying how to filter records.
    * @param {number} [params.$limit] - The maximum number of records to count. If provided, it is used in the LIMIT clause.
-   * @param {boolean} [params.$prepare] - Indicates whether to prepare the statement. Defaults to `false`.
+   * @param {boolean} [params.$prepare] - Indicates whether to prepare the statement. Defaults to the `prepare` option of the client.
+   * @param {boolean} [params.$allowFiltering] - Add `ALLOW FILTERING` instead of warning about or rejecting conditions that need it.
    * @returns {Promise<number>} - A Promise that resolves to the count of records based on the specified conditions.
    * @throws {Error} Throws an error if the execution fails or if invalid parameters are provided.
    *
@@ -178,36 +547,13 @@ export class Model<T> {
    * @property {string} contains - Contains operator. Example: { contains: ['columnName', 'value'] }
    * @property {string} notContains - Does not contain operator. Example: { notContains: ['columnName', 'value'] }
    */
-  public async count({ $where, $limit, $prepare }: { $where: WhereClause<T>[], $limit?: number, $prepare?: boolean }) {
-    const conditions: [string[], any[]] = [[], []];
-
-    const conditionHandlers: Record<string, (key: string, value: any) => void> = {
-      equals: (k, v) => conditions[0].push(`${k}=?`) && conditions[1].push(v),
-      notEquals: (k, v) => conditions[0].push(`${k}=?`) && conditions[1].push(v),
-      in: (k, v) => conditions[0].push(`${k} IN ?`) && conditions[1].push(v),
-      notIn: (k, v) => conditions[0].push(`${k} NOT IN ?`) && conditions[1].push(v),
-      greaterThanOrEqual: (k, v) => conditions[0].push(`${k}>=?`) && conditions[1].push(v),
-      lessThanOrEqual: (k, v) => conditions[0].push(`${k}<=?`) && conditions[1].push(v),
-      contains: (k, v) => conditions[0].push(`${k} CONTAINS ?`) && conditions[1].push(v),
-      notContains: (k, v) => conditions[0].push(`${k} DOES NOT CONTAIN ?`) && conditions[1].push(v),
-    };
-
-
-    for (const condition of $where) {
-      const [operator, args] = Object.entries(condition)[0];
-      const [k, v] = args as [string, any];
-      conditionHandlers[operator](k.toString(), v);
-    }
-
-    const limitClause = $limit ? `LIMIT ${Math.max(1, Math.floor($limit))}` : '';
+  public async count({ $where, $limit, $prepare, $allowFiltering }: { $where: WhereClause<T, K>[], $limit?: number, $prepare?: boolean, $allowFiltering?: boolean }) {
+    ({ where: $where } = await this.pipeHooks("beforeSelect", { where: $where }, "count"));
+    if (!$allowFiltering) this.checkFiltering($where);
+    const { query, params } = countStatement(this.table, { where: this.encodeWhere($where), limit: $limit, allowFiltering: $allowFiltering }, this.client.statements);
+    const data = await this.client.execute(query, params, { prepare: $prepare }, { operation: "count", model: this });
 
-    const data = await this.client.cassandara.execute(`
-      SELECT COUNT(*) 
-      FROM ${this.client.cassandara.keyspace}.${this.name}
-      WHERE ${conditions[0].map((cond) => cond).join(" AND ")}
-      ${limitClause};`, conditions[1], { prepare: $prepare });
-
-    return data.rows[0].get("count").high as number;
+    return (data.rows[0].get("count") as types.Long).toNumber();
   }
 
   /**
@@ -215,9 +561,13 @@ export class Model<T> {
    *
    * @async
    * @param {Object} params - Parameters for the DELETE operation.
-   * @param {WhereClause<T>[]} params.$where - An array of conditions specifying how to filter records.
+   * @param {WhereClause<T, K>[]} params.$where - An array of conditions specifying how to filter records.
    * @param {number} [params.$limit] - The maximum number of records to delete. If provided, it is used in the LIMIT clause.
-   * @param {boolean} [params.$prepare] - Indicates whether to prepare the statement. Defaults to `false`.
+   * @param {boolean} [params.$prepare] - Indicates whether to prepare the statement. Defaults to the `prepare` option of the client.
+   * @param {number | Date} [params.$timestamp] - The write timestamp of the deletion, in microseconds or as a `Date`.
+   * @param {boolean} [params.$ifExists] - Only delete the row if it exists (lightweight transaction).
+   * @param {WhereClause<T, K>[]} [params.$if] - Only delete the row if these conditions hold (lightweight transaction).
+   * @returns {Promise<WriteResult<T>>} - Whether the deletion was applied and, if not, the current values of the row.
    * @throws {Error} Throws an error if the execution fails or if invalid parameters are provided.
    *
    * @typedef {Object} WhereClause
@@ -230,39 +580,22 @@ export class Model<T> {
    * @property {string} contains - Contains operator. Example: { contains: ['columnName', 'value'] }
    * @property {string} notContains - Does not contain operator. Example: { notContains: ['columnName', 'value'] }
    */
-  public async delete({ $where, $limit, $prepare }: { $where: WhereClause<T>[], $limit?: number, $prepare?: boolean }) {
-    const conditions: [string[], any[]] = [[], []];
-
-    const conditionHandlers: Record<string, (key: string, value: any) => void> = {
-      equals: (k, v) => conditions[0].push(`${k}=?`) && conditions[1].push(v),
-      notEquals: (k, v) => conditions[0].push(`${k}=?`) && conditions[1].push(v),
-      in: (k, v) => conditions[0].push(`${k} IN ?`) && conditions[1].push(v),
-      notIn: (k, v) => conditions[0].push(`${k} NOT IN ?`) && conditions[1].push(v),
-      greaterThanOrEqual: (k, v) => conditions[0].push(`${k}>=?`) && conditions[1].push(v),
-      lessThanOrEqual: (k, v) => conditions[0].push(`${k}<=?`) && conditions[1].push(v),
-      contains: (k, v) => conditions[0].push(`${k} CONTAINS ?`) && conditions[1].push(v),
-      notContains: (k, v) => conditions[0].push(`${k} DOES NOT CONTAIN ?`) && conditions[1].push(v),
-    };
-
-    for (const condition of $where) {
-      const [operator, args] = Object.entries(condition)[0];
-      const [k, v] = args as [string, any];
-      conditionHandlers[operator](k.toString(), v);
-    }
-
-    const limitClause = $limit ? `LIMIT ${Math.max(1, Math.floor($limit))}` : '';
+  public async delete({ $where, $limit, $prepare, $timestamp, $ifExists, $if }: { $where: WhereClause<T, K>[], $limit?: number, $prepare?: boolean, $timestamp?: number | Date, $ifExists?: boolean, $if?: WhereClause<T, K>[] }) {
+    const remove = await this.pipeHooks("beforeDelete", { where: $where }, "delete");
+    const statement = deleteStatement(this.table, { where: this.encodeWhere(remove.where), limit: $limit, timestamp: $timestamp, ifExists: $ifExists, conditions: $if && this.encodeWhere($if) }, this.client.statements);
+    const rows = this.projections.length > 0 ? await this.currentRows(remove.where) : [];
+    const projected = this.projections.flatMap((projection) => rows.map((row) => projection.delete(row, $timestamp)));
+    const result = await this.writeWithProjections([statement], !!$ifExists || $if !== undefined, projected, $prepare, "delete");
 
-    await this.client.cassandara.execute(`
-      DELETE FROM ${this.client.cassandara.keyspace}.${this.name}
-      WHERE ${conditions[0].map((cond) => cond).join(" AND ")}
-      ${limitClause};`, conditions[1], { prepare: $prepare });
+    await this.notifyHooks("afterDelete", remove, result, "delete");
+    return result;
   }
 
   /**
    * Removes the table from the database if it exists.
    */
   public async drop() {
-    await this.client.cassandara.execute(`DROP TABLE IF EXISTS ${this.client.cassandara.keyspace}.${this.name};`);
+    await this.client.cassandara.execute(`DROP TABLE IF EXISTS ${this.table};`);
     this.client.models.delete(this.name);
     this.client.logging.success(
       `Successfully dropped the table: "${this.name}"`
@@ -276,9 +609,15 @@ export class Model<T> {
    * @param {Array.<string>} options.$include - Optional array of columns to include in the SELECT query.
    * @param {Array.<Object>} options.$where - Array of conditions for the WHERE clause.
    * @param {number} options.$limit - Optional limit for the number of results to retrieve.
-   * @param {boolean} options.$prepare - Optional flag indicating whether to prepare the statement (default: true).
+   * @param {Object} options.$orderBy - Optional order of the rows of each partition by clustering columns.
+   * @param {number} options.$perPartitionLimit - Optional limit for the number of rows of each partition.
+   * @param {boolean} options.$distinct - Optional flag to only return distinct partitions.
+   * @param {Array.<string>} options.$groupBy - Optional prefix of the primary key to group the rows by.
+   * @param {Object} options.$aggregates - Optional aggregates to return, keyed by their alias.
+   * @param {boolean} options.$allowFiltering - Optional flag to add `ALLOW FILTERING` to the query.
+   * @param {boolean} options.$prepare - Optional flag indicating whether to prepare the statement (default: the `prepare` option of the client).
    *
-   * @throws {Error} If the SELECT query execution fails.
+   * @throws {Error} If the options can not be applied to the table or the SELECT query execution fails.
    *
    * @example
    * const result = await myTable.select({
@@ -291,36 +630,20 @@ export class Model<T> {
    *   $limit: 10,
    *   $prepare: true,
    * });
+   *
+   * // The number of messages and the latest message of every channel of a guild
+   * const stats = await messages.select({
+   *   $where: [{ equals: ['guild_id', guildId] }],
+   *   $groupBy: ['guild_id', 'channel_id'],
+   *   $aggregates: { total: { count: '*' }, latest: { max: 'created_at' } },
+   * });
    */
-  public async select({ $include, $where, $limit, $prepare }: { $include?: (keyof T)[], $where: WhereClause<T>[], $limit?: number, $prepare?: boolean }) {
-    const conditions: [string[], any[]] = [[], []];
-
-    const conditionHandlers: Record<string, (key: string, value: any) => void> = {
-      equals: (k, v) => conditions[0].push(`${k}=?`) && conditions[1].push(v),
-      notEquals: (k, v) => conditions[0].push(`${k}=?`) && conditions[1].push(v),
-      in: (k, v) => conditions[0].push(`${k} IN ?`) && conditions[1].push(v),
-      notIn: (k, v) => conditions[0].push(`${k} NOT IN ?`) && conditions[1].push(v),
-      greaterThanOrEqual: (k, v) => conditions[0].push(`${k}>=?`) && conditions[1].push(v),
-      lessThanOrEqual: (k, v) => conditions[0].push(`${k}<=?`) && conditions[1].push(v),
-      contains: (k, v) => conditions[0].push(`${k} CONTAINS ?`) && conditions[1].push(v),
-      notContains: (k, v) => conditions[0].push(`${k} DOES NOT CONTAIN ?`) && conditions[1].push(v),
-    };
-
-    for (const condition of $where) {
-      const [operator, args] = Object.entries(condition)[0];
-      const [k, v] = args as [string, any];
-      conditionHandlers[operator](k.toString(), v);
-    }
-
-    const limitClause = $limit ? `LIMIT ${Math.max(1, Math.floor($limit))}` : '';
-
-    const data = await this.client.cassandara.execute(`
-      SELECT ${$include ? $include.map((col) => col).join(", ") : '*'} 
-      FROM ${this.client.cassandara.keyspace}.${this.name}
-      WHERE ${conditions[0].map((cond) => cond).join(" AND ")}
-      ${limitClause};`, conditions[1], { prepare: $prepare });
+  public async select<A extends Record<string, Aggregate<T>> = {}>(options: SelectOptions<T, A, K> & { $limit?: number }) {
+    options = await this.beforeSelect(options);
+    const { query, params } = this.selectQuery(options, options.$limit);
+    const data = await this.client.execute(query, params, { prepare: options.$prepare }, { operation: "select", model: this });
 
-    return data.rows as unknown as Partial<T>[];
+    return this.afterSelect(data.rows.map((row) => this.decodeSelected(row, options.$aggregates)));
   }
 
   /**
@@ -329,8 +652,9 @@ export class Model<T> {
    *
    * @param {Object} options - The options for the selection.
    * @param {Array<keyof T>} [options.$include] - Optional. An array of columns to include in the result.
-   * @param {Array<WhereClause<T>>} options.$where - An array of conditions to filter the results.
+   * @param {Array<WhereClause<T, K>>} options.$where - An array of conditions to filter the results.
    * @param {boolean} [options.$prepare] - Optional. Indicates whether to prepare the query.
+   * Accepts the ordering, grouping, aggregate and filtering options of {@link Model.select}.
    * 
    * @returns {Promise<Array<T | Partial<T>>> | null} A Promise that resolves to an array of retrieved rows,
    * or null if no rows match the specified conditions.
@@ -349,44 +673,234 @@ export class Model<T> {
    *   $prepare: true,
    * });
    */
-  public async selectAll({ $include, $where, $prepare }: { $include?: (keyof T)[], $where: WhereClause<T>[], $prepare?: boolean }) {
-    const conditions: [string[], any[]] = [[], []];
-
-    const conditionHandlers: Record<string, (key: string, value: any) => void> = {
-      equals: (k, v) => conditions[0].push(`${k}=?`) && conditions[1].push(v),
-      notEquals: (k, v) => conditions[0].push(`${k}=?`) && conditions[1].push(v),
-      in: (k, v) => conditions[0].push(`${k} IN ?`) && conditions[1].push(v),
-      notIn: (k, v) => conditions[0].push(`${k} NOT IN ?`) && conditions[1].push(v),
-      greaterThanOrEqual: (k, v) => conditions[0].push(`${k}>=?`) && conditions[1].push(v),
-      lessThanOrEqual: (k, v) => conditions[0].push(`${k}<=?`) && conditions[1].push(v),
-      contains: (k, v) => conditions[0].push(`${k} CONTAINS ?`) && conditions[1].push(v),
-      notContains: (k, v) => conditions[0].push(`${k} DOES NOT CONTAIN ?`) && conditions[1].push(v),
-    };
+  public async selectAll<A extends Record<string, Aggregate<T>> = {}>(options: SelectOptions<T, A, K>) {
+    options = await this.beforeSelect(options);
+    const { query, params } = this.selectQuery(options);
+    const data = await this.client.execute(query, params, { prepare: options.$prepare }, { operation: "select", model: this });
+
+    if (data.rowLength < 1) return null;
+
+    const rows = await this.afterSelect(data.rows.map((row) => this.decodeSelected(row, options.$aggregates)));
+    if (!options.$include && !options.$aggregates && !options.$distinct)
+      return rows as (T & AggregateResult<T, A>)[];
+    else return rows;
+  }
+
+  /**
+   * Retrieves a single page of rows from the table. Use the returned `nextPageState` to fetch the next page.
+   *
+   * @param {Object} options - The options for the selection.
+   * @param {Array<keyof T>} [options.$include] - Optional. An array of columns to include in the result.
+   * @param {Array<WhereClause<T, K>>} options.$where - An array of conditions to filter the results.
+   * @param {number} [options.$fetchSize] - Optional. The maximum number of rows in the page.
+   * @param {string} [options.$pageState] - Optional. The `nextPageState` of the previous page.
+   * @param {boolean} [options.$prepare] - Optional. Indicates whether to prepare the query.
+   * Accepts the ordering, grouping, aggregate and filtering options of {@link Model.select}.
+   *
+   * @returns {Promise<Page<Partial<T>>>} A Promise that resolves to the rows of the page and the state of the next page,
+   * which is undefined on the last page.
+   *
+   * @example
+   * let pageState: string | undefined;
+   * do {
+   *   const page = await messages.paginate({
+   *     $where: [{ equals: ['channel_id', channelId] }],
+   *     $fetchSize: 100,
+   *     $pageState: pageState,
+   *   });
+   *   pageState = page.nextPageState;
+   * } while (pageState);
+   */
+  public async paginate<A extends Record<string, Aggregate<T>> = {}>(options: SelectOptions<T, A, K> & { $fetchSize?: number, $pageState?: string }) {
+    options = await this.beforeSelect(options);
+    const statement = this.selectQuery(options);
+    const page = await executePage(this.client, statement, { fetchSize: options.$fetchSize, pageState: options.$pageState, prepare: options.$prepare }, (row) => this.decodeSelected(row, options.$aggregates), { operation: "select", model: this });
+
+    return { ...page, rows: await this.afterSelect(page.rows) };
+  }
+
+  /**
+   * Streams the rows matching the conditions, fetching one page at a time instead of loading every row into memory.
+   *
+   * @param {Object} options - The options for the selection.
+   * @param {Array<keyof T>} [options.$include] - Optional. An array of columns to include in the result.
+   * @param {Array<WhereClause<T, K>>} options.$where - An array of conditions to filter the results.
+   * @param {number} [options.$fetchSize] - Optional. The number of rows fetched per page.
+   * @param {string} [options.$pageState] - Optional. The page state to resume from.
+   * @param {boolean} [options.$prepare] - Optional. Indicates whether to prepare the query.
+   * Accepts the ordering, grouping, aggregate and filtering options of {@link Model.select}.
+   *
+   * @example
+   * for await (const message of messages.iterate({ $where: [{ equals: ['channel_id', channelId] }], $fetchSize: 500 })) {
+   *   // ...
+   * }
+   */
+  public async *iterate<A extends Record<string, Aggregate<T>> = {}>(options: SelectOptions<T, A, K> & { $fetchSize?: number, $pageState?: string }) {
+    options = await this.beforeSelect(options);
+    const statement = this.selectQuery(options);
+    yield* iteratePages(this.client, statement, { fetchSize: options.$fetchSize, pageState: options.$pageState, prepare: options.$prepare }, (row) => this.decodeSelected(row, options.$aggregates), { operation: "select", model: this });
+  }
+
+  /**
+   * Run the `beforeSelect` hooks on the conditions of a select.
+   * @param options The options of the select.
+   */
+  private async beforeSelect<O extends { $where: WhereClause<T, K>[] }>(options: O): Promise<O> {
+    const { where } = await this.pipeHooks("beforeSelect", { where: options.$where }, "select");
+    return { ...options, $where: where };
+  }
+
+  /**
+   * Run the `afterSelect` hooks on the selected rows.
+   * @param rows The decoded rows.
+   */
+  private async afterSelect<R>(rows: R[]): Promise<R[]> {
+    return (await this.pipeHooks("afterSelect", rows as Partial<T>[], "select")) as R[];
+  }
 
-    for (const condition of $where) {
-      const [operator, args] = Object.entries(condition)[0];
-      const [k, v] = args as [string, any];
-      conditionHandlers[operator](k.toString(), v);
+  /**
+   * Get the token ranges used by {@link Model.scan} to split a full-table scan.
+   * @param splits The number of ranges. Defaults to `16`.
+   */
+  public tokenRanges(splits = 16) {
+    return splitTokenRing(splits);
+  }
+
+  /**
+   * Streams every row of the table by walking the token ring one range at a time. Pass `$ranges` to scan
+   * only some of the ranges, for example to spread a backfill over multiple workers.
+   *
+   * @param {Object} options - The options for the scan.
+   * @param {Array<keyof T>} [options.$include] - Optional. An array of columns to include in the result.
+   * @param {TokenRange[]} [options.$ranges] - Optional. The token ranges to scan. Defaults to {@link Model.tokenRanges}.
+   * @param {number} [options.$fetchSize] - Optional. The number of rows fetched per page.
+   * @param {boolean} [options.$prepare] - Optional. Indicates whether to prepare the query. Defaults to `true`.
+   *
+   * @example
+   * const ranges = messages.tokenRanges(64);
+   * const mine = ranges.filter((_, i) => i % workers == worker);
+   * for await (const message of messages.scan({ $ranges: mine })) {
+   *   // ...
+   * }
+   */
+  public async *scan({ $include, $ranges, $fetchSize, $prepare = true }: { $include?: (keyof T)[], $ranges?: TokenRange[], $fetchSize?: number, $prepare?: boolean } = {}) {
+    this.checkColumns($include ?? []);
+    const query = scanStatement(this.table, { columns: $include, partitionKey: this.primaryKey[0] });
+
+    for (const [start, end] of $ranges ?? this.tokenRanges()) {
+      yield* iteratePages(this.client, { query, params: [start, end] }, { fetchSize: $fetchSize, prepare: $prepare }, (row) => this.decode(row), { operation: "select", model: this });
     }
+  }
+
+  /**
+   * Export the rows of the table as NDJSON or CSV, scanning token ranges in parallel. Values are written the way
+   * {@link Model.bulkInsert} reads them, so an export can be imported into a table with the same schema.
+   *
+   * @param {Object} [options] - Options for the export.
+   * @param {string} [options.format] - `"ndjson"` or `"csv"`. Defaults to `"ndjson"`.
+   * @param {WhereClause<T, K>[]} [options.where] - Only export the rows matching these conditions.
+   * @param {Array<keyof T>} [options.columns] - The columns to export. Defaults to every column of the schema.
+   * @param {number} [options.splits] - The number of token ranges the table is split into. Defaults to `16`.
+   * @param {number} [options.concurrency] - The number of token ranges scanned at once. Defaults to `4`.
+   * @param {ExportCheckpoint} [options.checkpoint] - Resume an interrupted export from its last checkpoint.
+   * @param {Function} [options.onCheckpoint] - Called with the checkpoint to resume from once the rows of a page were written by the
+   * streams the export is piped to, or read from it when it is not piped.
+   * @returns {Readable} - A stream of the exported text. The rows of different token ranges are interleaved.
+   * @throws {Error} Throws an error if the checkpoint was taken with a different number of splits.
+   *
+   * @example
+   * let checkpoint = loadCheckpoint();
+   * messages
+   *   .export({ format: "csv", checkpoint, onCheckpoint: (next) => saveCheckpoint(next) })
+   *   .pipe(fs.createWriteStream("messages.csv", { flags: checkpoint ? "a" : "w" }));
+   */
+  public export(options: ExportOptions<T, K> = {}): ExportStream {
+    const {
+      format = "ndjson",
+      where = [],
+      columns = Object.keys(this.schema.definition) as (keyof T)[],
+      splits = 16,
+      concurrency = 4,
+      fetchSize,
+      prepare,
+      delimiter = ",",
+      header = !options.checkpoint,
+      onCheckpoint,
+    } = options;
 
-    const data = await this.client.cassandara.execute(`
-      SELECT ${$include ? $include.map((col) => col).join(", ") : '*'} 
-      FROM ${this.client.cassandara.keyspace}.${this.name}
-      WHERE ${conditions[0].map((cond) => cond).join(" AND ")}`, conditions[1], { prepare: $prepare });
+    this.checkColumns(columns);
+    if (options.checkpoint && options.checkpoint.splits != splits)
+      throw new Error(`The checkpoint of the export of "${this.name}" was taken with ${options.checkpoint.splits} splits instead of ${splits}`);
 
-    if (data.rowLength < 1) return null;
+    const checkpoint: ExportCheckpoint = {
+      splits,
+      completed: [...(options.checkpoint?.completed ?? [])],
+      pageStates: { ...options.checkpoint?.pageStates },
+    };
+    const fieldTypes = columns.map((column) => parseFieldType(this.schema.definition[column].type));
+    const serialize = (row: Partial<T>) =>
+      format == "csv"
+        ? `${joinCsvRecord(columns.map((column, i) => formatText(fieldTypes[i], row[column])), delimiter)}\n`
+        : `${JSON.stringify(Object.fromEntries(columns.map((column) => [column, row[column] ?? null])), jsonReplacer)}\n`;
+
+    const stream = new ExportStream();
+
+    const partitionKey = this.primaryKey[0] as [K, ...K[]];
+    const scanRange = async (index: number, [start, end]: TokenRange) => {
+      const statement = selectStatement(this.table, {
+        columns,
+        where: this.encodeWhere([{ token: [partitionKey, "moreThan", start] }, { token: [partitionKey, "lessThanOrEqual", end] }, ...where]),
+        allowFiltering: where.length > 0,
+      }, this.client.statements);
+      let pageState: string | undefined = checkpoint.pageStates[index];
+
+      do {
+        const page: Page<Partial<T>> = await executePage(this.client, statement, { fetchSize, pageState, prepare }, (row) => this.decode(row), { operation: "select", model: this });
+        if (page.rows.length > 0) await stream.pushText(page.rows.map(serialize).join(""));
+        await stream.written();
+        if (stream.destroyed) return;
 
-    if (!$include) return data.rows as T[];
-    else return data.rows as unknown as Partial<T>[];
+        pageState = page.nextPageState;
+        if (pageState) checkpoint.pageStates[index] = pageState;
+        else {
+          delete checkpoint.pageStates[index];
+          checkpoint.completed.push(index);
+        }
+        onCheckpoint?.({ splits, completed: [...checkpoint.completed], pageStates: { ...checkpoint.pageStates } });
+      } while (pageState);
+    };
+
+    (async () => {
+      const pool = new ConcurrencyPool(concurrency);
+      if (format == "csv" && header) await stream.pushText(`${joinCsvRecord(columns.map(String), delimiter)}\n`);
+
+      for (const [index, range] of this.tokenRanges(splits).entries()) {
+        if (stream.destroyed) break;
+        if (!checkpoint.completed.includes(index))
+          await pool.run(() => scanRange(index, range).catch((error) => void stream.destroy(error)));
+      }
+
+      await pool.drain();
+      if (!stream.destroyed) stream.push(null);
+    })();
+
+    return stream;
   }
 
   /**
    * Updates records in a Cassandra database table based on specified criteria.
    *
    * @param {Object} options - The options object containing update parameters.
-   * @param {Partial<Record<keyof T, T[keyof T]>>} options.$set - The fields to be updated along with their new values.
-   * @param {WhereClause<T>[]} options.$where - The conditions that records must meet to be updated.
-   * @param {boolean} [options.$prepare] - Indicates whether to prepare the statement. Default is undefined.
+   * @param {UpdateSet<T>} options.$set - The fields to be updated along with their new values, or collection operators
+   * (`$append`, `$prepend`, `$addToSet`, `$remove`, `$putKey`, `$removeKey`, `$setIndex`, `$deleteIndex`) to apply to list, set and map columns.
+   * @param {WhereClause<T, K>[]} options.$where - The conditions that records must meet to be updated.
+   * @param {boolean} [options.$prepare] - Indicates whether to prepare the statement. Defaults to the `prepare` option of the client.
+   * @param {number} [options.$ttl] - The time to live of the updated values in seconds.
+   * @param {number | Date} [options.$timestamp] - The write timestamp of the update, in microseconds or as a `Date`.
+   * @param {boolean} [options.$ifExists] - Only update the row if it exists (lightweight transaction, which costs a Paxos round trip). Defaults to `false`,
+   * in which case a missing row is created like any Cassandra update.
+   * @param {WhereClause<T, K>[]} [options.$if] - Only update the row if these conditions hold (lightweight transaction).
+   * @returns {Promise<WriteResult<T>>} - Whether the update was applied and, if not, the current values of the row.
    *  
    * @throws {Error} Throws an error if the Cassandra update query execution fails.
    * 
@@ -396,57 +910,258 @@ export class Model<T> {
    *    $where: [{ equals: { id: 1 } }]
    *    $prepare: true
    * });
+   *
+   * // Optimistic concurrency: only apply the edit if nobody changed the message in the meantime
+   * const { applied, current } = await update({
+   *    $set: { content: 'edited', version: 3 },
+   *    $where: [{ equals: ['id', id] }],
+   *    $if: [{ equals: ['version', 2] }]
+   * });
+   *
+   * // Add a role without overwriting the roles other writers added
+   * await update({
+   *    $set: { roles: { $addToSet: ['moderator'] } },
+   *    $where: [{ equals: ['id', memberId] }]
+   * });
+   */
+  public async update(options: { $set: UpdateSet<T>, $where: WhereClause<T, K>[], $prepare?: boolean, $ttl?: number, $timestamp?: number | Date, $ifExists?: boolean, $if?: WhereClause<T, K>[] }) {
+    const update = await this.pipeHooks("beforeUpdate", { set: options.$set, where: options.$where }, "update");
+    const result = await this.executeUpdate({ ...options, $set: update.set, $where: update.where });
+
+    await this.notifyHooks("afterUpdate", update, result, "update");
+    return result;
+  }
+
+  /**
+   * Execute an update once its hooks have run.
+   */
+  private async executeUpdate({ $set, $where, $prepare, $ttl, $timestamp, $ifExists, $if }: { $set: UpdateSet<T>, $where: WhereClause<T, K>[], $prepare?: boolean, $ttl?: number, $timestamp?: number | Date, $ifExists?: boolean, $if?: WhereClause<T, K>[] }) {
+    this.checkCollectionOperations($set);
+    if (this.client.validation) this.validateUpdate($set);
+    if (this.projections.length > 0) return this.updateWithProjections({ $set, $where, $prepare, $ttl, $timestamp, $ifExists, $if });
+
+    const [elements, set] = splitElementDeletes(this.encodeSet($set));
+    $where = this.encodeWhere($where);
+    $if = $if && this.encodeWhere($if);
+
+    if (elements.length < 1) {
+      const { query, params } = updateStatement(this.table, { set, where: $where, ttl: $ttl, timestamp: $timestamp, ifExists: $ifExists, conditions: $if }, this.client.statements);
+      const data = await this.client.execute(query, params, { prepare: $prepare }, { operation: "update", model: this });
+      return writeResult<T>(data, (row) => this.decode(row));
+    }
+
+    const remove = deleteStatement(this.table, { where: $where, timestamp: $timestamp, elements, ifExists: $ifExists, conditions: $if }, this.client.statements);
+    if (Object.keys(set).length < 1) {
+      const data = await this.client.execute(remove.query, remove.params, { prepare: $prepare }, { operation: "update", model: this });
+      return writeResult<T>(data, (row) => this.decode(row));
+    }
+
+    if ($if || $ifExists)
+      throw new Error(`Model "${this.name}" can not combine "$deleteIndex" with other changes in a conditional update`);
+
+    await this.client.executeBatch([
+      updateStatement(this.table, { set, where: $where, ttl: $ttl, timestamp: $timestamp }, this.client.statements),
+      deleteStatement(this.table, { where: $where, timestamp: $timestamp, elements }, this.client.statements),
+    ], { prepare: $prepare }, { operation: "update", model: this });
+    return { applied: true } as WriteResult<T>;
+  }
+
+  /**
+   * Execute an update of a model with projections, reading the rows it changes first to update their projection rows.
    */
-  public async update({ $set, $where, $prepare }: { $set: Partial<Record<keyof T, T[keyof T]>>, $where: WhereClause<T>[], $prepare?: boolean }) {
+  private async updateWithProjections({ $set, $where, $prepare, $ttl, $timestamp, $ifExists, $if }: { $set: UpdateSet<T>, $where: WhereClause<T, K>[], $prepare?: boolean, $ttl?: number, $timestamp?: number | Date, $ifExists?: boolean, $if?: WhereClause<T, K>[] }) {
+    const [elements, set] = splitElementDeletes(this.encodeSet($set));
+    const conditional = $ifExists === true || $if !== undefined;
+    const where = this.encodeWhere($where);
+    const conditions = $if && this.encodeWhere($if);
+    const statements: Statement[] = [];
+
+    if (Object.keys(set).length > 0)
+      statements.push(updateStatement(this.table, { set, where, ttl: $ttl, timestamp: $timestamp, ifExists: $ifExists, conditions }, this.client.statements));
+    if (elements.length > 0)
+      statements.push(deleteStatement(this.table, { where, timestamp: $timestamp, elements, ifExists: $ifExists, conditions }, this.client.statements));
+    if (conditional && statements.length > 1)
+      throw new Error(`Model "${this.name}" can not combine "$deleteIndex" with other changes in a conditional update`);
 
-    // SET NAME
-    // SET DATA
-    // WHERE NAME
-    // WHERE DATA
-    const conditions: [string[], any[], string[], any[]] = [
-      [],
-      [],
-      [],
-      []
-    ];
+    const rows = await this.currentRows($where);
+    if (rows.length < 1 && $ifExists) return { applied: false } as WriteResult<T>;
 
-    const entries = Object.entries($set);
+    const options = { ttl: $ttl, timestamp: $timestamp };
+    const projected = this.projections.flatMap((projection) => {
+      if (rows.length > 0) return rows.flatMap((row) => projection.update(row, $set, options));
+
+      // The update creates the row, so its projection rows are created from the key and the new values
+      const values = Object.entries($set).filter(([, value]) => !getCollectionOperator(value));
+      return [projection.insert({ ...this.keyValues($where), ...Object.fromEntries(values) }, options)];
+    });
+
+    return this.writeWithProjections(statements, conditional, projected, $prepare, "update");
+  }
 
-    for (const entry of entries) {
-      conditions[0].push(entry[0]);
-      conditions[1].push(entry[1]);
+  /**
+   * Execute the statements of a write together with the statements that keep the projections in sync, in one logged batch.
+   * A conditional write is executed on its own first, and the projections are only written when it was applied.
+   * @param statements The statements of the write. A conditional write has a single statement.
+   * @param conditional Whether the write is a lightweight transaction.
+   * @param projected The statements of the projections.
+   * @param prepare Whether to prepare the statements.
+   * @param operation The operation of the write.
+   */
+  private async writeWithProjections(statements: Statement[], conditional: boolean, projected: Statement[], prepare: boolean | undefined, operation: Operation) {
+    const target = { operation, model: this };
+    if (conditional || (statements.length == 1 && projected.length < 1)) {
+      const data = await this.client.execute(statements[0].query, statements[0].params, { prepare }, target);
+      const result = writeResult<T>(data, (row) => this.decode(row));
+      if (result.applied && projected.length > 0) await this.client.executeBatch(projected, { prepare, logged: true }, target);
+      return result;
     }
 
-    const conditionHandlers: Record<string, (key: string, value: any) => void> = {
-      equals: (k, v) => conditions[2].push(`${k}=?`) && conditions[3].push(v),
-      notEquals: (k, v) => conditions[2].push(`${k}=?`) && conditions[3].push(v),
-      in: (k, v) => conditions[2].push(`${k} IN ?`) && conditions[3].push(v),
-      notIn: (k, v) => conditions[2].push(`${k} NOT IN ?`) && conditions[3].push(v),
-      greaterThanOrEqual: (k, v) => conditions[2].push(`${k}>=?`) && conditions[3].push(v),
-      lessThanOrEqual: (k, v) => conditions[2].push(`${k}<=?`) && conditions[3].push(v),
-      contains: (k, v) => conditions[2].push(`${k} CONTAINS ?`) && conditions[3].push(v),
-      notContains: (k, v) => conditions[2].push(`${k} DOES NOT CONTAIN ?`) && conditions[3].push(v),
+    await this.client.executeBatch([...statements, ...projected], { prepare, logged: true }, target);
+    return { applied: true } as WriteResult<T>;
+  }
+
+  /**
+   * Generate the statements that insert the projection rows of a new row. When the row may already exist, its current
+   * projection rows are moved if the insert changes their key.
+   * @param data The row.
+   * @param replace Whether the insert overwrites an existing row.
+   * @param options The time to live and timestamp of the write.
+   */
+  private async insertProjections(data: Partial<T>, replace: boolean, options: { ttl?: number, timestamp?: number | Date }) {
+    if (this.projections.length < 1) return [];
+
+    const [current] = replace ? await this.currentRows(this.keyWhere(data)) : [];
+    const kept = current && (Object.fromEntries(Object.entries(current).filter(([, value]) => value !== null)) as Partial<T>);
+    return this.projections.flatMap((projection) =>
+      kept && !projection.sameKey(kept, data)
+        ? [projection.delete(kept, options.timestamp), projection.insert({ ...kept, ...data }, options)]
+        : [projection.insert(data, options)]
+    );
+  }
+
+  /**
+   * Read the rows a write is about to change, without running the select hooks.
+   * @param where The conditions of the write.
+   */
+  private async currentRows(where: WhereClause<T, K>[]) {
+    const { query, params } = selectStatement(this.table, { where: this.encodeWhere(where) }, this.client.statements);
+    const data = await this.client.execute(query, params, {}, { operation: "select", model: this });
+    return data.rows.map((row) => this.decode(row));
+  }
+
+  /**
+   * The primary key of a row, as where clauses.
+   * @param values The values of the row.
+   * @throws {Error} Throws an error if a primary key column is missing.
+   */
+  private keyWhere(values: Partial<T> | EntityKey<T, K>): WhereClause<T, K>[] {
+    return [...this.primaryKey[0], ...this.primaryKey[1]].map((column) => {
+      const value = (values as Record<string, unknown>)[column];
+      if (value === undefined || value === null)
+        throw new Error(`Model "${this.name}" is missing primary key column "${column}"`);
+      return { equals: [column, value] } as WhereClause<T, K>;
+    });
+  }
+
+  /**
+   * The values of the columns restricted by `equals` relations.
+   * @param where The where clauses.
+   */
+  private keyValues(where: WhereClause<T, K>[]): Partial<T> {
+    return Object.fromEntries(
+      where.flatMap((condition) => {
+        const [operator, args] = Object.entries(condition)[0] as [string, [unknown, unknown]];
+        return operator == "equals" && !Array.isArray(args[0]) ? [args] : [];
+      })
+    ) as Partial<T>;
+  }
+
+  /**
+   * Check that collection operators are only used on collections that support them.
+   * @param set The columns to change.
+   */
+  private checkCollectionOperations(set: UpdateSet<T>) {
+    const supported: Record<string, CollectionOperator[]> = {
+      list: ["$append", "$prepend", "$remove", "$setIndex", "$deleteIndex"],
+      set: ["$addToSet", "$remove"],
+      map: ["$putKey", "$removeKey", "$deleteIndex"],
     };
 
-    for (const condition of $where) {
-      const [operator, args] = Object.entries(condition)[0];
-      const [k, v] = args as [string, any];
-      conditionHandlers[operator](k.toString(), v);
+    for (const [column, value] of Object.entries(set)) {
+      const operation = getCollectionOperator(value);
+      if (!operation) continue;
+
+      const type = this.schema.definition[column as keyof T]?.type;
+      const collection = type ? parseFieldType(type).kind : undefined;
+      if (!collection || !supported[collection]?.includes(operation[0]))
+        throw new Error(`Column "${column}" of model "${this.name}" does not support "${operation[0]}"`);
     }
+  }
+
+  /**
+   * Increments counter columns of a counter table.
+   *
+   * @param {Object} options - The options object containing the increments.
+   * @param {Partial<Record<CounterColumns<T>, number>>} options.$counters - The counter columns and the amount to add to each.
+   * @param {WhereClause<T, K>[]} options.$where - The conditions selecting the row to update.
+   * @param {boolean} [options.$prepare] - Indicates whether to prepare the statement. Defaults to the `prepare` option of the client.
+   *
+   * @throws {Error} Throws an error if a column is not a counter.
+   *
+   * @example
+   * await channelStats.increment({
+   *    $counters: { messages: 1 },
+   *    $where: [{ equals: ['channel_id', channelId] }]
+   * });
+   */
+  public async increment({ $counters, $where, $prepare }: { $counters: Partial<Record<CounterColumns<T>, number>>, $where: WhereClause<T, K>[], $prepare?: boolean }) {
+    await this.executeCounter($counters, $where, $prepare, 1);
+  }
+
+  /**
+   * Decrements counter columns of a counter table.
+   *
+   * @param {Object} options - The options object containing the decrements.
+   * @param {Partial<Record<CounterColumns<T>, number>>} options.$counters - The counter columns and the amount to subtract from each.
+   * @param {WhereClause<T, K>[]} options.$where - The conditions selecting the row to update.
+   * @param {boolean} [options.$prepare] - Indicates whether to prepare the statement. Defaults to the `prepare` option of the client.
+   *
+   * @throws {Error} Throws an error if a column is not a counter.
+   *
+   * @example
+   * await channelStats.decrement({
+   *    $counters: { members: 1 },
+   *    $where: [{ equals: ['channel_id', channelId] }]
+   * });
+   */
+  public async decrement({ $counters, $where, $prepare }: { $counters: Partial<Record<CounterColumns<T>, number>>, $where: WhereClause<T, K>[], $prepare?: boolean }) {
+    await this.executeCounter($counters, $where, $prepare, -1);
+  }
+
+  private counterQuery(counters: Partial<Record<CounterColumns<T>, number>>, where: WhereClause<T, K>[], sign: 1 | -1) {
+    this.checkColumns(Object.keys(counters));
+    for (const column of Object.keys(counters))
+      if (this.schema.definition[column as keyof T]?.type != "counter")
+        throw new Error(`Column "${column}" of model "${this.name}" is not a counter`);
+
+    return counterStatement(this.table, { counters, where: this.encodeWhere(where), sign }, this.client.statements);
+  }
 
-    await this.client.cassandara.execute(`
-    UPDATE ${this.client.cassandara.keyspace}.${this.name}
-    SET ${conditions[0].map((name) => `${name}=?`).join(", ")}
-    WHERE ${conditions[2].map((cond) => cond).join(" AND ")}
-    IF EXISTS;
-    `, [...conditions[1], ...conditions[3]], { prepare: $prepare });
+  private async executeCounter(counters: Partial<Record<CounterColumns<T>, number>>, where: WhereClause<T, K>[], prepare: boolean | undefined, sign: 1 | -1) {
+    const { query, params } = this.counterQuery(counters, where, sign);
+    await this.client.execute(query, params, { prepare }, { operation: "counter", model: this });
   }
 
   /**
    * Inserts data into the Cassandra table represented by this instance.
    *
    * @param {Partial<Record<keyof T, T[keyof T]>>} data - The data to be inserted, where keys are column names and values are corresponding values.
-   * @returns {Promise<void>} - A promise that resolves when the insertion is successful and rejects on failure.
+   * @param {Object} [options] - Options for the insertion.
+   * @param {boolean} [options.prepare] - Indicates whether to prepare the statement.
+   * @param {number} [options.ttl] - The time to live of the row in seconds.
+   * @param {number | Date} [options.timestamp] - The write timestamp of the row, in microseconds or as a `Date`.
+   * @param {boolean} [options.ifNotExists] - Only insert the row if it does not exist yet (lightweight transaction). Defaults to `true`.
+   * @returns {Promise<WriteResult<T>>} - Whether the row was inserted and, if not, the values of the existing row.
    * @throws {Error} If the insertion fails, an error is thrown with details.
    *
    * @example
@@ -456,16 +1171,304 @@ export class Model<T> {
    *   // ...
    * };
    * await yourInstance.insert(dataToInsert);
+   *
+   * // A session that expires after a day, without the cost of a lightweight transaction
+   * await sessions.insert(session, { ttl: 86400, ifNotExists: false });
+   */
+  public async insert(data: I, { prepare, ttl, timestamp, ifNotExists = true }: { prepare?: boolean, ttl?: number, timestamp?: number | Date, ifNotExists?: boolean } = {}) {
+    data = await this.pipeHooks("beforeInsert", data, "insert");
+    if (this.client.validation) this.validate(data);
+    const statement = insertStatement(this.table, { data: this.encode(data), ttl, timestamp, ifNotExists }, this.client.statements);
+    const projected = await this.insertProjections(data, !ifNotExists, { ttl, timestamp });
+    const result = await this.writeWithProjections([statement], ifNotExists, projected, prepare, "insert");
+
+    await this.notifyHooks("afterInsert", data, result, "insert");
+    return result;
+  }
+
+  /**
+   * Insert many rows with a bounded number of writes in flight. Rows of the same partition that arrive close together are
+   * written in unlogged batches, and writes that fail with a transient error are retried.
+   *
+   * @param {Iterable<I> | AsyncIterable<I> | Readable} source - The rows, or a stream of CSV or NDJSON text when `options.format` is set.
+   * @param {Object} [options] - Options for the import.
+   * @param {number} [options.concurrency] - The maximum number of writes in flight. Defaults to `16`.
+   * @param {number} [options.ttl] - The time to live of the rows in seconds.
+   * @param {boolean} [options.skipLwt] - Insert without `IF NOT EXISTS`, overwriting existing rows. Defaults to `true`.
+   * @param {number} [options.batchSize] - The maximum number of rows of a partition written in one batch. Defaults to `20`.
+   * @param {number} [options.retries] - How often a write is retried after a transient failure. Defaults to `3`.
+   * @param {string} [options.format] - Parse the source as `"csv"` or `"ndjson"`.
+   * @param {Object | Array} [options.columns] - Map the fields of the input to columns. Fields that are not columns of the table are ignored.
+   * @param {Function} [options.onProgress] - Called after every write with the totals so far.
+   * @returns {Promise<BulkInsertResult<I>>} - The totals of the import and the rows that could not be inserted.
+   * @throws {Error} Throws an error if the source can not be read or parsed, once the writes in flight have finished.
+   * Failed writes are reported in the result instead.
+   *
+   * @example
+   * const { inserted, failed, errors } = await messages.bulkInsert(fs.createReadStream("messages.csv"), {
+   *   format: "csv",
+   *   columns: { "Channel ID": "channel_id", "Message ID": "id" },
+   *   concurrency: 32,
+   *   onProgress: ({ inserted }) => console.log(`${inserted} messages imported`),
+   * });
+   */
+  public async bulkInsert(source: Iterable<I> | AsyncIterable<I> | Readable, options: BulkInsertOptions<T> = {}): Promise<BulkInsertResult<I>> {
+    const { concurrency = 16, ttl, timestamp, skipLwt = true, batchSize = 20, bufferSize = 1000, retries = 3, retryDelay = 100, prepare, onProgress } = options;
+    const progress: BulkProgress = { read: 0, inserted: 0, skipped: 0, failed: 0, retries: 0 };
+    const errors: BulkInsertError<I>[] = [];
+    const pool = new ConcurrencyPool(concurrency);
+    const partitions = new Map<string, I[]>();
+    let buffered = 0;
+
+    const write = async (rows: I[]) => {
+      const statements = rows.map((row) =>
+        insertStatement(this.table, { data: this.encode(row), ttl, timestamp, ifNotExists: !skipLwt }, this.client.statements)
+      );
+      const projected = this.projections.flatMap((projection) => rows.map((row) => projection.insert(row, { ttl, timestamp })));
+      if (statements.length == 1) return [await this.writeWithProjections(statements, !skipLwt, projected, prepare, "insert")];
+      await this.client.executeBatch([...statements, ...projected], { prepare, logged: projected.length > 0 }, { operation: "insert", model: this });
+      return rows.map((): WriteResult<T> => ({ applied: true }));
+    };
+
+    const submit = (rows: I[]) =>
+      pool.run(async () => {
+        try {
+          const results = await withRetries(() => write(rows), { retries, delay: retryDelay, onRetry: () => progress.retries++ });
+          for (const [i, result] of results.entries()) await this.notifyHooks("afterInsert", rows[i], result, "insert");
+          const inserted = results.filter((result) => result.applied).length;
+          progress.inserted += inserted;
+          progress.skipped += rows.length - inserted;
+        } catch (error) {
+          progress.failed += rows.length;
+          errors.push({ rows, error: error instanceof Error ? error : new Error(String(error)) });
+        }
+        onProgress?.({ ...progress });
+      });
+
+    const flush = async () => {
+      for (const rows of partitions.values()) await submit(rows);
+      partitions.clear();
+      buffered = 0;
+    };
+
+    const rows = options.format ? this.importRows(readRecords(source as AsyncIterable<string | Buffer>, options)) : source;
+    try {
+      for await (const input of rows as AsyncIterable<I>) {
+        progress.read++;
+        const row = await this.pipeHooks("beforeInsert", input, "insert");
+        if (this.client.validation) {
+          try {
+            this.validate(row);
+          } catch (error) {
+            progress.failed++;
+            errors.push({ rows: [row], error: error as ValidationError });
+            onProgress?.({ ...progress });
+            continue;
+          }
+        }
+        if (!skipLwt || batchSize <= 1) {
+          await submit([row]);
+          continue;
+        }
+
+        const partition = this.partitionOf(row) ?? `#${progress.read}`;
+        const group = [...(partitions.get(partition) ?? []), row];
+        buffered++;
+        if (group.length >= batchSize) {
+          partitions.delete(partition);
+          buffered -= group.length;
+          await submit(group);
+        } else partitions.set(partition, group);
+
+        if (buffered >= bufferSize) await flush();
+      }
+
+      await flush();
+    } finally {
+      await pool.drain();
+    }
+
+    return { ...progress, errors };
+  }
+
+  /**
+   * Convert the records of a CSV or NDJSON import to rows, keeping only the columns of the table.
+   * Empty fields are left out instead of writing a null, which would create a tombstone.
+   * @param records The records keyed by column.
+   */
+  private async *importRows(records: AsyncIterable<Record<string, unknown>>): AsyncGenerator<I, void, undefined> {
+    let line = 0;
+    for await (const record of records) {
+      line++;
+      const row: Record<string, unknown> = {};
+
+      for (const [column, value] of Object.entries(record)) {
+        const field = this.schema.definition[column as keyof T];
+        if (!field || value === undefined || value === null) continue;
+        try {
+          row[column] = typeof value == "string" ? parseText(parseFieldType(field.type), value) : value;
+        } catch (error) {
+          throw new Error(`Record ${line} of the import into "${this.name}" has an invalid "${column}": ${error instanceof Error ? error.message : error}`);
+        }
+      }
+
+      yield row as I;
+    }
+  }
+
+  /**
+   * Identify the partition of a row, or undefined if a partition key column is missing.
+   * @param values The values of the partition key columns.
+   */
+  private partitionOf(values: Record<string, unknown>) {
+    const partitionKey = this.primaryKey[0];
+    if (partitionKey.some((column) => values[column] === undefined || values[column] === null)) return undefined;
+    return `${this.table}:${JSON.stringify(partitionKey.map((column) => String(values[column])))}`;
+  }
+
+  /**
+   * Identify the partition selected by where clauses, or undefined if they do not restrict every partition key column with `equals`.
+   * @param where The where clauses.
+   */
+  private partitionOfWhere(where: WhereClause<T, K>[]) {
+    const values: Record<string, unknown> = {};
+    for (const relation of where.map(parseRelation))
+      if (relation.kind == "column" && relation.operator == "equals") values[relation.column] = relation.value;
+    return this.partitionOf(values);
+  }
+
+  /**
+   * Create an insert for {@link Client.batch}.
+   *
+   * @param {I} data - The row to insert.
+   * @param {Object} [options] - Options for the insertion.
+   * @param {number} [options.ttl] - The time to live of the row in seconds. Defaults to the time to live of the batch.
+   * @param {number | Date} [options.timestamp] - The write timestamp of the row, in microseconds or as a `Date`.
+   *
+   * @example
+   * await client.batch().add(messages.batchInsert(message), messagesByAuthor.batchInsert(message)).execute();
+   */
+  public batchInsert(data: I, { ttl, timestamp }: { ttl?: number, timestamp?: number | Date } = {}): BatchOperation {
+    return {
+      table: this.table,
+      partition: this.partitionOf(data),
+      counter: false,
+      statements: (defaults) => {
+        if (this.client.validation) this.validate(data);
+        return [
+          insertStatement(this.table, { data: this.encode(data), ttl: ttl ?? defaults.ttl, timestamp }, this.client.statements),
+          ...this.projections.map((projection) => projection.insert(data, { ttl: ttl ?? defaults.ttl, timestamp })),
+        ];
+      },
+    };
+  }
+
+  /**
+   * Create an update for {@link Client.batch}. Accepts the collection operators of {@link Model.update}.
+   *
+   * @param {Object} options - The update.
+   * @param {UpdateSet<T>} options.$set - The columns to change.
+   * @param {WhereClause<T, K>[]} options.$where - The conditions selecting the rows to update.
+   * @param {number} [options.$ttl] - The time to live of the updated values in seconds. Defaults to the time to live of the batch.
+   * @param {number | Date} [options.$timestamp] - The write timestamp of the update, in microseconds or as a `Date`.
+   */
+  public batchUpdate({ $set, $where, $ttl, $timestamp }: { $set: UpdateSet<T>, $where: WhereClause<T, K>[], $ttl?: number, $timestamp?: number | Date }): BatchOperation {
+    return {
+      table: this.table,
+      partition: this.partitionOfWhere($where),
+      counter: false,
+      statements: (defaults) => {
+        this.checkCollectionOperations($set);
+        if (this.client.validation) this.validateUpdate($set);
+        const [elements, set] = splitElementDeletes(this.encodeSet($set));
+        const where = this.encodeWhere($where);
+        const statements: Statement[] = [];
+
+        if (Object.keys(set).length > 0) statements.push(updateStatement(this.table, { set, where, ttl: $ttl ?? defaults.ttl, timestamp: $timestamp }, this.client.statements));
+        if (elements.length > 0) statements.push(deleteStatement(this.table, { where, timestamp: $timestamp, elements }, this.client.statements));
+        return statements;
+      },
+    };
+  }
+
+  /**
+   * Create a delete for {@link Client.batch}.
+   *
+   * @param {Object} options - The deletion.
+   * @param {WhereClause<T, K>[]} options.$where - The conditions selecting the rows to delete.
+   * @param {number | Date} [options.$timestamp] - The write timestamp of the deletion, in microseconds or as a `Date`.
+   */
+  public batchDelete({ $where, $timestamp }: { $where: WhereClause<T, K>[], $timestamp?: number | Date }): BatchOperation {
+    return {
+      table: this.table,
+      partition: this.partitionOfWhere($where),
+      counter: false,
+      statements: () => [deleteStatement(this.table, { where: this.encodeWhere($where), timestamp: $timestamp }, this.client.statements)],
+    };
+  }
+
+  /**
+   * Create a counter increment for {@link Client.batch}. Counter updates can only be sent in a counter batch.
+   *
+   * @param {Object} options - The increments.
+   * @param {Partial<Record<CounterColumns<T>, number>>} options.$counters - The counter columns and the amount to add to each.
+   * @param {WhereClause<T, K>[]} options.$where - The conditions selecting the row to update.
+   */
+  public batchIncrement({ $counters, $where }: { $counters: Partial<Record<CounterColumns<T>, number>>, $where: WhereClause<T, K>[] }): BatchOperation {
+    return this.batchCounter($counters, $where, 1);
+  }
+
+  /**
+   * Create a counter decrement for {@link Client.batch}. Counter updates can only be sent in a counter batch.
+   *
+   * @param {Object} options - The decrements.
+   * @param {Partial<Record<CounterColumns<T>, number>>} options.$counters - The counter columns and the amount to subtract from each.
+   * @param {WhereClause<T, K>[]} options.$where - The conditions selecting the row to update.
+   */
+  public batchDecrement({ $counters, $where }: { $counters: Partial<Record<CounterColumns<T>, number>>, $where: WhereClause<T, K>[] }): BatchOperation {
+    return this.batchCounter($counters, $where, -1);
+  }
+
+  private batchCounter(counters: Partial<Record<CounterColumns<T>, number>>, where: WhereClause<T, K>[], sign: 1 | -1): BatchOperation {
+    return {
+      table: this.table,
+      partition: this.partitionOfWhere(where),
+      counter: true,
+      statements: () => [this.counterQuery(counters, where, sign)],
+    };
+  }
+
+  /**
+   * Build the `CREATE TABLE IF NOT EXISTS` statement for this model.
+   * @param columns The column definitions to use. Defaults to the columns declared in the schema.
+   * @param keyspace The keyspace the table belongs to. Defaults to the keyspace of the model.
    */
-  public async insert(data: Partial<Record<keyof T, T[keyof T]>>, { prepare }: { prepare?: boolean }) {
-    const columns = Object.keys(data);
-    const values = Object.values(data);
+  public createQuery(
+    columns = (Object.entries(this.schema.definition) as [string, SchemaOptionsField<T>][]).map(
+      ([key, value]) => `${identifier(key)} ${getCqlType(value.type)}${value.static ? " STATIC" : ""}`
+    ),
+    keyspace = this.keyspace
+  ) {
+    const clusteringOrder = this.schema.clusteringOrder;
+    const properties = tableOptionsClause(this.schema.options?.table);
+    if (clusteringOrder.length > 0)
+      properties.unshift(`CLUSTERING ORDER BY (${clusteringOrder.map(([column, order]) => `${identifier(column)} ${order}`).join(", ")})`);
+
+    return `CREATE TABLE IF NOT EXISTS ${qualifiedName(keyspace, this.name)} (
+          ${columns.join(",\n")},
+          PRIMARY KEY ((${this.primaryKey[0].map(identifier).join(", ")})${this.primaryKey[1].length > 0
+        ? `, ${this.primaryKey[1].map(identifier).join(", ")}`
+        : ""
+      })
+        )${properties.length > 0 ? `\n        WITH ${properties.join("\n        AND ")}` : ""};`;
+  }
 
-    await this.client.cassandara.execute(`
-      INSERT INTO ${this.client.cassandara.keyspace}.${this.name} (${columns.join(", ")})
-      VALUES (${columns.map(() => '?').join(", ")})
-      IF NOT EXISTS;
-      `, values, { prepare });
+  /**
+   * Build a `CREATE INDEX IF NOT EXISTS` statement for every index declared in the schema.
+   * @param keyspace The keyspace the table belongs to. Defaults to the keyspace of the model.
+   */
+  public createIndexQueries(keyspace = this.keyspace) {
+    return this.schema.indexes.map((index) => createIndexStatement(keyspace, this.name, index, this.primaryKey[0]));
   }
 
   /**
@@ -486,16 +1489,47 @@ export class Model<T> {
       columns.push(await this.getColumnDefinition(key, value));
     }
 
-    await client.cassandara.execute(
-      `CREATE TABLE IF NOT EXISTS ${client.cassandara.keyspace}.${this.name} (
-          ${columns.join(",\n")},
-          PRIMARY KEY ((${this.primaryKey[0].join(", ")})${this.primaryKey[1].length > 0
-        ? `, ${this.primaryKey[1].join(", ")}`
-        : ""
-      })
-        );`
-    );
+    await client.cassandara.execute(this.createQuery(columns));
+    for (const query of this.createIndexQueries()) await client.cassandara.execute(query);
     client.models.set(this.name, this);
     client.logging.success(`Loaded model \`${this.name}\``);
   }
 }
+
+/**
+ * Create a model whose row types are inferred from its schema definition, instead of declaring an interface that repeats every column.
+ * Partition and clustering columns are required on writes, every other column is optional and nullable.
+ * @param name The name of the table.
+ * @param definition The columns of the table.
+ * @param options The options of the schema.
+ *
+ * @example
+ * const Users = defineModel("users", {
+ *   id: { type: "uuid", partitionKey: true },
+ *   name: { type: "text" },
+ *   tags: { type: "set<text>" },
+ * });
+ *
+ * type User = InferModel<typeof Users>; // { id: string; name: string | null; tags: string[] | null }
+ * await Users.insert({ id: "0d6b4a52-...", name: "Ada" });
+ */
+export function defineModel<const D extends Record<string, SchemaOptionsField<any>>>(
+  name: string,
+  definition: D,
+  options?: SchemaOptions<InferRow<D>>
+) {
+  return new Model<InferRow<D>, InferInsert<D>, Extract<KeyColumns<D>, keyof InferRow<D>>>(
+    name,
+    new Schema(definition as unknown as SchemaDefinition<InferRow<D>>, options)
+  );
+}
+
+/**
+ * The shape of a row of a model.
+ */
+export type InferModel<M> = M extends Model<infer T, any, any> ? T : never;
+
+/**
+ * The shape of a row that can be inserted into a model.
+ */
+export type InferModelInsert<M> = M extends Model<any, infer I, any> ? I : never;
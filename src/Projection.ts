@@ -0,0 +1,140 @@
+import type { Model } from "./Model";
+import { deleteStatement, getCollectionOperator, insertStatement, splitElementDeletes, Statement, updateStatement } from "./Query";
+import type { UpdateSet, WhereClause } from "./types";
+
+export interface ProjectionOptions<T> {
+  /**
+   * The columns copied to the projection. Defaults to every column of the projection that the model has.
+   */
+  columns?: (keyof T)[];
+}
+
+/**
+ * Whether two values of a key column are the same.
+ */
+const sameValue = (a: unknown, b: unknown) =>
+  a instanceof Date && b instanceof Date ? a.getTime() == b.getTime() : a === b || String(a) == String(b);
+
+/**
+ * A table that mirrors the rows of a model under a different primary key, e.g. messages by author next to messages by
+ * channel. Writes of the model generate the statements that keep the projection in sync.
+ */
+export class Projection<T> {
+  /**
+   * The columns copied to the projection.
+   */
+  public readonly columns: string[];
+
+  /**
+   * The primary key of the projection.
+   */
+  public readonly key: string[];
+
+  /**
+   * Use {@link Model.project} instead.
+   * @param source The model whose rows are projected.
+   * @param target The model of the projection.
+   * @param options The columns to copy.
+   * @throws {Error} Throws an error if the projection needs columns the model does not have.
+   */
+  constructor(
+    public readonly source: Model<T, any, any>,
+    public readonly target: Model<any, any, any>,
+    options: ProjectionOptions<T> = {}
+  ) {
+    const sourceColumns = Object.keys(source.schema.definition);
+    const targetColumns = Object.keys(target.schema.definition);
+    this.key = [...target.primaryKey[0], ...target.primaryKey[1]];
+    this.columns = options.columns
+      ? [...new Set([...this.key, ...options.columns.map(String)])]
+      : [...new Set([...this.key, ...targetColumns.filter((column) => sourceColumns.includes(column))])];
+
+    const errors = [
+      ...this.columns.filter((column) => !sourceColumns.includes(column)).map((column) => `"${column}" is not a column of "${source.name}"`),
+      ...this.columns.filter((column) => !targetColumns.includes(column)).map((column) => `"${column}" is not a column of "${target.name}"`),
+    ];
+    if (errors.length > 0) throw new Error(`Can not project "${source.name}" onto "${target.name}": ${errors.join(", ")}`);
+  }
+
+  /**
+   * The values of the projection row of a row.
+   * @param values The values of the row of the model.
+   */
+  public row(values: Partial<T>) {
+    const row = values as Record<string, unknown>;
+    return Object.fromEntries(this.columns.filter((column) => row[column] !== undefined).map((column) => [column, row[column]]));
+  }
+
+  /**
+   * The primary key of the projection row of a row, as where clauses.
+   * @param values The values of the row of the model.
+   * @throws {Error} Throws an error if a key column of the projection is not set.
+   */
+  private where(values: Partial<T>): WhereClause<any>[] {
+    const row = values as Record<string, unknown>;
+    return this.key.map((column) => {
+      if (row[column] === undefined || row[column] === null)
+        throw new Error(`Can not write projection "${this.target.name}" of "${this.source.name}" without key column "${column}"`);
+      return { equals: [column, row[column]] };
+    });
+  }
+
+  /**
+   * Whether two rows of the model have the same projection row.
+   * @param a The values of a row.
+   * @param b The values of another row.
+   */
+  public sameKey(a: Partial<T>, b: Partial<T>) {
+    return this.key.every((column) => sameValue(a[column as keyof T], b[column as keyof T]));
+  }
+
+  /**
+   * Generate the insert of the projection row of a row.
+   * @param values The values of the row of the model.
+   * @param options The time to live and timestamp of the write.
+   */
+  public insert(values: Partial<T>, { ttl, timestamp }: { ttl?: number; timestamp?: number | Date } = {}): Statement {
+    this.where(values);
+    return insertStatement(this.target.table, { data: this.target.encode(this.row(values)), ttl, timestamp }, this.target.client.statements);
+  }
+
+  /**
+   * Generate the deletion of the projection row of a row.
+   * @param values The values of the row of the model.
+   * @param timestamp The timestamp of the deletion.
+   */
+  public delete(values: Partial<T>, timestamp?: number | Date): Statement {
+    return deleteStatement(this.target.table, { where: this.target.encodeWhere(this.where(values)), timestamp }, this.target.client.statements);
+  }
+
+  /**
+   * Generate the statements that apply an update of a row to its projection row. When the update changes a key
+   * column of the projection, the projection row is deleted and inserted again under its new key.
+   * The statements are not conditional, so they are only as current as `values`: a write of the row after it was read is
+   * overwritten in the projection.
+   * @param values The values of the row of the model before the update.
+   * @param set The columns changed by the update.
+   * @param options The time to live and timestamp of the write.
+   * @throws {Error} Throws an error if the key of the projection changes while a projected column is changed by a collection operator.
+   */
+  public update(values: Partial<T>, set: UpdateSet<T>, { ttl, timestamp }: { ttl?: number; timestamp?: number | Date } = {}): Statement[] {
+    const changes = Object.entries(set).filter(([column]) => this.columns.includes(column));
+    if (changes.length < 1) return [];
+
+    const moved = changes.some(([column, value]) => this.key.includes(column) && !sameValue(value, (values as Record<string, unknown>)[column]));
+    if (moved) {
+      const operation = changes.find(([, value]) => getCollectionOperator(value));
+      if (operation)
+        throw new Error(`Can not move the row of projection "${this.target.name}" to a new key while "${operation[0]}" is changed with a collection operator`);
+      const kept = Object.entries(values).filter(([, value]) => value !== null);
+      return [this.delete(values, timestamp), this.insert({ ...Object.fromEntries(kept), ...Object.fromEntries(changes) } as Partial<T>, { ttl, timestamp })];
+    }
+
+    const [elements, rest] = splitElementDeletes(this.target.encodeSet(Object.fromEntries(changes)));
+    const where = this.target.encodeWhere(this.where(values));
+    const statements: Statement[] = [];
+    if (Object.keys(rest).length > 0) statements.push(updateStatement(this.target.table, { set: rest, where, ttl, timestamp }, this.target.client.statements));
+    if (elements.length > 0) statements.push(deleteStatement(this.target.table, { where, timestamp, elements }, this.target.client.statements));
+    return statements;
+  }
+}
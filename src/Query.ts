@@ -0,0 +1,1265 @@
+import { types } from "cassandra-driver";
+import type { BatchOperation } from "./Batch";
+import { Client } from "./Client";
+import type { ExecutionTarget } from "./Hooks";
+import { identifier, qualifiedName, storedName } from "./Identifier";
+import type { Model } from "./Model";
+import { IndexKind, IndexOptions, SortOrder, TableOptions } from "./Schema";
+import type { StatementCache } from "./StatementCache";
+import { CqlType, formatType, unfreeze } from "./TypeParser";
+import { Aggregate, CollectionElement, SelectOptions, TokenOperator, TupleOperator, UpdateSet, WhereClause } from "./types";
+
+/**
+ * A generated CQL statement with its bound parameters.
+ */
+export interface Statement {
+  query: string;
+  params: any[];
+}
+
+/**
+ * A single page of rows.
+ */
+export interface Page<T> {
+  rows: T[];
+  /**
+   * Pass this to the next call to continue where this page ended. Undefined on the last page.
+   */
+  nextPageState?: string;
+}
+
+export interface PageOptions {
+  /**
+   * The maximum number of rows per page.
+   */
+  fetchSize?: number;
+  /**
+   * The page state returned by the previous page.
+   */
+  pageState?: string;
+  prepare?: boolean;
+}
+
+/**
+ * An inclusive-exclusive range of partition tokens: `token(pk) > start AND token(pk) <= end`.
+ */
+export type TokenRange = [types.Long, types.Long];
+
+/**
+ * The outcome of a write.
+ */
+export interface WriteResult<T> {
+  /**
+   * Whether the write happened. Always `true` for writes without a lightweight transaction.
+   */
+  applied: boolean;
+  /**
+   * The current values of the row when a lightweight transaction was not applied.
+   */
+  current?: Partial<T>;
+}
+
+export interface SelectStatementOptions<T> {
+  columns?: (keyof T)[];
+  where: WhereClause<T>[];
+  orderBy?: [keyof T, SortOrder][];
+  limit?: number;
+  /**
+   * The maximum number of rows returned per partition.
+   */
+  perPartitionLimit?: number;
+  /**
+   * Only return distinct partitions. The selected columns must be partition key or static columns.
+   */
+  distinct?: boolean;
+  groupBy?: (keyof T)[];
+  /**
+   * The aggregates to select, keyed by their alias.
+   */
+  aggregates?: Record<string, Aggregate<T>>;
+  allowFiltering?: boolean;
+}
+
+// The negated operators need Cassandra 5.1 and `ALLOW FILTERING` in a `WHERE` clause. `!=` is always accepted in `IF` conditions.
+const conditionHandlers: Record<string, (key: string) => string> = {
+  equals: (k) => `${k}=?`,
+  notEquals: (k) => `${k}!=?`,
+  in: (k) => `${k} IN ?`,
+  notIn: (k) => `${k} NOT IN ?`,
+  greaterThanOrEqual: (k) => `${k}>=?`,
+  lessThanOrEqual: (k) => `${k}<=?`,
+  moreThan: (k) => `${k}>?`,
+  lessThan: (k) => `${k}<?`,
+  contains: (k) => `${k} CONTAINS ?`,
+  notContains: (k) => `${k} NOT CONTAINS ?`,
+};
+
+const tupleOperators = ["equals", "greaterThanOrEqual", "lessThanOrEqual", "moreThan", "lessThan", "in"] as const;
+const tokenOperators = ["equals", "greaterThanOrEqual", "lessThanOrEqual", "moreThan", "lessThan"] as const;
+
+/**
+ * A where clause split into its kind, operator, columns and value.
+ */
+export type Relation =
+  | { kind: "column"; operator: string; column: string; value: any }
+  | { kind: "tuple"; operator: string; columns: string[]; value: any }
+  | { kind: "token"; operator: string; columns: string[]; value: any };
+
+/**
+ * Split a where clause into its kind, operator, columns and value.
+ * @param condition The where clause.
+ */
+export const parseRelation = <T>(condition: WhereClause<T>): Relation => {
+  const [operator, args] = Object.entries(condition)[0] as [string, any[]];
+  if (operator == "token") return { kind: "token", operator: args[1], columns: (args[0] as PropertyKey[]).map(String), value: args[2] };
+  if (Array.isArray(args[0])) return { kind: "tuple", operator, columns: (args[0] as PropertyKey[]).map(String), value: args[1] };
+  return { kind: "column", operator, column: String(args[0]), value: args[1] };
+};
+
+const toTuple = (value: any) => (value instanceof types.Tuple ? value : types.Tuple.fromArray(value));
+
+/**
+ * Convert the value of a relation to its bound parameter.
+ */
+const relationParam = (relation: Relation) => {
+  switch (relation.kind) {
+    case "token":
+      return relation.value instanceof types.Long ? relation.value : types.Long.fromString(String(relation.value));
+    case "tuple":
+      return relation.operator == "in" ? (relation.value as any[]).map(toTuple) : toTuple(relation.value);
+    default:
+      return relation.value;
+  }
+};
+
+/**
+ * Get the parameters of where clauses, in the order of their bind markers.
+ * @param where The where clauses.
+ */
+export const whereParams = <T>(where: WhereClause<T>[]) => where.map((condition) => relationParam(parseRelation(condition)));
+
+/**
+ * The columns and operators of where clauses, without their values.
+ */
+const whereShape = <T>(where: WhereClause<T>[] = []) =>
+  where.map((condition) => {
+    const relation = parseRelation(condition);
+    return [relation.kind, relation.operator, relation.kind == "column" ? relation.column : relation.columns];
+  });
+
+/**
+ * Generate a statement, or reuse the CQL generated for the same shape.
+ * @param cache The statement cache of the client. Always generates the statement when undefined.
+ * @param shape Everything the CQL depends on besides the bound values.
+ * @param build Generates the statement.
+ * @param params Gets the parameters of the statement when its CQL is reused.
+ */
+const memoize = (cache: StatementCache | undefined, shape: unknown[], build: () => Statement, params: () => any[]): Statement =>
+  cache ? cache.statement(JSON.stringify(shape), build, params) : build();
+
+/**
+ * Compile where clauses into CQL conditions and their parameters.
+ * @param where The where clauses to compile.
+ */
+export const buildWhere = <T>(where: WhereClause<T>[]): [string[], any[]] => {
+  const conditions: [string[], any[]] = [[], []];
+
+  for (const condition of where) {
+    const relation = parseRelation(condition);
+    const handler = conditionHandlers[relation.operator];
+    if (!handler) throw new Error(`Unsupported where operator: ${relation.operator}`);
+
+    switch (relation.kind) {
+      case "token":
+        if (!(tokenOperators as readonly string[]).includes(relation.operator))
+          throw new Error(`Unsupported token operator: ${relation.operator}`);
+        conditions[0].push(handler(`token(${relation.columns.map(identifier).join(", ")})`));
+        break;
+      case "tuple":
+        if (!(tupleOperators as readonly string[]).includes(relation.operator))
+          throw new Error(`Unsupported multi-column operator: ${relation.operator}`);
+        conditions[0].push(handler(`(${relation.columns.map(identifier).join(", ")})`));
+        break;
+      default:
+        conditions[0].push(handler(identifier(relation.column)));
+    }
+    conditions[1].push(relationParam(relation));
+  }
+
+  return conditions;
+};
+
+const numericTypes = ["bigint", "counter", "decimal", "double", "float", "int", "smallint", "tinyint", "varint"];
+
+/**
+ * Get the declared fields of a user defined type and their parsed types, or `undefined` if the type is unknown.
+ */
+export type UDTFieldTypes = (name: string) => Record<string, CqlType> | undefined;
+
+/**
+ * Render a value as a CQL literal of the given type.
+ * @param type The parsed CQL type of the value.
+ * @param value The value.
+ * @param udtFields Get the fields of the user defined types the value contains.
+ * @throws {Error} Throws an error if the value can not be represented as a literal of the type.
+ */
+export const cqlLiteral = (type: CqlType, value: any, udtFields?: UDTFieldTypes): string => {
+  if (value === null || value === undefined) return "NULL";
+
+  const fail = (): never => {
+    throw new Error(`Can not render ${JSON.stringify(value)} as a ${formatType(type)} literal`);
+  };
+
+  switch (type.kind) {
+    case "frozen":
+      return cqlLiteral(type.inner, value, udtFields);
+    case "list":
+    case "vector":
+      return `[${Array.from(value as Iterable<any>, (element) => cqlLiteral(type.element, element, udtFields)).join(", ")}]`;
+    case "set":
+      return `{${Array.from(value as Iterable<any>, (element) => cqlLiteral(type.element, element, udtFields)).join(", ")}}`;
+    case "map": {
+      const entries: [any, any][] = value instanceof Map ? Array.from(value) : Object.entries(value);
+      return `{${entries.map(([k, v]) => `${cqlLiteral(type.key, k, udtFields)}: ${cqlLiteral(type.value, v, udtFields)}`).join(", ")}}`;
+    }
+    case "tuple":
+      return `(${(value as any[]).map((element, i) => cqlLiteral(type.elements[i], element, udtFields)).join(", ")})`;
+    case "udt": {
+      const fields = udtFields?.(type.name);
+      if (!fields) throw new Error(`Can not render a literal of the unknown user defined type "${type.name}"`);
+      if (typeof value != "object" || Array.isArray(value)) return fail();
+      return `{${Object.entries(value).map(([k, v]) => {
+        const field = Object.keys(fields).find((name) => storedName(name) == storedName(k));
+        if (!field) throw new Error(`"${k}" is not a field of user defined type "${type.name}"`);
+        return `${identifier(field)}: ${cqlLiteral(fields[field], v, udtFields)}`;
+      }).join(", ")}}`;
+    }
+  }
+
+  const name = type.name;
+  if (numericTypes.includes(name)) {
+    const text = String(value);
+    return /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(text) ? text : fail();
+  }
+  if (name == "boolean") return typeof value == "boolean" ? String(value) : fail();
+  if (name == "uuid" || name == "timeuuid") {
+    const text = String(value);
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(text) ? text : fail();
+  }
+  if (name == "blob") return Buffer.isBuffer(value) ? `0x${value.toString("hex")}` : fail();
+  if (name == "timestamp" && value instanceof Date) return stringLiteral(value.toISOString());
+  return stringLiteral(String(value));
+};
+
+/**
+ * Compile where clauses into CQL conditions with their values inlined, for statements that do not accept bind markers.
+ * @param where The where clauses to compile.
+ * @param typeOf Get the CQL type of a column.
+ * @param udtFields Get the fields of the user defined types the values contain.
+ */
+export const buildLiteralWhere = <T>(where: WhereClause<T>[], typeOf: (column: string) => CqlType, udtFields?: UDTFieldTypes) => {
+  const [conditions, params] = buildWhere(where);
+  return conditions.map((condition, i) => {
+    const relation = parseRelation(where[i]);
+    if (relation.kind != "column") throw new Error(`Only single column relations can be inlined, found a ${relation.kind} relation`);
+    const { operator } = relation;
+    const type = typeOf(relation.column);
+    const literal = operator == "in" || operator == "notIn"
+      ? `(${(params[i] as any[]).map((element) => cqlLiteral(type, element, udtFields)).join(", ")})`
+      : cqlLiteral(operator == "contains" || operator == "notContains" ? elementOf(type) : type, params[i], udtFields);
+    return condition.replace("?", () => literal);
+  });
+};
+
+const elementOf = (type: CqlType): CqlType => {
+  const collection = unfreeze(type);
+  switch (collection.kind) {
+    case "list":
+    case "set":
+    case "vector":
+      return collection.element;
+    case "map":
+      return collection.value;
+  }
+  return collection;
+};
+
+const aggregateFunctions = ["count", "min", "max", "sum", "avg"];
+
+/**
+ * Check the direction of an ordering, because it is rendered into the query.
+ * @throws {Error} Throws an error if the direction is not `ASC` or `DESC`.
+ */
+const sortOrder = (order: SortOrder) => {
+  if (order != "ASC" && order != "DESC") throw new Error(`Unsupported sort order: ${order}`);
+  return order;
+};
+
+const whereClause = (conditions: string[]) =>
+  conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+/**
+ * Convert a number bound to a clause that only takes integers, such as a limit. Fractions are rounded down.
+ * @param name What the number is, used in the error.
+ * @param value The number.
+ * @param min The smallest accepted value.
+ * @throws {Error} Throws an error if the value is not a finite number or is smaller than `min` once rounded down.
+ */
+const integerValue = (name: string, value: unknown, min: number) => {
+  if (typeof value != "number" || !Number.isFinite(value)) throw new Error(`${name} must be a finite number, got ${String(value)}`);
+  const integer = Math.floor(value);
+  if (integer < min) throw new Error(`${name} must be at least ${min}, got ${value}`);
+  return integer;
+};
+
+const limitClause = (limit?: number, clause = "LIMIT") => (limit !== undefined ? `${clause} ?` : "");
+
+const limitParams = (limit?: number, name = "The limit") => (limit !== undefined ? [integerValue(name, limit, 1)] : []);
+
+/**
+ * Convert a write timestamp to microseconds since the epoch.
+ * @param timestamp A `Date` or a number of microseconds.
+ * @throws {Error} Throws an error if the timestamp is not a valid date or a finite number.
+ */
+const toMicroseconds = (timestamp: number | Date) =>
+  integerValue("The timestamp", timestamp instanceof Date ? timestamp.getTime() * 1000 : timestamp, -Infinity);
+
+const usingClause = ({ ttl, timestamp }: { ttl?: number; timestamp?: number | Date }) => {
+  const parts: string[] = [];
+  if (ttl !== undefined) parts.push("TTL ?");
+  if (timestamp !== undefined) parts.push("TIMESTAMP ?");
+  return parts.length > 0 ? `USING ${parts.join(" AND ")}` : "";
+};
+
+const usingParams = ({ ttl, timestamp }: { ttl?: number; timestamp?: number | Date }) => [
+  ...(ttl === undefined ? [] : [integerValue("The time to live", ttl, 0)]),
+  ...(timestamp === undefined ? [] : [types.Long.fromNumber(toMicroseconds(timestamp))]),
+];
+
+const ifClause = <T>({ ifExists, conditions }: { ifExists?: boolean; conditions?: WhereClause<T>[] }): [string, any[]] => {
+  if (conditions && conditions.length > 0) {
+    const [lwt, params] = buildWhere(conditions);
+    return [`IF ${lwt.join(" AND ")}`, params];
+  }
+  return [ifExists ? "IF EXISTS" : "", []];
+};
+
+const ifParams = <T>(conditions?: WhereClause<T>[]) => (conditions && conditions.length > 0 ? whereParams(conditions) : []);
+
+/**
+ * The collection operators accepted in the values of an update.
+ */
+export const collectionOperators = ["$append", "$prepend", "$addToSet", "$remove", "$putKey", "$removeKey", "$setIndex", "$deleteIndex"] as const;
+
+export type CollectionOperator = typeof collectionOperators[number];
+
+/**
+ * Get the collection operator of an update value, if it is one.
+ * @param value The value of a column in an update.
+ */
+export const getCollectionOperator = (value: unknown): [CollectionOperator, any] | undefined => {
+  if (typeof value != "object" || value === null || Array.isArray(value) || value instanceof Set || value instanceof Map) return;
+  const entries = Object.entries(value);
+  if (entries.length != 1 || !collectionOperators.includes(entries[0][0] as CollectionOperator)) return;
+  return entries[0] as [CollectionOperator, any];
+};
+
+const setHandlers: Record<Exclude<CollectionOperator, "$deleteIndex">, (k: string, v: any) => [string, any[]]> = {
+  $append: (k, v) => [`${k} = ${k} + ?`, [v]],
+  $prepend: (k, v) => [`${k} = ? + ${k}`, [v]],
+  $addToSet: (k, v) => [`${k} = ${k} + ?`, [v]],
+  $remove: (k, v) => [`${k} = ${k} - ?`, [v]],
+  $putKey: (k, v) => Array.isArray(v) ? [`${k}[?] = ?`, v] : [`${k} = ${k} + ?`, [v]],
+  $removeKey: (k, v) => [`${k} = ${k} - ?`, [v]],
+  $setIndex: (k, v) => [`${k}[?] = ?`, v],
+};
+
+/**
+ * Compile the values of an update into CQL assignments and their parameters.
+ * @param set The columns to change.
+ */
+const buildSet = <T>(set: UpdateSet<T>): [string[], any[]] => {
+  const assignments: [string[], any[]] = [[], []];
+
+  for (const [k, v] of Object.entries(set)) {
+    const operation = getCollectionOperator(v);
+    if (operation && operation[0] == "$deleteIndex")
+      throw new Error(`"$deleteIndex" on "${k}" has to be executed as a DELETE statement`);
+
+    const column = identifier(k);
+    const [assignment, params] = operation
+      ? setHandlers[operation[0] as Exclude<CollectionOperator, "$deleteIndex">](column, operation[1])
+      : [`${column}=?`, [v]];
+    assignments[0].push(assignment);
+    assignments[1].push(...params);
+  }
+
+  return assignments;
+};
+
+/**
+ * Get the parameters of the values of an update, in the order of their bind markers.
+ * @param set The columns to change.
+ */
+const setParams = <T>(set: UpdateSet<T>) =>
+  Object.values(set).reduce<any[]>((params, v) => {
+    const operation = getCollectionOperator(v);
+    if (!operation) return [...params, v];
+    return operation[0] == "$setIndex" || (operation[0] == "$putKey" && Array.isArray(operation[1]))
+      ? [...params, ...operation[1]]
+      : [...params, operation[1]];
+  }, []);
+
+/**
+ * The columns and operators of an update, without their values.
+ */
+const setShape = <T>(set: UpdateSet<T>) =>
+  Object.entries(set).map(([k, v]) => {
+    const operation = getCollectionOperator(v);
+    return [k, operation?.[0], operation?.[0] == "$putKey" && Array.isArray(operation[1])];
+  });
+
+/**
+ * Split the `$deleteIndex` operations out of an update, because they compile to `DELETE col[?]`.
+ * @param set The columns to change.
+ * @returns The elements to delete and the remaining columns to set.
+ */
+export const splitElementDeletes = <T>(set: UpdateSet<T>): [[string, any][], UpdateSet<T>] => {
+  const elements: [string, any][] = [];
+  const rest: Record<string, unknown> = {};
+
+  for (const [k, v] of Object.entries(set)) {
+    const operation = getCollectionOperator(v);
+    if (operation && operation[0] == "$deleteIndex") elements.push([k, operation[1]]);
+    else rest[k] = v;
+  }
+
+  return [elements, rest as UpdateSet<T>];
+};
+
+/**
+ * Read the outcome of a write. Writes without a lightweight transaction are always applied.
+ * @param data The result of the write.
+ * @param decode Converts the current values of the row when the write was not applied.
+ */
+export const writeResult = <T>(
+  data: types.ResultSet,
+  decode: (row: types.Row) => Partial<T> = (row) => Object.fromEntries(row.keys().map((key) => [key, row.get(key)])) as Partial<T>
+): WriteResult<T> => {
+  const row = data.rows[0];
+  if (!row || !row.keys().includes("[applied]")) return { applied: true };
+
+  const applied = row.get("[applied]") as boolean;
+  if (applied) return { applied };
+
+  const current = decode(row) as Record<string, unknown>;
+  delete current["[applied]"];
+  return { applied, current: Object.keys(current).length > 0 ? current as Partial<T> : undefined };
+};
+
+/**
+ * Render a CQL string literal.
+ * @param value The string.
+ */
+export const stringLiteral = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+
+const optionValue = (value: unknown): string => {
+  if (typeof value == "string") return stringLiteral(value);
+  if (typeof value == "object" && value !== null)
+    return `{${Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .map(([key, entry]) => `${stringLiteral(key)}: ${stringLiteral(String(entry))}`)
+      .join(", ")}}`;
+  if (typeof value == "boolean" || (typeof value == "number" && Number.isFinite(value))) return String(value);
+  throw new Error(`Can not render ${JSON.stringify(value)} as an option value`);
+};
+
+/**
+ * Render table properties as the assignments of a `WITH` clause.
+ * @param options The table properties.
+ */
+export const tableOptionsClause = (options: TableOptions = {}) =>
+  Object.entries(options)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => {
+      if (!/^[a-z_]+$/.test(name)) throw new Error(`Invalid table property: ${name}`);
+      return `${name} = ${optionValue(value)}`;
+    });
+
+const indexClasses: Partial<Record<IndexKind, string>> = {
+  sai: "StorageAttachedIndex",
+  sasi: "org.apache.cassandra.index.sasi.SASIIndex",
+};
+
+/**
+ * Get the name of an index.
+ * @param table The name of the table, without keyspace.
+ * @param index The index.
+ */
+export const indexName = <T>(table: string, index: IndexOptions<T>) =>
+  index.name ?? `${table}_${index.column.toString()}_idx`;
+
+/**
+ * Get the indexed expression of an index as it is stored in the `target` option of `system_schema.indexes`, e.g. `keys(tags)`.
+ * @param index The index.
+ */
+export const indexTarget = <T>(index: IndexOptions<T>) =>
+  index.target ? `${index.target}(${identifier(index.column)})` : identifier(index.column);
+
+/**
+ * Get the class of a custom index, or `undefined` for built-in indexes.
+ * @param index The index.
+ */
+export const indexClass = <T>(index: IndexOptions<T>) => indexClasses[index.using ?? "secondary"];
+
+/**
+ * Generate a `CREATE INDEX IF NOT EXISTS` statement.
+ * @param keyspace The keyspace of the table.
+ * @param table The name of the table, without keyspace.
+ * @param index The index.
+ * @param partitionKey The partition key of the table, used by local indexes.
+ */
+export const createIndexStatement = <T>(keyspace: string, table: string, index: IndexOptions<T>, partitionKey: string[]) => {
+  const className = indexClass(index);
+  const target = index.using == "local" ? `(${partitionKey.map(identifier).join(", ")}), ${indexTarget(index)}` : indexTarget(index);
+  const options = className && index.options && Object.keys(index.options).length > 0
+    ? ` WITH OPTIONS = ${optionValue(index.options)}`
+    : "";
+
+  return `CREATE ${className ? "CUSTOM " : ""}INDEX IF NOT EXISTS ${identifier(indexName(table, index))} ON ${qualifiedName(keyspace, table)} (${target})${className ? ` USING ${stringLiteral(className)}` : ""}${options};`;
+};
+
+const rangeOperators = ["greaterThanOrEqual", "lessThanOrEqual", "moreThan", "lessThan"];
+
+/**
+ * Find the condition that makes a query require `ALLOW FILTERING`.
+ * @param table The primary key and indexes of the table.
+ * @param where The where clauses of the query.
+ * @returns Why the query needs `ALLOW FILTERING`, or `undefined` if it can be served by the primary key and indexes.
+ */
+export const filteringReason = <T>(
+  { partitionKey, clusteringKey, indexes }: { partitionKey: string[]; clusteringKey: string[]; indexes: IndexOptions<T>[] },
+  where: WhereClause<T>[]
+): string | undefined => {
+  const relations = where.map(parseRelation);
+  const conditions = relations.flatMap((relation) => (relation.kind == "column" ? [relation] : []));
+  const restricted = (column: string) => conditions.filter((condition) => condition.column == column);
+
+  const indexFor = ({ operator, column }: { operator: string; column: string }) =>
+    indexes.find((index) => {
+      if (index.column.toString() != column) return false;
+      const using = index.using ?? "secondary";
+      const collection = index.target == "values" || index.target == "keys" || index.target == "entries";
+      if (operator == "contains") return collection && index.target != "keys" && index.target != "entries";
+      if (collection) return false;
+      if (operator == "equals") return true;
+      if (operator == "in") return using == "sai";
+      if (rangeOperators.includes(operator)) return using == "sai" || using == "sasi";
+      return false;
+    });
+
+  const negated = conditions.find(({ operator }) => operator == "notEquals" || operator == "notIn" || operator == "notContains");
+  if (negated) return `"${negated.column}" uses "${negated.operator}", which can not be served by the primary key or an index`;
+
+  const partitionRestricted = partitionKey.every((column) => {
+    const restrictions = restricted(column);
+    return restrictions.length > 0 && restrictions.every(({ operator }) => operator == "equals" || operator == "in");
+  });
+
+  const indexed = conditions.filter((condition) => indexFor(condition));
+  if (indexed.filter((condition) => (indexFor(condition)!.using ?? "secondary") != "sai").length > 1)
+    return `only one secondary index can be used per query, but "${indexed.map(({ column }) => column).join('", "')}" are all indexed`;
+
+  for (const column of partitionKey)
+    for (const condition of restricted(column))
+      if (!partitionRestricted && !indexFor(condition))
+        return `partition key column "${column}" is restricted without restricting every partition key column with "equals" or "in"`;
+
+  const tuple = relations.find((relation): relation is Extract<Relation, { kind: "tuple" }> => relation.kind == "tuple");
+  if (tuple && !partitionRestricted)
+    return `clustering columns (${tuple.columns.join(", ")}) are restricted without restricting the partition key`;
+
+  let prefixEnded = false;
+  for (const column of clusteringKey) {
+    const restrictions = restricted(column);
+    if (restrictions.length < 1) {
+      prefixEnded = true;
+      continue;
+    }
+    for (const condition of restrictions) {
+      if (indexFor(condition)) continue;
+      if (!partitionRestricted) return `clustering column "${column}" is restricted without restricting the partition key`;
+      if (prefixEnded) return `clustering column "${column}" is restricted but a preceding clustering column is not restricted with "equals" or "in"`;
+      if (condition.operator == "contains") return `clustering column "${column}" uses "contains" without an index`;
+    }
+    if (restrictions.some(({ operator }) => rangeOperators.includes(operator))) prefixEnded = true;
+  }
+
+  for (const condition of conditions) {
+    if (partitionKey.includes(condition.column) || clusteringKey.includes(condition.column)) continue;
+    if (!indexFor(condition)) return `"${condition.column}" is not part of the primary key and has no index that supports "${condition.operator}"`;
+  }
+
+  return undefined;
+};
+
+/**
+ * Generate a `SELECT` statement.
+ * @param table The fully qualified table name.
+ * @param options The columns, conditions, ordering and limit of the statement.
+ * @param cache Reuses the CQL generated for statements of the same shape.
+ */
+export const selectStatement = <T>(
+  table: string,
+  { columns, where, orderBy, limit, perPartitionLimit, distinct, groupBy, aggregates, allowFiltering }: SelectStatementOptions<T>,
+  cache?: StatementCache
+): Statement => memoize(cache, ["select", table, columns, whereShape(where), orderBy, limit !== undefined, perPartitionLimit !== undefined, distinct, groupBy, aggregates, allowFiltering], () => {
+  const [conditions, params] = buildWhere(where);
+  const selected = [
+    ...(columns ?? []).map(identifier),
+    ...Object.entries(aggregates ?? {}).map(([alias, aggregate]) => {
+      const [fn, column] = Object.entries(aggregate)[0];
+      if (!aggregateFunctions.includes(fn)) throw new Error(`Unsupported aggregate: ${fn}`);
+      return `${fn}(${fn == "count" && column == "*" ? "*" : identifier(column as keyof T)}) AS ${identifier(alias)}`;
+    }),
+  ];
+  const orderClause =
+    orderBy && orderBy.length > 0
+      ? `ORDER BY ${orderBy.map(([column, order]) => `${identifier(column)} ${sortOrder(order)}`).join(", ")}`
+      : "";
+
+  return {
+    query: `
+      SELECT ${distinct ? "DISTINCT " : ""}${selected.length > 0 ? selected.join(", ") : "*"}
+      FROM ${table}
+      ${whereClause(conditions)}
+      ${groupBy && groupBy.length > 0 ? `GROUP BY ${groupBy.map(identifier).join(", ")}` : ""}
+      ${orderClause}
+      ${limitClause(perPartitionLimit, "PER PARTITION LIMIT")}
+      ${limitClause(limit)}
+      ${allowFiltering ? "ALLOW FILTERING" : ""};`,
+    params: [...params, ...limitParams(perPartitionLimit, "The per partition limit"), ...limitParams(limit)],
+  };
+}, () => [...whereParams(where), ...limitParams(perPartitionLimit, "The per partition limit"), ...limitParams(limit)]);
+
+/**
+ * Generate a `SELECT` statement that reads every partition in a token range.
+ * @param table The fully qualified table name.
+ * @param options The columns to select and the partition key of the table.
+ */
+export const scanStatement = <T>(
+  table: string,
+  { columns, partitionKey }: { columns?: (keyof T)[]; partitionKey: string[] }
+) => {
+  const token = `token(${partitionKey.map(identifier).join(", ")})`;
+
+  return `
+      SELECT ${columns && columns.length > 0 ? columns.map(identifier).join(", ") : "*"}
+      FROM ${table}
+      WHERE ${token} > ? AND ${token} <= ?;`;
+};
+
+/**
+ * Split the Murmur3 token ring into contiguous ranges of roughly equal size.
+ * @param splits The number of ranges.
+ */
+export const splitTokenRing = (splits: number): TokenRange[] => {
+  const count = Math.max(1, Math.floor(splits));
+  const step = types.Long.MAX_VALUE.div(count).multiply(2);
+  const ranges: TokenRange[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const start = types.Long.MIN_VALUE.add(step.multiply(i));
+    const end = i == count - 1 ? types.Long.MAX_VALUE : types.Long.MIN_VALUE.add(step.multiply(i + 1));
+    ranges.push([start, end]);
+  }
+
+  return ranges;
+};
+
+/**
+ * Execute a statement and return a single page of its rows.
+ * @param client Better Cassandra Client.
+ * @param statement The statement to execute.
+ * @param options The page size and state.
+ * @param decode Converts each row returned by the driver.
+ * @param target The operation and model or view the statement was generated for.
+ */
+export const executePage = async <T>(
+  client: Client,
+  { query, params }: Statement,
+  { fetchSize, pageState, prepare }: PageOptions,
+  decode: (row: types.Row) => T = (row) => row as unknown as T,
+  target: ExecutionTarget = {}
+): Promise<Page<T>> => {
+  const data = await client.execute(query, params, { prepare, fetchSize, pageState }, target);
+
+  return {
+    rows: data.rows.map(decode),
+    nextPageState: data.pageState ?? undefined,
+  };
+};
+
+/**
+ * Execute a statement and yield its rows, fetching one page at a time.
+ * @param client Better Cassandra Client.
+ * @param statement The statement to execute.
+ * @param options The page size and the state to start from.
+ * @param decode Converts each row returned by the driver.
+ * @param target The operation and model or view the statement was generated for.
+ */
+export async function* iteratePages<T>(
+  client: Client,
+  statement: Statement,
+  options: PageOptions,
+  decode?: (row: types.Row) => T,
+  target: ExecutionTarget = {}
+): AsyncGenerator<T, void, undefined> {
+  let pageState = options.pageState;
+
+  do {
+    const page = await executePage<T>(client, statement, { ...options, pageState }, decode, target);
+    yield* page.rows;
+    pageState = page.nextPageState;
+  } while (pageState);
+}
+
+/**
+ * Generate a `SELECT COUNT(*)` statement.
+ * @param table The fully qualified table name.
+ * @param options The conditions and limit of the statement.
+ * @param cache Reuses the CQL generated for statements of the same shape.
+ */
+export const countStatement = <T>(
+  table: string,
+  { where, limit, allowFiltering }: { where: WhereClause<T>[]; limit?: number; allowFiltering?: boolean },
+  cache?: StatementCache
+): Statement => memoize(cache, ["count", table, whereShape(where), limit !== undefined, allowFiltering], () => {
+  const [conditions, params] = buildWhere(where);
+
+  return {
+    query: `
+      SELECT COUNT(*)
+      FROM ${table}
+      ${whereClause(conditions)}
+      ${limitClause(limit)}
+      ${allowFiltering ? "ALLOW FILTERING" : ""};`,
+    params: [...params, ...limitParams(limit)],
+  };
+}, () => [...whereParams(where), ...limitParams(limit)]);
+
+/**
+ * Generate a `DELETE` statement.
+ * @param table The fully qualified table name.
+ * @param options The conditions, limit, write timestamp and lightweight transaction conditions of the statement,
+ * and the collection elements to delete instead of the whole row.
+ * @param cache Reuses the CQL generated for statements of the same shape.
+ */
+export const deleteStatement = <T>(
+  table: string,
+  { where, limit, timestamp, ifExists, conditions: ifConditions, elements = [] }: { where: WhereClause<T>[]; limit?: number; timestamp?: number | Date; ifExists?: boolean; conditions?: WhereClause<T>[]; elements?: [string, any][] },
+  cache?: StatementCache
+): Statement => memoize(cache, [
+  "delete", table, elements.map(([column]) => column), whereShape(where), limit !== undefined, timestamp !== undefined, ifExists, whereShape(ifConditions),
+], () => {
+  const [conditions, params] = buildWhere(where);
+  const [lwt, lwtParams] = ifClause({ ifExists, conditions: ifConditions });
+
+  return {
+    query: `
+      DELETE ${elements.map(([column]) => `${identifier(column)}[?]`).join(", ")} FROM ${table}
+      ${usingClause({ timestamp })}
+      ${whereClause(conditions)}
+      ${limitClause(limit)}
+      ${lwt};`,
+    params: [...elements.map(([, element]) => element), ...usingParams({ timestamp }), ...params, ...limitParams(limit), ...lwtParams],
+  };
+}, () => [...elements.map(([, element]) => element), ...usingParams({ timestamp }), ...whereParams(where), ...limitParams(limit), ...ifParams(ifConditions)]);
+
+/**
+ * Generate an `UPDATE` statement.
+ * @param table The fully qualified table name.
+ * @param options The values to set (or collection operators to apply), the conditions, the time to live and write timestamp and the lightweight transaction conditions.
+ * @param cache Reuses the CQL generated for statements of the same shape.
+ */
+export const updateStatement = <T>(
+  table: string,
+  { set, where, limit, ttl, timestamp, ifExists, conditions: ifConditions }: { set: UpdateSet<T>; where: WhereClause<T>[]; limit?: number; ttl?: number; timestamp?: number | Date; ifExists?: boolean; conditions?: WhereClause<T>[] },
+  cache?: StatementCache
+): Statement => memoize(cache, [
+  "update", table, setShape(set), whereShape(where), limit !== undefined, ttl !== undefined, timestamp !== undefined, ifExists, whereShape(ifConditions),
+], () => {
+  const [conditions, params] = buildWhere(where);
+  const [lwt, lwtParams] = ifClause({ ifExists, conditions: ifConditions });
+  const [assignments, assignmentParams] = buildSet(set);
+
+  return {
+    query: `
+      UPDATE ${table}
+      ${usingClause({ ttl, timestamp })}
+      SET ${assignments.join(", ")}
+      ${whereClause(conditions)}
+      ${limitClause(limit)}
+      ${lwt};`,
+    params: [...usingParams({ ttl, timestamp }), ...assignmentParams, ...params, ...limitParams(limit), ...lwtParams],
+  };
+}, () => [...usingParams({ ttl, timestamp }), ...setParams(set), ...whereParams(where), ...limitParams(limit), ...ifParams(ifConditions)]);
+
+/**
+ * Generate an `UPDATE` statement that adds to or subtracts from counter columns.
+ * @param table The fully qualified table name.
+ * @param options The amount to change each counter by, the conditions and the direction of the change.
+ * @param cache Reuses the CQL generated for statements of the same shape.
+ */
+export const counterStatement = <T>(
+  table: string,
+  { counters, where, sign }: { counters: Partial<Record<string, number>>; where: WhereClause<T>[]; sign: 1 | -1 },
+  cache?: StatementCache
+): Statement => memoize(cache, ["counter", table, Object.keys(counters), sign, whereShape(where)], () => {
+  const [conditions, params] = buildWhere(where);
+  const entries = Object.entries(counters) as [string, number][];
+
+  return {
+    query: `
+      UPDATE ${table}
+      SET ${entries.map(([name]) => `${identifier(name)} = ${identifier(name)} ${sign > 0 ? "+" : "-"} ?`).join(", ")}
+      ${whereClause(conditions)};`,
+    params: [...entries.map(([, value]) => types.Long.fromNumber(value)), ...params],
+  };
+}, () => [...(Object.values(counters) as number[]).map((value) => types.Long.fromNumber(value)), ...whereParams(where)]);
+
+/**
+ * Generate an `INSERT` statement.
+ * @param table The fully qualified table name.
+ * @param options The row to insert, its time to live and write timestamp and whether the row must not exist yet.
+ * @param cache Reuses the CQL generated for statements of the same shape.
+ */
+export const insertStatement = <T>(
+  table: string,
+  { data, ttl, timestamp, ifNotExists }: { data: Partial<Record<keyof T, T[keyof T]>>; ttl?: number; timestamp?: number | Date; ifNotExists?: boolean },
+  cache?: StatementCache
+): Statement => memoize(cache, ["insert", table, Object.keys(data), ttl !== undefined, timestamp !== undefined, ifNotExists], () => {
+  const columns = Object.keys(data);
+
+  return {
+    query: `
+      INSERT INTO ${table} (${columns.map(identifier).join(", ")})
+      VALUES (${columns.map(() => "?").join(", ")})
+      ${ifNotExists ? "IF NOT EXISTS" : ""}
+      ${usingClause({ ttl, timestamp })};`,
+    params: [...Object.values(data), ...usingParams({ ttl, timestamp })],
+  };
+}, () => [...Object.values(data), ...usingParams({ ttl, timestamp })]);
+
+/**
+ * A single condition of a {@link QueryBuilder}, waiting for its operator.
+ */
+export class WhereCondition<T, K extends keyof T> {
+  constructor(
+    private readonly builder: QueryBuilder<T, any>,
+    private readonly column: K
+  ) { }
+
+  private push(operator: string, value: any) {
+    return this.builder.clause({ [operator]: [this.column, value] } as WhereClause<T>);
+  }
+
+  /**
+   * `column = value`
+   */
+  public eq(value: T[K]) {
+    return this.push("equals", value);
+  }
+
+  /**
+   * `column IN (values)`
+   */
+  public in(values: T[K][]) {
+    return this.push("in", values);
+  }
+
+  /**
+   * `column > value`
+   */
+  public gt(value: T[K]) {
+    return this.push("moreThan", value);
+  }
+
+  /**
+   * `column >= value`
+   */
+  public gte(value: T[K]) {
+    return this.push("greaterThanOrEqual", value);
+  }
+
+  /**
+   * `column < value`
+   */
+  public lt(value: T[K]) {
+    return this.push("lessThan", value);
+  }
+
+  /**
+   * `column <= value`
+   */
+  public lte(value: T[K]) {
+    return this.push("lessThanOrEqual", value);
+  }
+
+  /**
+   * `column CONTAINS value`
+   */
+  public contains(value: CollectionElement<T[K]>) {
+    return this.push("contains", value);
+  }
+}
+
+/**
+ * A multi-column condition of a {@link QueryBuilder}, waiting for its operator.
+ */
+export class TupleCondition<T, C extends (keyof T)[]> {
+  constructor(
+    private readonly builder: QueryBuilder<T, any>,
+    private readonly columns: C
+  ) { }
+
+  private push(operator: TupleOperator | "in", value: any) {
+    return this.builder.clause({ [operator]: [this.columns, value] } as WhereClause<T>);
+  }
+
+  /**
+   * `(columns) = (values)`
+   */
+  public eq(values: { [I in keyof C]: T[C[I]] }) {
+    return this.push("equals", values);
+  }
+
+  /**
+   * `(columns) IN ((values), ...)`
+   */
+  public in(values: { [I in keyof C]: T[C[I]] }[]) {
+    return this.push("in", values);
+  }
+
+  /**
+   * `(columns) > (values)`
+   */
+  public gt(values: { [I in keyof C]: T[C[I]] }) {
+    return this.push("moreThan", values);
+  }
+
+  /**
+   * `(columns) >= (values)`
+   */
+  public gte(values: { [I in keyof C]: T[C[I]] }) {
+    return this.push("greaterThanOrEqual", values);
+  }
+
+  /**
+   * `(columns) < (values)`
+   */
+  public lt(values: { [I in keyof C]: T[C[I]] }) {
+    return this.push("lessThan", values);
+  }
+
+  /**
+   * `(columns) <= (values)`
+   */
+  public lte(values: { [I in keyof C]: T[C[I]] }) {
+    return this.push("lessThanOrEqual", values);
+  }
+}
+
+/**
+ * A `token()` condition of a {@link QueryBuilder}, waiting for its operator.
+ */
+export class TokenCondition<T> {
+  constructor(
+    private readonly builder: QueryBuilder<T, any>,
+    private readonly columns: (keyof T)[]
+  ) { }
+
+  private push(operator: TokenOperator, value: number | string | types.Long) {
+    return this.builder.clause({ token: [this.columns, operator, value] } as WhereClause<T>);
+  }
+
+  /**
+   * `token(columns) = value`
+   */
+  public eq(value: number | string | types.Long) {
+    return this.push("equals", value);
+  }
+
+  /**
+   * `token(columns) > value`
+   */
+  public gt(value: number | string | types.Long) {
+    return this.push("moreThan", value);
+  }
+
+  /**
+   * `token(columns) >= value`
+   */
+  public gte(value: number | string | types.Long) {
+    return this.push("greaterThanOrEqual", value);
+  }
+
+  /**
+   * `token(columns) < value`
+   */
+  public lt(value: number | string | types.Long) {
+    return this.push("lessThan", value);
+  }
+
+  /**
+   * `token(columns) <= value`
+   */
+  public lte(value: number | string | types.Long) {
+    return this.push("lessThanOrEqual", value);
+  }
+}
+
+/**
+ * A chainable query on a model.
+ *
+ * @example
+ * const messages = await model
+ *   .find()
+ *   .where("channel_id").eq(channelId)
+ *   .and("created_at").gte(since)
+ *   .orderBy("created_at", "DESC")
+ *   .limit(50)
+ *   .select("id", "content");
+ */
+export class QueryBuilder<T, K extends keyof T = keyof T> {
+  private readonly clauses: WhereClause<T, K>[] = [];
+  private readonly order: [keyof T, SortOrder][] = [];
+  private limitCount?: number;
+  private partitionLimit?: number;
+  private filtering?: boolean;
+  private prepared?: boolean;
+
+  constructor(private readonly model: Model<T, any, K>) { }
+
+  /**
+   * Add a condition to the query. You shouldn't need to call this, use {@link QueryBuilder.where} instead.
+   * @param clause The where clause to add.
+   */
+  public clause(clause: WhereClause<T, K>) {
+    this.clauses.push(clause);
+    return this;
+  }
+
+  /**
+   * Start a condition on a column.
+   * @param column The column to filter on.
+   */
+  public where<C extends keyof T>(column: C) {
+    return new WhereCondition<T, C>(this, column);
+  }
+
+  /**
+   * Start another condition on a column. Alias of {@link QueryBuilder.where}.
+   * @param column The column to filter on.
+   */
+  public and<C extends keyof T>(column: C) {
+    return this.where(column);
+  }
+
+  /**
+   * Start a condition on consecutive clustering columns at once.
+   * @param columns The clustering columns, in clustering order.
+   *
+   * @example
+   * // The page of messages after the last message of the previous page
+   * const page = await messages
+   *   .find()
+   *   .where("channel_id").eq(channelId)
+   *   .tuple("created_at", "id").gt([last.created_at, last.id])
+   *   .limit(50)
+   *   .select();
+   */
+  public tuple<C extends [K, ...K[]]>(...columns: C) {
+    return new TupleCondition<T, C>(this, columns);
+  }
+
+  /**
+   * Start a condition on the token of the partition key.
+   * @param columns The partition key columns, in order.
+   */
+  public token(...columns: [K, ...K[]]) {
+    return new TokenCondition<T>(this, columns);
+  }
+
+  /**
+   * Order the results by a clustering column.
+   * @param column The clustering column.
+   * @param order The sort order. Defaults to `ASC`.
+   */
+  public orderBy(column: keyof T, order: SortOrder = "ASC") {
+    this.order.push([column, order]);
+    return this;
+  }
+
+  /**
+   * Limit the number of rows.
+   * @param limit The maximum number of rows.
+   */
+  public limit(limit: number) {
+    this.limitCount = limit;
+    return this;
+  }
+
+  /**
+   * Limit the number of rows of each partition.
+   * @param limit The maximum number of rows per partition.
+   */
+  public perPartitionLimit(limit: number) {
+    this.partitionLimit = limit;
+    return this;
+  }
+
+  /**
+   * Add `ALLOW FILTERING` to the query instead of warning about or rejecting conditions that need it.
+   * @param allow Defaults to `true`.
+   */
+  public allowFiltering(allow = true) {
+    this.filtering = allow;
+    return this;
+  }
+
+  /**
+   * Whether to prepare the generated statement.
+   * @param prepare Defaults to `true`.
+   */
+  public prepare(prepare = true) {
+    this.prepared = prepare;
+    return this;
+  }
+
+  /**
+   * The where clauses collected so far.
+   */
+  public get conditions() {
+    return [...this.clauses];
+  }
+
+  /**
+   * Compile the query into a `SELECT` statement.
+   * @param columns The columns to select. Selects every column when empty.
+   * @returns The statement and whether to prepare it, as set by {@link QueryBuilder.prepare} or the client.
+   */
+  public toSelect(...columns: (keyof T)[]): Statement & { prepare: boolean } {
+    if (!this.filtering) this.model.checkFiltering(this.clauses);
+    const statement = selectStatement(this.model.table, {
+      columns,
+      where: this.model.encodeWhere(this.clauses),
+      orderBy: this.order,
+      limit: this.limitCount,
+      perPartitionLimit: this.partitionLimit,
+      allowFiltering: this.filtering,
+    }, this.model.client.statements);
+
+    return { ...statement, prepare: this.prepared ?? this.model.client.prepare };
+  }
+
+  /**
+   * The options of the query for {@link Model.select}, so the hooks of the model run.
+   * @param columns The columns to select. Selects every column when empty.
+   */
+  private toOptions(columns: (keyof T)[]): SelectOptions<T, {}, K> {
+    return {
+      $include: columns.length > 0 ? columns : undefined,
+      $where: this.clauses,
+      $orderBy: Object.fromEntries(this.order) as Partial<Record<keyof T, SortOrder>>,
+      $perPartitionLimit: this.partitionLimit,
+      $allowFiltering: this.filtering,
+      $prepare: this.prepared,
+    };
+  }
+
+  /**
+   * Execute the query and return the selected columns of every matching row.
+   * @param columns The columns to select. Selects every column when empty.
+   */
+  public async select(): Promise<T[]>;
+  public async select<K extends keyof T>(...columns: [K, ...K[]]): Promise<Pick<T, K>[]>;
+  public async select(...columns: (keyof T)[]): Promise<any[]> {
+    return this.model.select({ ...this.toOptions(columns), $limit: this.limitCount });
+  }
+
+  /**
+   * Execute the query and return the first matching row, or `null` when nothing matches.
+   * @param columns The columns to select. Selects every column when empty.
+   */
+  public async first(): Promise<T | null>;
+  public async first<K extends keyof T>(...columns: [K, ...K[]]): Promise<Pick<T, K> | null>;
+  public async first(...columns: (keyof T)[]): Promise<any> {
+    const [row] = await this.model.select({ ...this.toOptions(columns), $limit: 1 });
+    return row ?? null;
+  }
+
+  /**
+   * Execute the query and return a single page of rows.
+   * @param options The page size and the page state of the previous page.
+   * @param columns The columns to select. Selects every column when empty.
+   *
+   * @example
+   * const { rows, nextPageState } = await model.find().where("channel_id").eq(channelId).page({ fetchSize: 100 });
+   */
+  public async page(options: Omit<PageOptions, "prepare"> = {}, ...columns: (keyof T)[]) {
+    return this.model.paginate({ ...this.toOptions(columns), $fetchSize: options.fetchSize, $pageState: options.pageState });
+  }
+
+  /**
+   * Execute the query and yield the matching rows, fetching one page at a time.
+   * @param options The page size and the page state to start from.
+   * @param columns The columns to select. Selects every column when empty.
+   *
+   * @example
+   * for await (const message of model.find().where("channel_id").eq(channelId).iterate({ fetchSize: 500 })) {
+   *   // ...
+   * }
+   */
+  public iterate(options: Omit<PageOptions, "prepare"> = {}, ...columns: (keyof T)[]) {
+    return this.model.iterate({ ...this.toOptions(columns), $fetchSize: options.fetchSize, $pageState: options.pageState });
+  }
+
+  /**
+   * Count the rows matching the query.
+   */
+  public async count() {
+    return this.model.count({ $where: this.clauses, $limit: this.limitCount, $prepare: this.prepared, $allowFiltering: this.filtering });
+  }
+
+  /**
+   * Delete the rows matching the query.
+   */
+  public async delete() {
+    return this.model.delete({ $where: this.clauses, $prepare: this.prepared });
+  }
+
+  /**
+   * Update the rows matching the query.
+   * @param set The columns to set.
+   */
+  public async update(set: UpdateSet<T>) {
+    return this.model.update({ $set: set, $where: this.clauses, $prepare: this.prepared });
+  }
+
+  /**
+   * Create a delete of the rows matching the query for {@link Client.batch}.
+   */
+  public batchDelete(): BatchOperation {
+    return this.model.batchDelete({ $where: this.clauses });
+  }
+
+  /**
+   * Create an update of the rows matching the query for {@link Client.batch}.
+   * @param set The columns to set.
+   */
+  public batchUpdate(set: UpdateSet<T>): BatchOperation {
+    return this.model.batchUpdate({ $set: set, $where: this.clauses });
+  }
+}
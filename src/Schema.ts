@@ -1,20 +1,39 @@
+import type { Codec } from "./Codec";
+import { storedName } from "./Identifier";
+import { CqlType, formatType, InferCqlType, parseType } from "./TypeParser";
+import type { WhereClause } from "./types";
+import type { FieldValidator } from "./Validation";
+
+/**
+ * The TypeScript type of every CQL type, as converted by the default codecs.
+ */
 export interface FieldTypeMap<T> {
   ascii: string;
-  bigint: number;
-  blob: any;
+  /**
+   * A string, as 64-bit integers such as snowflake ids do not fit in a number.
+   */
+  bigint: string;
+  blob: Buffer;
   boolean: boolean;
+  /**
+   * Counters outside the safe integer range of numbers are rounded to the nearest number. Register a `counter` codec to
+   * read them exactly.
+   */
   counter: number;
-  date: number | string;
-  decimal: number;
+  date: string;
+  /**
+   * A string, as numbers can not hold arbitrary precision decimals.
+   */
+  decimal: string;
   double: number;
-  duration: number;
+  duration: string;
   float: number;
   inet: string;
   int: number;
   smallint: number;
   text: string;
-  time: number | string;
-  timestamp: number | string;
+  time: string;
+  timestamp: Date;
   timeuuid: string;
   tinyint: number;
   uuid: string;
@@ -22,25 +41,83 @@ export interface FieldTypeMap<T> {
   varint: string;
 }
 
+/**
+ * The CQL type of a column. Collections, tuples and vectors can be nested, e.g. `map<text, frozen<set<uuid>>>`,
+ * `list<frozen<address>>`, `tuple<int, text>` or `vector<float, 3>`.
+ */
 export type SchemaOptionsFieldType<T> =
   | keyof FieldTypeMap<T>
-  | `set<${keyof FieldTypeMap<T>}>`
-  | `list<${keyof FieldTypeMap<T>}>`
-  | `map<${keyof FieldTypeMap<T>},${keyof FieldTypeMap<T>}>`
+  | `set<${string}>`
+  | `list<${string}>`
+  | `map<${string}>`
+  | `tuple<${string}>`
+  | `frozen<${string}>`
+  | `vector<${string}>`
   | FrozenType;
 
-export class FrozenType {
-  constructor(public readonly udt: string) {}
+export class FrozenType<N extends string = string> {
+  constructor(public readonly udt: N) {}
+}
+
+/**
+ * Get the CQL representation of a field type as it appears in a `CREATE` statement.
+ * @param type The type of the field.
+ */
+export function getCqlType<T>(type: SchemaOptionsFieldType<T>): string {
+  return formatType(parseFieldType(type));
+}
+
+/**
+ * Parse the type of a field.
+ * @param type The type of the field.
+ * @throws {Error} Throws an error if the type is not valid CQL.
+ */
+export function parseFieldType<T>(type: SchemaOptionsFieldType<T> | string): CqlType {
+  return parseType(type instanceof FrozenType ? `frozen<${type.udt}>` : type);
 }
 
 export interface SchemaOptionsField<T> {
-  partitionKey?: boolean;
+  /**
+   * Make the column part of the partition key. Pass a number to set its position in a composite partition key.
+   */
+  partitionKey?: boolean | number;
+  /**
+   * Make the column a clustering column. Pass a number to set its position among the clustering columns.
+   */
+  clusteringKey?: boolean | number;
+  /**
+   * @deprecated Use `clusteringKey` instead.
+   */
   cluseringKey?: boolean;
+  /**
+   * The clustering order of this clustering column. Defaults to `ASC`.
+   */
+  order?: SortOrder;
+  /**
+   * Share the value of the column between every row of a partition.
+   */
+  static?: boolean;
+  /**
+   * Convert the column with this codec instead of the codec of its type, e.g. to expose a `bigint` snowflake as a string.
+   */
+  codec?: Codec;
+  /**
+   * Custom checks of the value, run before the row is written, e.g. `validators.length({ max: 2000 })`.
+   */
+  validate?: FieldValidator | FieldValidator[];
   type: SchemaOptionsFieldType<T>;
 }
 
 export interface UDTSchemaOptionsField<T> {
   type: SchemaOptionsField<T>["type"];
+  /**
+   * The previous name of this field. Used by migrations to emit `ALTER TYPE ... RENAME` instead of adding a new field.
+   */
+  renamedFrom?: string;
+  /**
+   * Convert the field with this codec instead of the codec of its type.
+   */
+  codec?: Codec;
 }
 
 export type Query<T> = keyof T;
@@ -49,26 +126,338 @@ export type SchemaDefinition<T> = {
   [key in keyof T]: SchemaOptionsField<T>;
 };
 
-interface SchemaOptions<T> {
-  sortBy: {
-    column: keyof T;
-    order: "ASC" | "DESC";
+export type SortOrder = "ASC" | "DESC";
+
+const sortOrders: string[] = ["ASC", "DESC"];
+
+interface BaseCompactionOptions {
+  enabled?: boolean;
+  tombstone_threshold?: number;
+  tombstone_compaction_interval?: number;
+  unchecked_tombstone_compaction?: boolean;
+  only_purge_repaired_tombstones?: boolean;
+  log_all?: boolean;
+}
+
+export interface SizeTieredCompactionOptions extends BaseCompactionOptions {
+  class: "SizeTieredCompactionStrategy";
+  min_threshold?: number;
+  max_threshold?: number;
+  bucket_high?: number;
+  bucket_low?: number;
+  min_sstable_size?: number;
+}
+
+export interface LeveledCompactionOptions extends BaseCompactionOptions {
+  class: "LeveledCompactionStrategy";
+  sstable_size_in_mb?: number;
+  fanout_size?: number;
+}
+
+export interface TimeWindowCompactionOptions extends BaseCompactionOptions {
+  class: "TimeWindowCompactionStrategy";
+  compaction_window_unit?: "MINUTES" | "HOURS" | "DAYS";
+  compaction_window_size?: number;
+  timestamp_resolution?: "MICROSECONDS" | "MILLISECONDS";
+  min_threshold?: number;
+  max_threshold?: number;
+}
+
+export type CompactionOptions =
+  | SizeTieredCompactionOptions
+  | LeveledCompactionOptions
+  | TimeWindowCompactionOptions;
+
+export interface CompressionOptions {
+  class?: "LZ4Compressor" | "SnappyCompressor" | "DeflateCompressor" | "ZstdCompressor";
+  enabled?: boolean;
+  chunk_length_in_kb?: number;
+  compression_level?: number;
+}
+
+export interface CachingOptions {
+  keys?: "ALL" | "NONE";
+  rows_per_partition?: "ALL" | "NONE" | number;
+}
+
+/**
+ * Change data capture options. Cassandra only accepts a boolean, ScyllaDB accepts the object form.
+ */
+export type CdcOptions =
+  | boolean
+  | {
+    enabled: boolean;
+    preimage?: boolean | "full";
+    postimage?: boolean;
+    delta?: "full" | "keys";
+    ttl?: number;
   };
+
+/**
+ * The properties of a table, emitted in the `WITH` clause of `CREATE TABLE`.
+ */
+export interface TableOptions {
+  /**
+   * The default time to live of every row in seconds. `0` disables expiry.
+   */
+  default_time_to_live?: number;
+  /**
+   * How long tombstones are kept before they can be garbage collected, in seconds.
+   */
+  gc_grace_seconds?: number;
+  comment?: string;
+  compaction?: CompactionOptions;
+  compression?: CompressionOptions;
+  caching?: CachingOptions;
+  bloom_filter_fp_chance?: number;
+  speculative_retry?: string;
+  cdc?: CdcOptions;
+}
+
+/**
+ * The part of a collection column an index covers. `keys` and `entries` only apply to maps, `full` to frozen collections.
+ */
+export type IndexTarget = "values" | "keys" | "entries" | "full";
+
+const indexTargets: string[] = ["values", "keys", "entries", "full"];
+
+/**
+ * The implementation of an index.
+ * - `secondary`: a regular secondary index, which is a global index on ScyllaDB.
+ * - `local`: a ScyllaDB local secondary index, scoped to the partition key of the table.
+ * - `sai`: a storage-attached index (Cassandra 5). Supports range and `IN` conditions.
+ * - `sasi`: an SSTable-attached secondary index. Supports range conditions.
+ */
+export type IndexKind = "secondary" | "local" | "sai" | "sasi";
+
+const indexKinds: string[] = ["secondary", "local", "sai", "sasi"];
+
+export interface IndexOptions<T> {
+  /**
+   * The indexed column.
+   */
+  column: keyof T;
+  /**
+   * The name of the index. Defaults to `<table>_<column>_idx`.
+   */
+  name?: string;
+  /**
+   * The implementation of the index. Defaults to `secondary`.
+   */
+  using?: IndexKind;
+  /**
+   * The part of a collection column to index. Defaults to `values` for collections and `full` for frozen collections.
+   */
+  target?: IndexTarget;
+  /**
+   * The options of an `sai` or `sasi` index, e.g. `{ case_sensitive: "false" }` or `{ mode: "CONTAINS" }`.
+   */
+  options?: Record<string, string>;
+}
+
+export interface SchemaOptions<T> {
+  /**
+   * The table properties. Existing tables are altered by migrations when these drift.
+   */
+  table?: TableOptions;
+  /**
+   * The clustering order of the table. Columns are emitted in clustering key order in `WITH CLUSTERING ORDER BY`.
+   */
+  sortBy?:
+  | { column: keyof T; order: SortOrder }
+  | { column: keyof T; order: SortOrder }[];
+  /**
+   * The indexes of the table. They are created when the model is loaded and tracked by migrations.
+   */
+  indexes?: IndexOptions<T>[];
+  /**
+   * The keyspace of the table. Defaults to the keyspace of the client.
+   */
+  keyspace?: string;
 }
 
 export type UDTSchemaDefinition<T> = {
-  [key in keyof T]: { type: SchemaOptionsField<T>["type"] };
+  [key in keyof T]: UDTSchemaOptionsField<T>;
 };
 
+export interface MVSchemaOptionsField {
+  /**
+   * Make the column part of the partition key of the view. Pass a number to set its position in a composite partition key.
+   */
+  partitionKey?: boolean | number;
+  /**
+   * Make the column a clustering column of the view. Pass a number to set its position among the clustering columns.
+   */
+  clusteringKey?: boolean | number;
+  /**
+   * The clustering order of this clustering column. Defaults to `ASC`.
+   */
+  order?: SortOrder;
+}
+
+/**
+ * The primary key of a materialized view. The types of the columns are taken from the base table.
+ */
 export type MVSchemaDefinition<T> = {
-  [key in keyof Partial<T>]: { type: SchemaOptionsField<T>["type"] };
+  [key in keyof Partial<T>]: MVSchemaOptionsField;
+};
+
+export interface MVSchemaOptions<T> {
+  /**
+   * The columns of the base table to copy into the view besides its primary key. Defaults to every column.
+   */
+  include?: (keyof T)[];
+  /**
+   * Only copy the rows that match these conditions. Values are inlined as literals because views can not be prepared.
+   */
+  where?: WhereClause<T>[];
 }
 
+const orderKeys = (keys: [string, boolean | number | undefined][]) =>
+  keys
+    .filter(([, position]) => position !== undefined && position !== false)
+    .map(([name, position], index) => ({ name, position: typeof position == "number" ? position : Infinity, index }))
+    .sort((a, b) => a.position - b.position || a.index - b.index)
+    .map(({ name }) => name);
+
 export class Schema<T> {
   constructor(
     public readonly definition: SchemaDefinition<T>,
     public readonly options?: SchemaOptions<T>
   ) {}
+
+  private get fields() {
+    return Object.entries(this.definition) as [string, SchemaOptionsField<T>][];
+  }
+
+  /**
+   * The partition key columns, ordered by their position.
+   */
+  public get partitionKey() {
+    return orderKeys(this.fields.map(([name, field]) => [name, field.partitionKey]));
+  }
+
+  /**
+   * The clustering columns, ordered by their position.
+   */
+  public get clusteringKey() {
+    return orderKeys(
+      this.fields
+        .filter(([, field]) => field.partitionKey === undefined || field.partitionKey === false)
+        .map(([name, field]) => [name, field.clusteringKey ?? field.cluseringKey])
+    );
+  }
+
+  /**
+   * The columns shared by every row of a partition.
+   */
+  public get staticColumns() {
+    return this.fields.filter(([, field]) => field.static).map(([name]) => name);
+  }
+
+  /**
+   * The clustering order of every clustering column, in clustering key order.
+   */
+  public get clusteringOrder(): [string, SortOrder][] {
+    const sortBy = this.options?.sortBy
+      ? Array.isArray(this.options.sortBy) ? this.options.sortBy : [this.options.sortBy]
+      : [];
+
+    return this.clusteringKey.map((name) => [
+      name,
+      sortBy.find(({ column }) => column == name)?.order ?? this.definition[name as keyof T].order ?? "ASC",
+    ]);
+  }
+
+  /**
+   * The declared indexes, with the target of collection columns resolved.
+   */
+  public get indexes(): (IndexOptions<T> & { using: IndexKind })[] {
+    return (this.options?.indexes ?? []).map((index) => {
+      const field = this.definition[index.column];
+      const type = field ? parseFieldType(field.type) : undefined;
+      const target = index.target ?? (type?.kind == "frozen" && type.inner.kind != "udt"
+        ? "full"
+        : type && ["list", "set", "map"].includes(type.kind) ? "values" : undefined);
+      return { ...index, using: index.using ?? "secondary", target };
+    });
+  }
+
+  /**
+   * Whether the table stores counters.
+   */
+  public get isCounter() {
+    return this.fields.some(([, field]) => field.type == "counter");
+  }
+
+  /**
+   * Check the schema for key, static and counter columns that Cassandra would reject.
+   * @param name The name of the table, used in error messages.
+   * @throws {Error} Throws an error describing every problem with the schema.
+   */
+  public validate(name: string) {
+    const errors: string[] = [];
+    const partitionKey = this.partitionKey;
+    const clusteringKey = this.clusteringKey;
+    const isKey = (column: string) => partitionKey.includes(column) || clusteringKey.includes(column);
+
+    if (partitionKey.length < 1) errors.push("at least one column must be part of the partition key");
+
+    const columns = Object.keys(this.definition);
+    for (const [i, column] of columns.entries()) {
+      const other = columns.slice(0, i).find((previous) => storedName(previous) == storedName(column));
+      if (other) errors.push(`"${column}" and "${other}" are the same column, as unquoted names are not case sensitive`);
+    }
+
+    const sortBy = this.options?.sortBy
+      ? Array.isArray(this.options.sortBy) ? this.options.sortBy : [this.options.sortBy]
+      : [];
+    for (const { column } of sortBy)
+      if (!clusteringKey.includes(column.toString()))
+        errors.push(`"${column.toString()}" is used in sortBy but is not a clustering column`);
+
+    for (const [column, order] of this.clusteringOrder)
+      if (!sortOrders.includes(order)) errors.push(`clustering column "${column}" has an invalid order "${order}"`);
+
+    for (const column of this.staticColumns) {
+      if (isKey(column)) errors.push(`primary key column "${column}" can not be static`);
+      if (clusteringKey.length < 1) errors.push(`static column "${column}" requires the table to have clustering columns`);
+    }
+
+    if (this.isCounter) {
+      for (const [column, field] of this.fields) {
+        if (isKey(column) && field.type == "counter") errors.push(`primary key column "${column}" can not be a counter`);
+        else if (!isKey(column) && field.type != "counter")
+          errors.push(`"${column}" must be a counter because every non primary key column of a counter table must be a counter`);
+      }
+    }
+
+    for (const index of this.indexes) {
+      const column = index.column.toString();
+      const field = this.definition[index.column];
+      if (!field) {
+        errors.push(`index on "${column}" refers to a column that does not exist`);
+        continue;
+      }
+      if (index.target !== undefined && !indexTargets.includes(index.target)) errors.push(`index on "${column}" has an invalid target "${index.target}"`);
+      if (index.using !== undefined && !indexKinds.includes(index.using)) errors.push(`index on "${column}" has an invalid implementation "${index.using}"`);
+
+      const type = parseFieldType(field.type);
+      if (this.isCounter) errors.push(`counter table can not have an index on "${column}"`);
+      if (partitionKey.length == 1 && partitionKey[0] == column && index.using != "sai")
+        errors.push(`"${column}" is the only partition key column and can not be indexed`);
+      if (index.using == "local" && partitionKey.includes(column))
+        errors.push(`local index on "${column}" can not index a partition key column`);
+      if ((index.target == "keys" || index.target == "entries") && type.kind != "map")
+        errors.push(`index on "${column}" can only target ${index.target} of a map`);
+      if (index.target == "full" && type.kind != "frozen")
+        errors.push(`index on "${column}" can only target the full value of a frozen collection`);
+      if (index.options && index.using != "sai" && index.using != "sasi")
+        errors.push(`index on "${column}" can only have options when it uses sai or sasi`);
+    }
+
+    if (errors.length > 0) throw new Error(`Invalid schema for "${name}": ${errors.join(", ")}`);
+  }
 };
 
 export class UDTSchema<T> {
@@ -76,5 +465,138 @@ export class UDTSchema<T> {
 }
 
 export class MVSchema<T> {
-  constructor(public readonly definition: MVSchemaDefinition<T>) {};
+  constructor(
+    public readonly definition: MVSchemaDefinition<T>,
+    public readonly options?: MVSchemaOptions<T>
+  ) {};
+
+  private get fields() {
+    return Object.entries(this.definition) as [string, MVSchemaOptionsField][];
+  }
+
+  /**
+   * The partition key columns of the view, ordered by their position.
+   */
+  public get partitionKey() {
+    return orderKeys(this.fields.map(([name, field]) => [name, field.partitionKey]));
+  }
+
+  /**
+   * The clustering columns of the view, ordered by their position.
+   */
+  public get clusteringKey() {
+    return orderKeys(
+      this.fields
+        .filter(([, field]) => field.partitionKey === undefined || field.partitionKey === false)
+        .map(([name, field]) => [name, field.clusteringKey])
+    );
+  }
+
+  /**
+   * The clustering order of every clustering column, in clustering key order.
+   */
+  public get clusteringOrder(): [string, SortOrder][] {
+    return this.clusteringKey.map((name) => [name, this.definition[name as keyof T].order ?? "ASC"]);
+  }
+
+  /**
+   * Check that the view can be created on top of a base table.
+   * @param name The name of the view, used in error messages.
+   * @param base The schema of the base table.
+   * @throws {Error} Throws an error describing every problem with the view.
+   */
+  public validate(name: string, base: Schema<T>) {
+    const errors: string[] = [];
+    const primaryKey = [...this.partitionKey, ...this.clusteringKey];
+    const basePrimaryKey = [...base.partitionKey, ...base.clusteringKey];
+
+    if (this.partitionKey.length < 1) errors.push("at least one column must be part of the partition key");
+
+    for (const column of primaryKey)
+      if (!(column in base.definition)) errors.push(`"${column}" is not a column of the base table`);
+
+    for (const column of basePrimaryKey)
+      if (!primaryKey.includes(column)) errors.push(`primary key column "${column}" of the base table must be part of the primary key`);
+
+    const extra = primaryKey.filter((column) => column in base.definition && !basePrimaryKey.includes(column));
+    if (extra.length > 1) errors.push(`only one column outside of the primary key of the base table can be part of the primary key, found ${extra.join(", ")}`);
+
+    for (const column of primaryKey)
+      if (column in base.definition && base.definition[column as keyof T].static)
+        errors.push(`static column "${column}" can not be part of the primary key`);
+
+    for (const column of this.options?.include ?? [])
+      if (!(column in base.definition)) errors.push(`"${column.toString()}" is included but is not a column of the base table`);
+
+    for (const [column, order] of this.clusteringOrder)
+      if (!sortOrders.includes(order)) errors.push(`clustering column "${column}" has an invalid order "${order}"`);
+
+    for (const condition of this.options?.where ?? []) {
+      const [operator, [column]] = Object.entries(condition)[0] as [string, unknown[]];
+      if (operator == "token" || Array.isArray(column)) errors.push(`the where clause can only filter single columns, found a ${operator == "token" ? "token" : "multi-column"} relation`);
+      else if (!(String(column) in base.definition)) errors.push(`"${String(column)}" is filtered on but is not a column of the base table`);
+    }
+
+    if (errors.length > 0) throw new Error(`Invalid materialized view "${name}": ${errors.join(", ")}`);
+  }
 }
+
+/**
+ * The TypeScript shape of every user defined type, used to infer the type of `frozen<name>` columns.
+ * Augment it to type the columns that use your user defined types.
+ *
+ * @example
+ * const Address = defineType("address", { street: { type: "text" }, city: { type: "text" } } as const);
+ *
+ * declare module "better-cassandra/lib/Schema" {
+ *   interface UserDefinedTypes {
+ *     address: InferType<typeof Address>;
+ *   }
+ * }
+ */
+export interface UserDefinedTypes {}
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+/**
+ * The TypeScript type of a column, taken from its codec when it has one.
+ */
+export type InferField<F> =
+  F extends { codec: Codec<infer TS, any> }
+  ? TS
+  : F extends { type: FrozenType<infer N> }
+  ? N extends keyof UserDefinedTypes ? UserDefinedTypes[N] : Record<string, unknown>
+  : F extends { type: infer S extends string }
+  ? InferCqlType<S, UserDefinedTypes>
+  : never;
+
+/**
+ * The columns of a schema definition that are part of the primary key.
+ */
+export type KeyColumns<D> = {
+  [K in keyof D]: D[K] extends { partitionKey: true | number } | { clusteringKey: true | number } | { cluseringKey: true } ? K : never;
+}[keyof D];
+
+/**
+ * The primary key of a table. Every partition and clustering column is required.
+ */
+export type InferKey<D> = Flatten<{ -readonly [K in KeyColumns<D>]: InferField<D[K]> }>;
+
+/**
+ * A row of a table. Columns outside of the primary key are `null` when they were never written.
+ */
+export type InferRow<D> = Flatten<
+  InferKey<D> & { -readonly [K in Exclude<keyof D, KeyColumns<D>>]: InferField<D[K]> | null }
+>;
+
+/**
+ * A row that can be inserted into a table. The primary key is required, every other column is optional.
+ */
+export type InferInsert<D> = Flatten<
+  InferKey<D> & { -readonly [K in Exclude<keyof D, KeyColumns<D>>]?: InferField<D[K]> | null }
+>;
+
+/**
+ * A value of a user defined type. Fields are `null` when they were never written.
+ */
+export type InferUDT<D> = { -readonly [K in keyof D]: InferField<D[K]> | null };
@@ -0,0 +1,99 @@
+import { Statement } from "./Query";
+
+export interface StatementCacheStats {
+  /**
+   * Statements whose CQL was reused.
+   */
+  hits: number;
+  /**
+   * Statements whose CQL had to be generated.
+   */
+  misses: number;
+  /**
+   * The number of statement shapes in the cache.
+   */
+  size: number;
+  /**
+   * The number of distinct queries executed as prepared statements, counting at most the `maxSize` most recently used.
+   */
+  prepared: number;
+}
+
+/**
+ * Collapse the whitespace of a generated query, so queries of the same shape share one prepared statement.
+ * @param query The query to normalize.
+ */
+export const normalizeQuery = (query: string) => query.replace(/\s+/g, " ").trim().replace(/ ;$/, ";");
+
+/**
+ * Store an entry as the most recently used one, evicting the least recently used entry when the map is over its size.
+ */
+const remember = <V>(entries: Map<string, V>, key: string, value: V, maxSize: number) => {
+  entries.delete(key);
+  entries.set(key, value);
+  if (entries.size > maxSize) entries.delete(entries.keys().next().value);
+};
+
+/**
+ * Remembers the CQL generated for each statement shape (the kind of statement, its table, columns and operators without the values)
+ * and the queries that were prepared.
+ */
+export class StatementCache {
+  private readonly queries = new Map<string, string>();
+  private readonly preparedQueries = new Map<string, true>();
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * @param maxSize The number of shapes, and of prepared queries, to keep. The least recently used one is evicted first.
+   */
+  constructor(public readonly maxSize = 1000) { }
+
+  /**
+   * Get the statement of a shape, generating its CQL only the first time the shape is seen.
+   * @param key The shape of the statement.
+   * @param build Generates the statement.
+   * @param params Gets the parameters of the statement when its CQL is reused.
+   */
+  public statement(key: string, build: () => Statement, params: () => any[]): Statement {
+    const query = this.queries.get(key);
+
+    if (query !== undefined) {
+      this.hits++;
+      remember(this.queries, key, query, this.maxSize);
+      return { query, params: params() };
+    }
+
+    this.misses++;
+    const statement = build();
+    const normalized = normalizeQuery(statement.query);
+    remember(this.queries, key, normalized, this.maxSize);
+
+    return { query: normalized, params: statement.params };
+  }
+
+  /**
+   * Record a query executed as a prepared statement.
+   * @param query The normalized query.
+   */
+  public prepared(query: string) {
+    remember(this.preparedQueries, query, true, this.maxSize);
+  }
+
+  /**
+   * The hits and misses of the cache.
+   */
+  public get stats(): StatementCacheStats {
+    return { hits: this.hits, misses: this.misses, size: this.queries.size, prepared: this.preparedQueries.size };
+  }
+
+  /**
+   * Forget every shape and reset the stats.
+   */
+  public clear() {
+    this.queries.clear();
+    this.preparedQueries.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+}
@@ -0,0 +1,196 @@
+import { identifier } from "./Identifier";
+import type { FieldTypeMap } from "./Schema";
+
+/**
+ * A parsed CQL type.
+ */
+export type CqlType =
+  | { kind: "native"; name: keyof FieldTypeMap<any> }
+  | { kind: "list" | "set"; element: CqlType }
+  | { kind: "map"; key: CqlType; value: CqlType }
+  | { kind: "tuple"; elements: CqlType[] }
+  | { kind: "vector"; element: CqlType; dimension: number }
+  | { kind: "frozen"; inner: CqlType }
+  | { kind: "udt"; name: string };
+
+/**
+ * Every native CQL type.
+ */
+export const nativeTypes: (keyof FieldTypeMap<any>)[] = [
+  "ascii", "bigint", "blob", "boolean", "counter", "date", "decimal", "double", "duration", "float", "inet",
+  "int", "smallint", "text", "time", "timestamp", "timeuuid", "tinyint", "uuid", "varchar", "varint",
+];
+
+const tokenize = (source: string) => source.match(/[A-Za-z_][A-Za-z0-9_]*|"(?:[^"]|"")+"|\d+|[<>,]|\S/g) ?? [];
+
+/**
+ * Parse a CQL type such as `map<text, frozen<set<uuid>>>`, `tuple<int, text>` or `vector<float, 3>`.
+ * Identifiers that are not native types are treated as user defined types.
+ * @param source The CQL type.
+ * @throws {Error} Throws an error if the type is not valid CQL.
+ */
+export const parseType = (source: string): CqlType => {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid type "${source}": ${message}`);
+  };
+
+  const expect = (token: string) => {
+    if (tokens[position] != token) fail(`expected "${token}" but found "${tokens[position] ?? "end of type"}"`);
+    position++;
+  };
+
+  const args = (count: number | undefined) => {
+    expect("<");
+    const parsed = [type()];
+    while (tokens[position] == ",") {
+      position++;
+      parsed.push(type());
+    }
+    expect(">");
+    if (count !== undefined && parsed.length != count) fail(`expected ${count} type argument(s) but found ${parsed.length}`);
+    return parsed;
+  };
+
+  const type = (): CqlType => {
+    const token = tokens[position++];
+    if (token === undefined) return fail("unexpected end of type");
+    if (!/^[A-Za-z_"]/.test(token)) return fail(`unexpected "${token}"`);
+
+    const name = token.startsWith('"') ? token : token.toLowerCase();
+    switch (name) {
+      case "list":
+      case "set":
+        return { kind: name, element: args(1)[0] };
+      case "map": {
+        const [key, value] = args(2);
+        return { kind: "map", key, value };
+      }
+      case "tuple":
+        return { kind: "tuple", elements: args(undefined) };
+      case "frozen":
+        return { kind: "frozen", inner: args(1)[0] };
+      case "vector": {
+        expect("<");
+        const element = type();
+        expect(",");
+        const dimension = Number(tokens[position++]);
+        if (!Number.isInteger(dimension) || dimension < 1) fail("the dimension of a vector must be a positive integer");
+        expect(">");
+        return { kind: "vector", element, dimension };
+      }
+    }
+
+    if ((nativeTypes as string[]).includes(name)) return { kind: "native", name: name as keyof FieldTypeMap<any> };
+    return { kind: "udt", name: token.startsWith('"') ? token.slice(1, -1).replace(/""/g, '"') : token };
+  };
+
+  const parsed = type();
+  if (position < tokens.length) fail(`unexpected "${tokens[position]}"`);
+  return parsed;
+};
+
+/**
+ * Render a parsed type as CQL.
+ * @param type The parsed type.
+ */
+export const formatType = (type: CqlType): string => {
+  switch (type.kind) {
+    case "native":
+      return type.name;
+    case "list":
+    case "set":
+      return `${type.kind}<${formatType(type.element)}>`;
+    case "map":
+      return `map<${formatType(type.key)}, ${formatType(type.value)}>`;
+    case "tuple":
+      return `tuple<${type.elements.map(formatType).join(", ")}>`;
+    case "vector":
+      return `vector<${formatType(type.element)}, ${type.dimension}>`;
+    case "frozen":
+      return `frozen<${formatType(type.inner)}>`;
+    case "udt":
+      return identifier(type.name);
+  }
+};
+
+/**
+ * Get the names of every user defined type a type refers to.
+ * @param type The parsed type.
+ */
+export const typeDependencies = (type: CqlType): string[] => {
+  switch (type.kind) {
+    case "native":
+      return [];
+    case "list":
+    case "set":
+    case "vector":
+      return typeDependencies(type.element);
+    case "map":
+      return [...typeDependencies(type.key), ...typeDependencies(type.value)];
+    case "tuple":
+      return type.elements.flatMap(typeDependencies);
+    case "frozen":
+      return typeDependencies(type.inner);
+    case "udt":
+      return [type.name];
+  }
+};
+
+/**
+ * Remove `frozen<>` from a type.
+ * @param type The parsed type.
+ */
+export const unfreeze = (type: CqlType): CqlType => (type.kind == "frozen" ? unfreeze(type.inner) : type);
+
+type Trim<S extends string> = S extends ` ${infer R}` ? Trim<R> : S extends `${infer R} ` ? Trim<R> : S;
+
+/**
+ * Split the type arguments of a collection at the top level commas.
+ */
+type SplitArguments<
+  S extends string,
+  Depth extends unknown[] = [],
+  Current extends string = "",
+  Result extends string[] = []
+> = S extends `${infer C}${infer Rest}`
+  ? C extends "<"
+  ? SplitArguments<Rest, [...Depth, unknown], `${Current}${C}`, Result>
+  : C extends ">"
+  ? SplitArguments<Rest, Depth extends [unknown, ...infer D] ? D : [], `${Current}${C}`, Result>
+  : C extends ","
+  ? Depth extends []
+  ? SplitArguments<Rest, Depth, "", [...Result, Trim<Current>]>
+  : SplitArguments<Rest, Depth, `${Current}${C}`, Result>
+  : SplitArguments<Rest, Depth, `${Current}${C}`, Result>
+  : [...Result, Trim<Current>];
+
+type InferTuple<Elements extends string[], UDTs> = {
+  [I in keyof Elements]: InferCqlType<Elements[I], UDTs>;
+};
+
+/**
+ * The TypeScript type of a CQL type, as converted by the default codecs.
+ * User defined types are looked up by name in `UDTs`.
+ *
+ * @example
+ * type Tags = InferCqlType<"map<text, frozen<set<uuid>>>">; // Record<string, string[]>
+ */
+export type InferCqlType<S extends string, UDTs = {}> =
+  Trim<S> extends keyof FieldTypeMap<any>
+  ? FieldTypeMap<any>[Trim<S>]
+  : Trim<S> extends `frozen<${infer Inner}>`
+  ? InferCqlType<Inner, UDTs>
+  : Trim<S> extends `list<${infer Inner}>` | `set<${infer Inner}>`
+  ? InferCqlType<Inner, UDTs>[]
+  : Trim<S> extends `vector<${infer Inner}>`
+  ? SplitArguments<Inner> extends [infer Element extends string, string] ? InferCqlType<Element, UDTs>[] : never
+  : Trim<S> extends `map<${infer Inner}>`
+  ? SplitArguments<Inner> extends [string, infer Value extends string] ? Record<string, InferCqlType<Value, UDTs>> : never
+  : Trim<S> extends `tuple<${infer Inner}>`
+  ? InferTuple<SplitArguments<Inner>, UDTs>
+  : Trim<S> extends keyof UDTs
+  ? UDTs[Trim<S>]
+  : Record<string, unknown>;
@@ -1,5 +1,15 @@
 import { Client } from "./Client";
-import { FieldTypeMap, FrozenType, SchemaOptionsField, UDTSchema, UDTSchemaDefinition, UDTSchemaOptionsField } from "./Schema";
+import { formatType, typeDependencies } from "./TypeParser";
+import { identifier, qualifiedName } from "./Identifier";
+import { getCqlType, InferUDT, parseFieldType, SchemaOptionsField, UDTSchema, UDTSchemaDefinition, UDTSchemaOptionsField } from "./Schema";
+
+export interface UDTOptions {
+    /**
+     * The keyspace of the type. By default the type is created in the keyspace of the client and in the keyspace of
+     * every model that uses it.
+     */
+    keyspace?: string;
+}
 
 /**
  * A class used to perform actions on user defined types in Cassandra.
@@ -15,65 +25,44 @@ export class UDT<T> {
      * 
      * @param name The name of the user defined type.
      * @param schema The schema that tells Better Cassandra what the user defined type should look like and function.
+     * @param options The keyspace of the type.
      */
-    constructor(public readonly name: string, public readonly schema: UDTSchema<T>) { };
-
-    private async getColumnDefinition(fieldName: string, fieldOptions: UDTSchemaOptionsField<T>) {
-        const typeMapping: Partial<Record<keyof FieldTypeMap<T>, string>> = {
-            ascii: 'ascii',
-            bigint: 'bigint',
-            blob: 'blob',
-            boolean: 'boolean',
-            counter: 'counter',
-            date: 'date',
-            decimal: 'decimal',
-            double: 'double',
-            duration: 'duration',
-            float: 'float',
-            inet: 'inet',
-            int: 'int',
-            smallint: 'smallint',
-            text: 'text',
-            time: 'time',
-            timestamp: 'timestamp',
-            timeuuid: 'timeuuid',
-            tinyint: 'tinyint',
-            uuid: 'uuid',
-            varchar: 'varchar',
-            varint: 'varint',
-        };
-
-        const fieldType = fieldOptions.type as keyof Partial<Record<keyof FieldTypeMap<T>, string>> | FrozenType;
-
-        if (fieldType instanceof FrozenType) {
-            let startPos = fieldType.udt.indexOf("<") + 1;
-            let endPos = fieldType.udt.indexOf(">");
-
-            const type = this.client.types.get(fieldType.udt) || this.client.types.get(fieldType.udt.substring(startPos, endPos));
-
-            if (!type) throw new Error(`Type "${this.name}" requires the "${fieldType.udt}" user defined type which was not found!`);
-
-            await type.load();
-            return `${fieldName} frozen<${fieldType.udt}>`
-            // } else if (typeMapping[fieldType]) {
-            //     return `${fieldName} ${typeMapping[fieldType]}`;
-            // } else {
-            //     throw new Error(`Unsupported field type: ${fieldType}`);
-            // }
-        } else {
-            let startPos = fieldType.indexOf("<") + 1;
-            let endPos = fieldType.indexOf(">");
-
-            if (typeMapping[fieldType] || typeMapping[fieldType.substring(startPos, endPos) as keyof Partial<Record<keyof FieldTypeMap<T>, string>>]) return `${fieldName} ${typeMapping[fieldType] || fieldType.split('<')[0] + '<' + typeMapping[fieldType.substring(startPos, endPos) as keyof Partial<Record<keyof FieldTypeMap<T>, string>>] + '>'}`;
-            else throw new Error(`Unsupported field type: ${fieldType}`);
+    constructor(public readonly name: string, public readonly schema: UDTSchema<T>, public readonly options: UDTOptions = {}) { };
+
+    /**
+     * The keyspaces the type has been created in, so types used by several types and models are only created once.
+     */
+    private readonly loadedKeyspaces = new Set<string>();
+
+    /**
+     * The keyspace of the type. Defaults to the keyspace of the client.
+     */
+    public get keyspace() {
+        return this.options.keyspace ?? this.client.cassandara.keyspace;
+    }
+
+    private async getColumnDefinition(fieldName: string, fieldOptions: UDTSchemaOptionsField<T>, keyspace: string) {
+        const fieldType = parseFieldType(fieldOptions.type);
+
+        for (const dependency of typeDependencies(fieldType)) {
+            const type = this.client.types.get(dependency);
+
+            if (!type) throw new Error(`Type "${this.name}" requires the "${dependency}" user defined type which was not found!`);
+            if (type.options.keyspace && type.options.keyspace != keyspace)
+                throw new Error(`Type "${this.name}" in keyspace "${keyspace}" can not use the "${dependency}" user defined type of keyspace "${type.options.keyspace}"`);
+
+            await type.load(keyspace);
         }
+
+        return `${identifier(fieldName)} ${formatType(fieldType)}`;
     }
 
     /**
      * Removes the type from the database if it exists.
      */
     public async drop() {
-        await this.client.cassandara.execute(`DROP TYPE IF EXISTS ${this.client.cassandara.keyspace}.${this.name}`);
+        await this.client.cassandara.execute(`DROP TYPE IF EXISTS ${qualifiedName(this.keyspace, this.name)}`);
+        this.loadedKeyspaces.delete(this.keyspace);
         this.client.types.delete(this.name);
         this.client.logging.success(`Successfully dropped the table: "${this.name}"`);
     }
@@ -91,20 +80,54 @@ export class UDT<T> {
         }
     }
 
+    /**
+     * Build the `CREATE TYPE IF NOT EXISTS` statement for this user defined type.
+     * @param columns The field definitions to use. Defaults to the fields declared in the schema.
+     * @param keyspace The keyspace the type belongs to. Defaults to the keyspace of the type.
+     */
+    public createQuery(
+        columns = Object.entries(this.schema.definition).map(([key, value]) => `${identifier(key)} ${getCqlType((value as UDTSchemaOptionsField<T>).type)}`),
+        keyspace = this.keyspace
+    ) {
+        return `CREATE TYPE IF NOT EXISTS ${qualifiedName(keyspace, this.name)} (${columns.join(", ")});`;
+    }
+
     /**
      * Create a user defined type if it does not exist already. Better Cassandra already does this for you when a model requires a frozen type. 
      * You still need to provide the typesPath for Better Cassandra to find the user defined types.
+     * @param keyspace The keyspace to create the type in. Defaults to the keyspace of the type.
      */
-    public async load() {
+    public async load(keyspace = this.keyspace) {
+        if (this.loadedKeyspaces.has(keyspace)) return;
         const entries = Object.entries(this.schema.definition) as [string, SchemaOptionsField<T>][];
         const columns: string[] = [];
 
         // Add columns for each entry in the schema.options
         for (const [key, value] of entries) {
-            columns.push(await this.getColumnDefinition(key, value));
+            columns.push(await this.getColumnDefinition(key, value, keyspace));
         }
 
-        await this.client.cassandara.execute(`CREATE TYPE IF NOT EXISTS ${this.client.cassandara.keyspace}.${this.name} (${columns.join(", ")});`);
-        this.client.logging.success(`Loaded user defined type \`${this.name}\``);
+        await this.client.cassandara.execute(this.createQuery(columns, keyspace));
+        this.loadedKeyspaces.add(keyspace);
+        this.client.logging.success(`Loaded user defined type \`${this.name}\`${keyspace == this.client.cassandara.keyspace ? "" : ` in keyspace \`${keyspace}\``}`);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Create a user defined type whose shape is inferred from its schema definition.
+ * @param name The name of the user defined type.
+ * @param definition The fields of the type.
+ * @param options The keyspace of the type.
+ *
+ * @example
+ * const Address = defineType("address", { street: { type: "text" }, city: { type: "text" } });
+ * type Address = InferType<typeof Address>; // { street: string | null; city: string | null }
+ */
+export function defineType<const D extends Record<string, UDTSchemaOptionsField<any>>>(name: string, definition: D, options?: UDTOptions) {
+    return new UDT<InferUDT<D>>(name, new UDTSchema(definition as unknown as UDTSchemaDefinition<InferUDT<D>>), options);
+}
+
+/**
+ * The shape of a value of a user defined type.
+ */
+export type InferType<U> = U extends UDT<infer T> ? T : never;
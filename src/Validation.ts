@@ -0,0 +1,319 @@
+import { types } from "cassandra-driver";
+import { isIP } from "net";
+import type { Client } from "./Client";
+import { getCollectionOperator } from "./Query";
+import { FieldTypeMap, parseFieldType, Schema, SchemaOptionsField } from "./Schema";
+import { CqlType, formatType, unfreeze } from "./TypeParser";
+import { UpdateSet } from "./types";
+
+/**
+ * A custom check of a column value. Returns a message describing the problem, e.g. `"must have at most 2000 characters"`,
+ * or nothing when the value is valid. Only runs for values that are set and of the declared type.
+ */
+export type FieldValidator<V = any> = (value: V) => string | void;
+
+/**
+ * A field that failed validation.
+ */
+export interface ValidationIssue {
+  /**
+   * The column, or the path to the invalid element, e.g. `tags[2]` or `address.zip`.
+   */
+  field: string;
+  /**
+   * What is wrong with the value, e.g. `must be of type "int"` or `is required`.
+   */
+  message: string;
+}
+
+/**
+ * Thrown when a row or update does not match the schema of its model, listing every violating field.
+ *
+ * @example
+ * try {
+ *   await users.insert(user);
+ * } catch (error) {
+ *   if (error instanceof ValidationError) for (const { field, message } of error.issues) form.setError(field, message);
+ * }
+ */
+export class ValidationError extends Error {
+  constructor(
+    public readonly model: string,
+    public readonly issues: ValidationIssue[]
+  ) {
+    super(`Invalid values for model "${model}": ${issues.map(({ field, message }) => `"${field}" ${message}`).join(", ")}`);
+    this.name = "ValidationError";
+  }
+}
+
+const isInteger = (min: number, max: number) => (value: unknown) =>
+  typeof value == "number" && Number.isInteger(value) && value >= min && value <= max;
+
+const isLong = (value: unknown) =>
+  value instanceof types.Long || (typeof value == "number" && Number.isSafeInteger(value)) || (typeof value == "string" && /^-?\d+$/.test(value));
+
+const isString = (value: unknown) => typeof value == "string";
+
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const timeUuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-1[0-9a-f]{3}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * The values accepted by the default codec of every native type.
+ */
+const nativeChecks: Record<keyof FieldTypeMap<any>, (value: unknown) => boolean> = {
+  ascii: (value) => typeof value == "string" && /^[\x00-\x7f]*$/.test(value),
+  bigint: isLong,
+  blob: (value) => Buffer.isBuffer(value),
+  boolean: (value) => typeof value == "boolean",
+  counter: isLong,
+  date: (value) =>
+    value instanceof types.LocalDate || (value instanceof Date && !isNaN(value.getTime())) || (typeof value == "string" && /^-?\d+-\d{1,2}-\d{1,2}$/.test(value)),
+  decimal: (value) =>
+    value instanceof types.BigDecimal || (typeof value == "number" && Number.isFinite(value)) || (typeof value == "string" && /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(value)),
+  double: (value) => typeof value == "number",
+  duration: (value) => value instanceof types.Duration || isString(value),
+  float: (value) => typeof value == "number",
+  inet: (value) => value instanceof types.InetAddress || (typeof value == "string" && isIP(value) != 0),
+  int: isInteger(-(2 ** 31), 2 ** 31 - 1),
+  smallint: isInteger(-(2 ** 15), 2 ** 15 - 1),
+  text: isString,
+  time: (value) => value instanceof types.LocalTime || isString(value),
+  timestamp: (value) =>
+    (value instanceof Date && !isNaN(value.getTime())) || (typeof value == "number" && Number.isFinite(value)) || (typeof value == "string" && !isNaN(Date.parse(value))),
+  timeuuid: (value) => value instanceof types.TimeUuid || (typeof value == "string" && timeUuidPattern.test(value)),
+  tinyint: isInteger(-(2 ** 7), 2 ** 7 - 1),
+  uuid: (value) => value instanceof types.Uuid || (typeof value == "string" && uuidPattern.test(value)),
+  varchar: isString,
+  varint: (value) =>
+    value instanceof types.Integer || (typeof value == "number" && Number.isInteger(value)) || (typeof value == "string" && /^-?\d+$/.test(value)),
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value == "object" && value !== null && !Array.isArray(value) && !(value instanceof Map) && !(value instanceof Set) && !Buffer.isBuffer(value);
+
+const lengthOf = (value: unknown) =>
+  typeof value == "string" || Array.isArray(value) ? value.length : value instanceof Set || value instanceof Map ? value.size : undefined;
+
+/**
+ * Common field validators.
+ *
+ * @example
+ * const schema = new Schema({
+ *   id: { type: "uuid", partitionKey: true },
+ *   name: { type: "text", validate: validators.length({ min: 1, max: 32 }) },
+ *   email: { type: "text", validate: validators.pattern(/^[^@\s]+@[^@\s]+$/, "must be an email address") },
+ *   age: { type: "int", validate: validators.range({ min: 13 }) },
+ * });
+ */
+export const validators = {
+  /**
+   * Limit the length of a string or the size of a collection.
+   * @param limits The inclusive minimum and maximum length.
+   */
+  length: ({ min, max }: { min?: number; max?: number }): FieldValidator => (value) => {
+    const length = lengthOf(value);
+    const unit = typeof value == "string" ? "characters" : "elements";
+    if (length === undefined) return;
+    if (min !== undefined && length < min) return `must have at least ${min} ${unit}`;
+    if (max !== undefined && length > max) return `must have at most ${max} ${unit}`;
+  },
+
+  /**
+   * Require a string to match a regular expression.
+   * @param regex The expression.
+   * @param message The message when the value does not match. Defaults to `must match <regex>`.
+   */
+  pattern: (regex: RegExp, message = `must match ${regex}`): FieldValidator<string> => (value) => {
+    regex.lastIndex = 0;
+    if (typeof value == "string" && !regex.test(value)) return message;
+  },
+
+  /**
+   * Limit a number, or a `Date`, to a range.
+   * @param limits The inclusive minimum and maximum.
+   */
+  range: ({ min, max }: { min?: number | Date; max?: number | Date }): FieldValidator<number | Date> => (value) => {
+    if (typeof value != "number" && !(value instanceof Date)) return;
+    if (min !== undefined && +value < +min) return `must be at least ${min instanceof Date ? min.toISOString() : min}`;
+    if (max !== undefined && +value > +max) return `must be at most ${max instanceof Date ? max.toISOString() : max}`;
+  },
+
+  /**
+   * Only allow some values.
+   * @param values The allowed values.
+   */
+  oneOf: <V>(values: readonly V[]): FieldValidator<V> => (value) => {
+    if (!values.includes(value)) return `must be one of ${values.map((allowed) => JSON.stringify(allowed)).join(", ")}`;
+  },
+};
+
+/**
+ * Checks rows and updates against the schemas of their models before they are written.
+ */
+export class Validator {
+  constructor(private readonly client: Client) { }
+
+  /**
+   * Check that a value matches a CQL type, including the elements of collections, tuples and user defined types.
+   * Values of types with a custom codec are not checked, because their TypeScript type is up to the codec.
+   * @param type The CQL type.
+   * @param value The value, as passed to the model.
+   * @param path The path of the value, used in the issues.
+   * @param issues Receives the problems found.
+   */
+  public value(type: CqlType, value: unknown, path: string, issues: ValidationIssue[]): void {
+    if (value === null || value === undefined) return;
+
+    const mismatch = () => {
+      issues.push({ field: path, message: `must be of type "${formatType(type)}"` });
+    };
+    const element = (type: CqlType, value: unknown, path: string) => {
+      if (value === null || value === undefined) issues.push({ field: path, message: "can not be null" });
+      else this.value(type, value, path, issues);
+    };
+
+    switch (type.kind) {
+      case "frozen":
+        return this.value(type.inner, value, path, issues);
+      case "native":
+        if (this.client.codecs.overridden(type.name)) return;
+        if (!nativeChecks[type.name](value)) mismatch();
+        return;
+      case "list":
+      case "set":
+        if (!Array.isArray(value) && !(type.kind == "set" && value instanceof Set)) return mismatch();
+        Array.from(value as Iterable<unknown>).forEach((item, i) => element(type.element, item, `${path}[${i}]`));
+        return;
+      case "map":
+        if (value instanceof Map) {
+          for (const [key, item] of value) {
+            element(type.key, key, `${path}[${String(key)}]`);
+            element(type.value, item, `${path}[${String(key)}]`);
+          }
+        } else if (isPlainObject(value)) {
+          for (const [key, item] of Object.entries(value)) element(type.value, item, `${path}.${key}`);
+        } else mismatch();
+        return;
+      case "tuple": {
+        const elements = value instanceof types.Tuple ? value.values() : value;
+        if (!Array.isArray(elements) || elements.length != type.elements.length) return mismatch();
+        elements.forEach((item, i) => this.value(type.elements[i], item, `${path}[${i}]`, issues));
+        return;
+      }
+      case "vector": {
+        const elements = value instanceof Float32Array ? Array.from(value) : value;
+        if (!Array.isArray(elements) || elements.length != type.dimension || elements.some((item) => typeof item != "number")) mismatch();
+        return;
+      }
+      case "udt": {
+        const udt = this.client.types.get(type.name);
+        if (!isPlainObject(value)) return mismatch();
+        if (!udt) return;
+
+        const definition = udt.schema.definition as Record<string, { type: SchemaOptionsField<any>["type"]; codec?: unknown }>;
+        for (const [key, item] of Object.entries(value)) {
+          const field = definition[key];
+          if (!field) issues.push({ field: `${path}.${key}`, message: `is not a field of type "${type.name}"` });
+          else if (!field.codec) this.value(parseFieldType(field.type), item, `${path}.${key}`, issues);
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * Check the value of a column against its type and custom validators.
+   */
+  private column(field: SchemaOptionsField<any>, value: unknown, path: string, issues: ValidationIssue[]) {
+    const found = issues.length;
+    if (!field.codec) this.value(parseFieldType(field.type), value, path, issues);
+    if (issues.length > found || value === null || value === undefined) return;
+
+    for (const validate of [field.validate ?? []].flat()) {
+      const message = validate(value);
+      if (message) issues.push({ field: path, message });
+    }
+  }
+
+  /**
+   * Check a row to insert: every column must exist and match its type, and every primary key column must be set.
+   * @param schema The schema of the table.
+   * @param data The row.
+   */
+  public row<T>(schema: Schema<T>, data: Record<string, unknown>): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const definition = schema.definition as Record<string, SchemaOptionsField<T>>;
+
+    for (const column of [...schema.partitionKey, ...schema.clusteringKey])
+      if (data[column] === undefined || data[column] === null) issues.push({ field: column, message: "is required" });
+
+    for (const [column, value] of Object.entries(data)) {
+      const field = definition[column];
+      if (!field) issues.push({ field: column, message: "is not a column" });
+      else this.column(field, value, column, issues);
+    }
+
+    return issues;
+  }
+
+  /**
+   * Check the columns of an update, including the payloads of collection operators. Primary key and counter columns
+   * can not be set.
+   * @param schema The schema of the table.
+   * @param set The columns to change.
+   */
+  public set<T>(schema: Schema<T>, set: UpdateSet<T>): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const definition = schema.definition as Record<string, SchemaOptionsField<T>>;
+    const primaryKey = [...schema.partitionKey, ...schema.clusteringKey];
+
+    for (const [column, value] of Object.entries(set)) {
+      const field = definition[column];
+      if (!field) {
+        issues.push({ field: column, message: "is not a column" });
+        continue;
+      }
+      if (primaryKey.includes(column)) {
+        issues.push({ field: column, message: "is part of the primary key and can not be updated" });
+        continue;
+      }
+      if (field.type == "counter") {
+        issues.push({ field: column, message: "is a counter and can only be incremented or decremented" });
+        continue;
+      }
+
+      const operation = getCollectionOperator(value);
+      if (!operation) {
+        this.column(field, value, column, issues);
+        continue;
+      }
+      if (field.codec) continue;
+
+      const [operator, payload] = operation;
+      const collection = unfreeze(parseFieldType(field.type));
+      const index: CqlType = { kind: "native", name: "int" };
+      switch (collection.kind) {
+        case "list":
+          if (operator == "$setIndex") {
+            this.value({ kind: "tuple", elements: [index, collection.element] }, payload, column, issues);
+            break;
+          }
+          if (operator == "$deleteIndex") this.value(index, payload, column, issues);
+          else this.value(collection, payload, column, issues);
+          break;
+        case "set":
+          this.value(collection, payload, column, issues);
+          break;
+        case "map":
+          if (operator == "$putKey" && Array.isArray(payload))
+            this.value({ kind: "tuple", elements: [collection.key, collection.value] }, payload, column, issues);
+          else if (operator == "$removeKey") this.value({ kind: "list", element: collection.key }, payload, column, issues);
+          else if (operator == "$deleteIndex") this.value(collection.key, payload, column, issues);
+          else this.value(collection, payload, column, issues);
+          break;
+      }
+    }
+
+    return issues;
+  }
+}
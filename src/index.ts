@@ -1,7 +1,19 @@
 export * from "./Batch";
 export * from "./Client";
+export * from "./Codec";
+export * from "./Entity";
+export * from "./Hooks";
+export * from "./Identifier";
+export * from "./Keyspace";
+export * from "./Loader";
 export * from "./MaterialView";
+export * from "./Migration";
 export * from "./Model";
+export * from "./Projection";
+export * from "./Query";
 export * from "./Schema";
+export * from "./StatementCache";
+export * from "./TypeParser";
 export * from "./UDT";
+export * from "./Validation";
 export * from "./types";
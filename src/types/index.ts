@@ -1,4 +1,22 @@
-export type WhereClause<T> = {
+import type { types } from "cassandra-driver";
+import type { SortOrder } from "../Schema";
+
+/**
+ * The elements of a list or set, or the values of a map, which `contains` compares to.
+ */
+export type CollectionElement<V> =
+  NonNullable<V> extends (infer E)[]
+  ? E
+  : NonNullable<V> extends Set<infer E> | Map<any, infer E>
+  ? E
+  : NonNullable<V> extends Record<string, infer E>
+  ? E
+  : V;
+
+/**
+ * A relation on a single column, e.g. `{ equals: ["channel_id", channelId] }`. `contains` takes an element of the collection.
+ */
+export type ColumnRelation<T> = {
     [K in keyof Partial<T>]: {
       equals?: [K, Partial<T>[K]];
       notEquals?: [K, Partial<T>[K]];
@@ -8,7 +26,126 @@ export type WhereClause<T> = {
       lessThanOrEqual?: [K, Partial<T>[K]];
       moreThan?: [K, Partial<T>[K]];
       lessThan?: [K, Partial<T>[K]];
-      contains?: [K, Partial<T>[K]];
-      notContains?: [K, Partial<T>[K]];
+      contains?: [K, CollectionElement<Partial<T>[K]>];
+      notContains?: [K, CollectionElement<Partial<T>[K]>];
     };
-  }[keyof Partial<T>];
\ No newline at end of file
+  }[keyof Partial<T>];
+
+/**
+ * The operators of a multi-column relation.
+ */
+export type TupleOperator = "equals" | "greaterThanOrEqual" | "lessThanOrEqual" | "moreThan" | "lessThan";
+
+/**
+ * A relation on consecutive clustering columns at once, e.g. `{ moreThan: [["created_at", "id"], [createdAt, id]] }`
+ * for `(created_at, id) > (?, ?)`. `in` takes a list of tuples.
+ */
+export type TupleRelation<K extends PropertyKey> =
+  | { [Op in TupleOperator]: { [O in Op]: [[K, ...K[]], unknown[]] } }[TupleOperator]
+  | { in: [[K, ...K[]], unknown[][]] };
+
+/**
+ * The operators of a `token()` relation.
+ */
+export type TokenOperator = "equals" | "greaterThanOrEqual" | "lessThanOrEqual" | "moreThan" | "lessThan";
+
+/**
+ * A relation on the token of the partition key, e.g. `{ token: [["guild_id"], "moreThan", "-9223372036854775808"] }`
+ * for `token(guild_id) > ?`. The columns must be the whole partition key, in order.
+ */
+export type TokenRelation<K extends PropertyKey> = {
+  token: [[K, ...K[]], TokenOperator, number | string | types.Long];
+};
+
+/**
+ * A condition of a where clause. Multi-column and `token()` relations only accept the key columns `K`.
+ */
+export type WhereClause<T, K extends keyof T = keyof T> = ColumnRelation<T> | TupleRelation<K> | TokenRelation<K>;
+
+/**
+ * The columns of `T` that can hold a counter.
+ */
+export type CounterColumns<T> = {
+  [K in keyof T]-?: NonNullable<T[K]> extends number ? K : never;
+}[keyof T];
+
+/**
+ * Operators that modify a list, set or map column in place instead of overwriting it.
+ */
+export type CollectionOperation<V> =
+  NonNullable<V> extends (infer E)[]
+  ? /* list<E> or set<E> */
+  | { $append: E[] }
+  | { $prepend: E[] }
+  | { $addToSet: E[] }
+  | { $remove: E[] }
+  | { $setIndex: [number, E] }
+  | { $deleteIndex: number }
+  : NonNullable<V> extends Set<infer E>
+  ? { $addToSet: E[] | Set<E> } | { $remove: E[] | Set<E> }
+  : NonNullable<V> extends Map<infer K, infer E>
+  ? { $putKey: Map<K, E> | [K, E] } | { $removeKey: K[] } | { $deleteIndex: K }
+  : NonNullable<V> extends Record<string, infer E>
+  ? { $putKey: Record<string, E> | [string, E] } | { $removeKey: string[] } | { $deleteIndex: string }
+  : never;
+
+/**
+ * The columns to change in an update, either to a new value or through a collection operator.
+ */
+export type UpdateSet<T> = {
+  [K in keyof T]?: T[K] | CollectionOperation<T[K]>;
+};
+
+/**
+ * An aggregate computed by a select, keyed by its function. `count` also accepts `"*"` to count rows.
+ */
+export type Aggregate<T> =
+  | { count: keyof T | "*" }
+  | { min: keyof T }
+  | { max: keyof T }
+  | { sum: keyof T }
+  | { avg: keyof T };
+
+/**
+ * The values of the aggregates of a select, keyed by their alias.
+ */
+export type AggregateResult<T, A> = {
+  [K in keyof A]: A[K] extends { count: any }
+  ? number
+  : A[K] extends Record<string, infer C>
+  ? C extends keyof T ? NonNullable<T[C]> | null : never
+  : never;
+};
+
+/**
+ * The options of a select.
+ */
+export interface SelectOptions<T, A extends Record<string, Aggregate<T>> = {}, K extends keyof T = keyof T> {
+  $include?: (keyof T)[];
+  $where: WhereClause<T, K>[];
+  /**
+   * Order the rows of each partition by clustering columns, e.g. `{ created_at: "DESC" }`.
+   */
+  $orderBy?: Partial<Record<keyof T, SortOrder>>;
+  /**
+   * The maximum number of rows returned per partition.
+   */
+  $perPartitionLimit?: number;
+  /**
+   * Only return distinct partitions. Selects the partition key unless `$include` lists partition key or static columns.
+   */
+  $distinct?: boolean;
+  /**
+   * Group the rows by a prefix of the primary key.
+   */
+  $groupBy?: (keyof T)[];
+  /**
+   * Aggregates to return, keyed by their alias, e.g. `{ total: { sum: "amount" }, rows: { count: "*" } }`.
+   */
+  $aggregates?: A;
+  /**
+   * Add `ALLOW FILTERING` to the query instead of warning about or rejecting conditions that need it.
+   */
+  $allowFiltering?: boolean;
+  $prepare?: boolean;
+}
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BatchInsert } from "../src/Batch";
+import { defineModel } from "../src/Model";
+import { fakeClient } from "./client";
+
+const models = async () => {
+  const fake = fakeClient();
+  const messages = defineModel("messages", {
+    channel_id: { type: "text", partitionKey: true },
+    id: { type: "int", clusteringKey: true },
+    content: { type: "text" },
+  });
+  const stats = defineModel("stats", { channel_id: { type: "text", partitionKey: true }, messages: { type: "counter" } }, { keyspace: "metrics" });
+  await messages.load(fake.client);
+  await stats.load(fake.client);
+  fake.executed.length = 0;
+  return { ...fake, messages, stats };
+};
+
+describe("batches", () => {
+  it("sends the operations of models in one logged batch", async () => {
+    const { client, batches, messages } = await models();
+    const result = await client
+      .batch({ ttl: 60 })
+      .add(messages.batchInsert({ channel_id: "general", id: 1, content: "hi" }))
+      .add(messages.batchUpdate({ $set: { content: "edited" }, $where: [{ equals: ["channel_id", "general"] }, { equals: ["id", 2] }], $ttl: 5 }))
+      .add(messages.batchDelete({ $where: [{ equals: ["channel_id", "general"] }, { equals: ["id", 3] }] }))
+      .execute();
+
+    assert.deepEqual(result, { applied: true, batches: 1, errors: [] });
+    assert.deepEqual(batches[0].map(({ query }) => query), [
+      "INSERT INTO app.messages (channel_id, id, content) VALUES (?, ?, ?) USING TTL ?;",
+      "UPDATE app.messages USING TTL ? SET content=? WHERE channel_id=? AND id=?;",
+      "DELETE FROM app.messages WHERE channel_id=? AND id=?;",
+    ]);
+    assert.equal(batches[0][0].params[3], 60);
+    assert.equal(batches[0][1].params[0], 5);
+    assert.equal(batches[0][0].options.logged, true);
+  });
+
+  it("names operations by the fully qualified name of their table", async () => {
+    const { messages, stats } = await models();
+    assert.equal(messages.batchInsert({ channel_id: "general", id: 1 }).table, "app.messages");
+    assert.equal(stats.batchIncrement({ $counters: { messages: 1 }, $where: [{ equals: ["channel_id", "general"] }] }).table, "metrics.stats");
+  });
+
+  it("sends counter updates in a counter batch and rejects mixing them with other writes", async () => {
+    const { client, batches, messages, stats } = await models();
+    const increment = stats.batchIncrement({ $counters: { messages: 1 }, $where: [{ equals: ["channel_id", "general"] }] });
+    await client.batch().add(increment).execute();
+    assert.equal(batches[0][0].options.counter, true);
+    assert.equal(batches[0][0].query, "UPDATE metrics.stats SET messages = messages + ? WHERE channel_id=?;");
+
+    const mixed = await client.batch().add(messages.batchInsert({ channel_id: "general", id: 1 }), increment).execute();
+    assert.equal(mixed.applied, false);
+    assert.deepEqual(mixed.errors.map(({ index, table, error }) => [index, table, error.message]), [[1, "metrics.stats", "Counter updates can only be sent in a counter batch"]]);
+    await assert.rejects(client.batch({ ttl: 10 }).add(increment).execute(), /Counter batches do not support a time to live/);
+  });
+
+  it("reports statements that fail to compile without sending anything", async () => {
+    const { client, batches, messages } = await models();
+    const result = await client
+      .batch()
+      .add(messages.batchInsert({ channel_id: "general", id: 1 }))
+      .add(messages.batchInsert({ channel_id: "general", id: "two" as unknown as number }))
+      .execute();
+
+    assert.equal(result.applied, false);
+    assert.deepEqual(result.errors.map(({ index, table }) => [index, table]), [[1, "app.messages"]]);
+    assert.equal(batches.length, 0);
+  });
+
+  it("splits, warns about or rejects batches over their limits", async () => {
+    const { client, batches, logs, messages } = await models();
+    const inserts = [1, 2, 3].map((id) => messages.batchInsert({ channel_id: `channel ${id}`, id }));
+
+    const split = await client.batch({ maxPartitions: 2, onLimit: "split" }).add(...inserts).execute();
+    assert.equal(split.batches, 2);
+    assert.deepEqual(batches.map((batch) => batch.length), [2, 1]);
+
+    await client.batch({ maxPartitions: 2 }).add(...inserts).execute();
+    assert.match(logs.at(-1) ?? "", /spans 3 partitions .* over the limit of 2 partitions/);
+
+    await assert.rejects(client.batch({ maxBytes: 10, onLimit: "throw" }).add(...inserts).execute(), /over the limit of 10 partitions and 10 bytes/);
+  });
+
+  it("keeps the statements of a partition in the same batch when splitting", async () => {
+    const { client, batches, messages } = await models();
+    const inserts = [["a", 1], ["b", 1], ["a", 2]].map(([channel_id, id]) => messages.batchInsert({ channel_id: channel_id as string, id: id as number }));
+    await client.batch({ maxPartitions: 1, onLimit: "split" }).add(...inserts).execute();
+
+    assert.deepEqual(batches.map((batch) => batch.map(({ params }) => `${params[0]}${params[1]}`)), [["a1", "a2"], ["b1"]]);
+  });
+
+  it("substitutes the keyspace of the client in raw statements", async () => {
+    const { client, batches } = await models();
+    await client.batch([BatchInsert({ name: "audit", data: { id: 1 } })]);
+    assert.equal(batches[0][0].query, "INSERT INTO app.audit (id) VALUES (?);");
+
+    const { client: withoutKeyspace } = fakeClient(undefined, { keyspace: undefined });
+    await assert.rejects(withoutKeyspace.batch([BatchInsert({ name: "audit", data: { id: 1 } })]), /when the client has a default keyspace/);
+  });
+
+  it("reports every statement of a batch the cluster rejects", async () => {
+    const { client, messages } = await models();
+    (client.cassandara as unknown as { batch: () => Promise<never> }).batch = async () => {
+      throw new Error("Batch too large");
+    };
+    const result = await client.batch().add(messages.batchInsert({ channel_id: "general", id: 1 }), messages.batchInsert({ channel_id: "general", id: 2 })).execute();
+
+    assert.deepEqual(result.errors.map(({ index, error }) => [index, error.message]), [[0, "Batch too large"], [1, "Batch too large"]]);
+  });
+});
@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Readable, Writable } from "node:stream";
+import { types } from "cassandra-driver";
+import { ExportCheckpoint, readLines, readRecords, splitCsvRecord } from "../src/Bulk";
+import { defineModel } from "../src/Model";
+import { Responder, fakeClient } from "./client";
+
+const collect = async <R>(source: AsyncIterable<R>) => {
+  const items: R[] = [];
+  for await (const item of source) items.push(item);
+  return items;
+};
+
+describe("bulk import", () => {
+  it("decodes characters split across chunks", async () => {
+    const text = Buffer.from("name\nZoë 🎉\r\nÅsa");
+    const chunks = [text.subarray(0, 8), text.subarray(8, 12), text.subarray(12)];
+    assert.deepEqual(await collect(readLines(chunks)), ["name", "Zoë 🎉", "Åsa"]);
+  });
+
+  it("splits CSV records with quoted delimiters, quotes and empty fields", () => {
+    assert.deepEqual(splitCsvRecord('1,"a, ""b""",,""'), ["1", 'a, "b"', null, ""]);
+    assert.deepEqual(splitCsvRecord("1;2", ";"), ["1", "2"]);
+  });
+
+  it("reads CSV records spanning lines and renames their fields", async () => {
+    const records = await collect(readRecords(['Message ID,content\n1,"first\nline"\n\n2,second\n'], { format: "csv", columns: { "Message ID": "id" } }));
+    assert.deepEqual(records, [
+      { id: "1", content: "first\nline" },
+      { id: "2", content: "second" },
+    ]);
+  });
+
+  it("skips the header of a CSV with columns by position unless there is none", async () => {
+    const csv = "ID,Content\n1,hi\n";
+    assert.deepEqual(await collect(readRecords([csv], { format: "csv", columns: ["id", "content"] })), [{ id: "1", content: "hi" }]);
+    assert.deepEqual(await collect(readRecords([csv], { format: "csv", columns: ["id", "content"], header: false })), [
+      { id: "ID", content: "Content" },
+      { id: "1", content: "hi" },
+    ]);
+  });
+
+  it("reads NDJSON records and reports invalid lines", async () => {
+    assert.deepEqual(await collect(readRecords(['{"Message ID":1}\n\n{"Message ID":2}'], { columns: { "Message ID": "id" } })), [{ id: 1 }, { id: 2 }]);
+    await assert.rejects(collect(readRecords(['{"id":1}\n{id}'], {})), /Line 2 is not valid JSON/);
+  });
+
+  it("inserts the rows of a CSV with their column types", async () => {
+    const { client, batches } = fakeClient();
+    const messages = defineModel("messages", {
+      channel_id: { type: "text", partitionKey: true },
+      id: { type: "int", clusteringKey: true },
+      pinned: { type: "boolean" },
+      content: { type: "text" },
+    });
+    await messages.load(client);
+
+    const result = await messages.bulkInsert(Readable.from(["channel_id,id,pinned,content,ignored\ngeneral,1,true,,x\ngeneral,2,false,hi,y\n"]), {
+      format: "csv",
+    });
+    assert.deepEqual(result, { read: 2, inserted: 2, skipped: 0, failed: 0, retries: 0, errors: [] });
+    assert.deepEqual(batches[0].map(({ query, params }) => [query, params]), [
+      ["INSERT INTO app.messages (channel_id, id, pinned) VALUES (?, ?, ?);", ["general", 1, true]],
+      ["INSERT INTO app.messages (channel_id, id, pinned, content) VALUES (?, ?, ?, ?);", ["general", 2, false, "hi"]],
+    ]);
+  });
+});
+
+const ticks = async (count = 5) => {
+  for (let i = 0; i < count; i++) await new Promise((resolve) => setImmediate(resolve));
+};
+
+const exported = async (respond: Responder) => {
+  const fake = fakeClient(respond);
+  const events = defineModel("events", {
+    id: { type: "int", partitionKey: true },
+    name: { type: "text" },
+    at: { type: "timestamp" },
+  });
+  await events.load(fake.client);
+  fake.executed.length = 0;
+  return { ...fake, events };
+};
+
+describe("export", () => {
+  it("writes the rows of every token range as NDJSON or CSV", async () => {
+    const { events } = await exported(({ params }) =>
+      String(params[0]) == types.Long.MIN_VALUE.toString() ? { rows: [{ id: 1, name: "a, b", at: new Date(0) }] } : { rows: [{ id: 2, name: null, at: null }] }
+    );
+
+    assert.equal(
+      (await collect(events.export({ splits: 2, concurrency: 1 }))).join(""),
+      '{"id":1,"name":"a, b","at":"1970-01-01T00:00:00.000Z"}\n{"id":2,"name":null,"at":null}\n'
+    );
+    assert.equal(
+      (await collect(events.export({ format: "csv", columns: ["id", "name"], splits: 2, concurrency: 1 }))).join(""),
+      'id,name\n1,"a, b"\n2,\n'
+    );
+  });
+
+  it("checkpoints a page only once the destination wrote it", async () => {
+    const { events } = await exported(({ options }) => (options.pageState ? { rows: [{ id: 2 }] } : { rows: [{ id: 1 }], pageState: "ab" }));
+    const callbacks: (() => void)[] = [];
+    const written: string[] = [];
+    const destination = new Writable({
+      write(chunk, _encoding, callback) {
+        written.push(chunk.toString());
+        callbacks.push(callback);
+      },
+    });
+    const checkpoints: ExportCheckpoint[] = [];
+    events.export({ splits: 1, onCheckpoint: (checkpoint) => checkpoints.push(checkpoint) }).pipe(destination);
+
+    await ticks();
+    assert.deepEqual(written, ['{"id":1,"name":null,"at":null}\n']);
+    assert.deepEqual(checkpoints, []);
+
+    while (callbacks.length > 0) {
+      callbacks.splice(0).forEach((callback) => callback());
+      await ticks();
+    }
+    assert.deepEqual(checkpoints, [
+      { splits: 1, completed: [], pageStates: { 0: "ab" } },
+      { splits: 1, completed: [0], pageStates: {} },
+    ]);
+  });
+
+  it("checkpoints a page once it was read when the export is not piped", async () => {
+    const { events } = await exported(() => ({ rows: [{ id: 1 }] }));
+    const checkpoints: ExportCheckpoint[] = [];
+    const stream = events.export({ splits: 1, onCheckpoint: (checkpoint) => checkpoints.push(checkpoint) });
+
+    await ticks();
+    assert.deepEqual(checkpoints, []);
+    await collect(stream);
+    assert.deepEqual(checkpoints, [{ splits: 1, completed: [0], pageStates: {} }]);
+  });
+
+  it("resumes from a checkpoint", async () => {
+    const { events, executed } = await exported(() => ({ rows: [{ id: 3 }] }));
+    const text = await collect(events.export({ format: "csv", columns: ["id"], splits: 3, checkpoint: { splits: 3, completed: [0], pageStates: { 2: "cd" } } }));
+
+    assert.equal(text.join(""), "3\n3\n");
+    assert.deepEqual(executed.map(({ options }) => options.pageState), [undefined, "cd"]);
+    assert.throws(() => events.export({ splits: 4, checkpoint: { splits: 3, completed: [], pageStates: {} } }), /taken with 3 splits instead of 4/);
+  });
+});
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { types } from "cassandra-driver";
+import { fakeClient } from "./client";
+
+const { client } = fakeClient();
+const codecs = client.codecs;
+const roundTrip = (type: string, value: unknown) => codecs.decode(type, codecs.encode(type, value));
+
+describe("codecs", () => {
+  it("round-trips every native type through the representation of the driver", () => {
+    const values: [string, unknown][] = [
+      ["bigint", "9007199254740993"],
+      ["counter", 42],
+      ["date", "2024-02-29"],
+      ["decimal", "1.10"],
+      ["duration", "1h30m"],
+      ["inet", "10.0.0.1"],
+      ["int", 7],
+      ["text", "hi"],
+      ["time", "12:34:56.789"],
+      ["timestamp", new Date(1000)],
+      ["timeuuid", "50554d6e-29bb-11e5-b345-feff819cdc9f"],
+      ["uuid", "c2e6f6b4-2f6c-4d2b-9a3b-6a4b8b0f5a11"],
+      ["varint", "123456789012345678901234567890"],
+    ];
+
+    for (const [type, value] of values) assert.deepEqual(roundTrip(type, value), value, type);
+  });
+
+  it("encodes values to the types of the driver", () => {
+    assert.ok(codecs.encode("bigint", "5") instanceof types.Long);
+    assert.ok(codecs.encode("decimal", 1.5) instanceof types.BigDecimal);
+    assert.ok(codecs.encode("uuid", "c2e6f6b4-2f6c-4d2b-9a3b-6a4b8b0f5a11") instanceof types.Uuid);
+    assert.deepEqual(codecs.encode("timestamp", 1000), new Date(1000));
+    assert.ok(codecs.encode("vector<float, 2>", [1, 2]) instanceof Float32Array);
+  });
+
+  it("round-trips collections, tuples and vectors element by element", () => {
+    assert.deepEqual(roundTrip("list<bigint>", ["1", "2"]), ["1", "2"]);
+    assert.deepEqual(roundTrip("set<frozen<list<uuid>>>", [["c2e6f6b4-2f6c-4d2b-9a3b-6a4b8b0f5a11"]]), [["c2e6f6b4-2f6c-4d2b-9a3b-6a4b8b0f5a11"]]);
+    assert.deepEqual(roundTrip("map<text, decimal>", { price: "9.99" }), { price: "9.99" });
+    assert.deepEqual(roundTrip("tuple<int, bigint>", [1, "2"]), [1, "2"]);
+    assert.deepEqual(roundTrip("vector<float, 3>", [1, 2, 3]), [1, 2, 3]);
+    assert.equal(codecs.encode("list<int>", null), null);
+  });
+
+  it("rejects timestamps that are not valid dates", () => {
+    assert.throws(() => codecs.encode("timestamp", "not a date"), /is not a valid timestamp/);
+    assert.throws(() => codecs.encode("timestamp", new Date(NaN)), /is not a valid timestamp/);
+    assert.throws(() => codecs.encode("map<timestamp, text>", { yesterday: "a" }), /is not a valid timestamp/);
+  });
+
+  it("encodes the keys of maps passed as objects", () => {
+    assert.deepEqual(codecs.encode("map<timestamp, int>", { "2024-01-01": 1 }), { "2024-01-01T00:00:00.000Z": 1 });
+
+    const custom = fakeClient(() => undefined, { codecs: { int: { decode: (value: number) => value / 100, encode: (value: number) => value * 100 } } });
+    assert.deepEqual(custom.client.codecs.encode("map<int, int>", { 1: 2 }), { 100: 200 });
+  });
+
+  it("rounds counters outside the safe integer range instead of failing the row", () => {
+    assert.equal(codecs.decode("counter", types.Long.fromString("9007199254740993")), 9007199254740992);
+  });
+
+  it("applies the codec of a column to whole values and collection payloads", () => {
+    const settings = { decode: (value: Record<string, string>) => value, encode: (value: Record<string, string>) => ({ ...value, encoded: "yes" }) };
+    const definition = { settings: { type: "map<text, text>" as const, codec: settings } };
+
+    assert.deepEqual(codecs.encodeSet(definition, { settings: { theme: "dark" } }), { settings: { theme: "dark", encoded: "yes" } });
+    assert.deepEqual(codecs.encodeSet(definition, { settings: { $putKey: { theme: "dark" } } }), { settings: { $putKey: { theme: "dark", encoded: "yes" } } });
+  });
+
+  it("encodes the payloads of collection operators with the types of their elements", () => {
+    const definition = { scores: { type: "map<uuid, bigint>" as const }, ids: { type: "list<bigint>" as const } };
+    const set = codecs.encodeSet<any>(definition, {
+      scores: { $putKey: ["c2e6f6b4-2f6c-4d2b-9a3b-6a4b8b0f5a11", "10"] },
+      ids: { $setIndex: [0, "7"] },
+    }) as Record<string, Record<string, unknown[]>>;
+
+    assert.ok(set.scores.$putKey[0] instanceof types.Uuid);
+    assert.ok(set.scores.$putKey[1] instanceof types.Long);
+    assert.equal(set.ids.$setIndex[0], 0);
+    assert.ok(set.ids.$setIndex[1] instanceof types.Long);
+  });
+});
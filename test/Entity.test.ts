@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Model, defineModel } from "../src/Model";
+import { Schema } from "../src/Schema";
+import { Responder, fakeClient } from "./client";
+import { Equal, expectType } from "./helpers";
+
+const stored = { channel_id: "general", id: 1, content: "hi", tags: ["a"], edited: null };
+
+const messages = async (respond: Responder = ({ query }) => (query.startsWith("SELECT") ? { rows: [stored] } : undefined)) => {
+  const fake = fakeClient(respond);
+  const model = defineModel("messages", {
+    channel_id: { type: "text", partitionKey: true },
+    id: { type: "int", clusteringKey: true },
+    content: { type: "text" },
+    tags: { type: "list<text>" },
+    edited: { type: "timestamp" },
+  });
+  await model.load(fake.client);
+  fake.executed.length = 0;
+  return { ...fake, model };
+};
+
+describe("entities", () => {
+  it("reads a row by its primary key and exposes its columns", async () => {
+    const { executed, model } = await messages();
+    const message = await model.get({ channel_id: "general", id: 1 });
+
+    assert.equal(executed[0].query, "SELECT * FROM app.messages WHERE channel_id=? AND id=? LIMIT ?;");
+    assert.equal(message?.content, "hi");
+    assert.equal(message?.isNew, false);
+    assert.equal(message?.isDirty, false);
+    await assert.rejects(model.get({ channel_id: "general" } as { channel_id: string; id: number }), /missing primary key column "id"/);
+  });
+
+  it("returns null for a row that does not exist", async () => {
+    const { model } = await messages(() => undefined);
+    assert.equal(await model.get({ channel_id: "general", id: 2 }), null);
+  });
+
+  it("only writes the columns that changed, including changes made in place, and only if the row still exists", async () => {
+    const { executed, model } = await messages();
+    const message = (await model.get({ channel_id: "general", id: 1 }))!;
+    executed.length = 0;
+
+    assert.deepEqual(await message.save(), { applied: true });
+    assert.equal(executed.length, 0);
+
+    message.content = "hi";
+    message.tags!.push("b");
+    message.set("edited", new Date(0));
+    assert.deepEqual(message.changes, ["tags", "edited"]);
+
+    await message.save();
+    assert.equal(executed[0].query, "UPDATE app.messages SET tags=?, edited=? WHERE channel_id=? AND id=? IF EXISTS;");
+    assert.deepEqual(executed[0].params.slice(2), ["general", 1]);
+    assert.equal(message.isDirty, false);
+  });
+
+  it("keeps the changes of a save that was not applied", async () => {
+    const { model } = await messages(({ query }) =>
+      query.startsWith("UPDATE") ? { rows: [{ "[applied]": false }] } : query.startsWith("SELECT") ? { rows: [stored] } : undefined
+    );
+    const message = (await model.get({ channel_id: "general", id: 1 }))!;
+
+    message.content = "edited";
+    assert.equal((await message.save()).applied, false);
+    assert.deepEqual(message.changes, ["content"]);
+  });
+
+  it("rejects changes of primary key columns", async () => {
+    const { model } = await messages();
+    const message = (await model.get({ channel_id: "general", id: 1 }))!;
+    message.id = 2;
+    await assert.rejects(message.save(), /Can not change primary key column\(s\) "id"/);
+  });
+
+  it("inserts new entities if they do not exist yet and inserts deleted ones again", async () => {
+    const { executed, model } = await messages();
+    const message = model.create({ channel_id: "general", id: 3, content: "new" });
+    assert.equal(message.isNew, true);
+
+    await message.save();
+    await message.delete();
+    assert.equal(message.isNew, true);
+    await message.save();
+
+    assert.deepEqual(
+      executed.map(({ query }) => query),
+      [
+        "INSERT INTO app.messages (channel_id, id, content) VALUES (?, ?, ?) IF NOT EXISTS;",
+        "DELETE FROM app.messages WHERE channel_id=? AND id=?;",
+        "INSERT INTO app.messages (channel_id, id, content) VALUES (?, ?, ?) IF NOT EXISTS;",
+      ]
+    );
+  });
+
+  it("discards unsaved changes on reload", async () => {
+    const { model } = await messages();
+    const message = (await model.get({ channel_id: "general", id: 1 }))!;
+    message.content = "unsaved";
+
+    await message.reload();
+    assert.equal(message.content, "hi");
+    assert.deepEqual(message.toJSON(), stored);
+  });
+
+  it("types the key of get by the primary key of the model", async () => {
+    const { model } = await messages();
+    expectType<Equal<keyof Parameters<typeof model.get>[0], "channel_id" | "id">>();
+
+    // @ts-expect-error every primary key column is required
+    assert.equal(typeof (() => model.get({ channel_id: "general" })), "function");
+    // @ts-expect-error key columns have the types of their columns
+    assert.equal(typeof (() => model.get({ channel_id: "general", id: "1" })), "function");
+
+    const untyped = new Model<{ id: number; name: string }>("users", new Schema({ id: { type: "int", partitionKey: true }, name: { type: "text" } }));
+    expectType<Equal<Parameters<typeof untyped.get>[0], Partial<{ id: number; name: string }>>>();
+  });
+});
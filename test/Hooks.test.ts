@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { HookContext, HookMap } from "../src/Hooks";
+import { defineModel } from "../src/Model";
+import { WriteResult } from "../src/Query";
+import { fakeClient } from "./client";
+import { Equal, expectType } from "./helpers";
+
+const documents = async (respond?: Parameters<typeof fakeClient>[0]) => {
+  const fake = fakeClient(respond);
+  const model = defineModel("documents", {
+    tenant_id: { type: "text", partitionKey: true },
+    id: { type: "int", clusteringKey: true },
+    title: { type: "text" },
+  });
+  await model.load(fake.client);
+  fake.executed.length = 0;
+  return { ...fake, model };
+};
+
+describe("hooks", () => {
+  it("runs the before hooks of the client, then of the model, each on the value returned by the previous one", async () => {
+    const { client, executed, model } = await documents();
+    const order: string[] = [];
+    client.hook("beforeInsert", (data) => {
+      order.push("client");
+      return { ...data, title: `${data.title}!` };
+    });
+    model.hook("beforeInsert", (data) => {
+      order.push("model");
+      return { ...data, tenant_id: "acme" };
+    });
+    model.hook("beforeInsert", () => void order.push("unchanged"));
+
+    await model.insert({ tenant_id: "ignored", id: 1, title: "draft" });
+    assert.deepEqual(order, ["client", "model", "unchanged"]);
+    assert.deepEqual(executed[0].params, ["acme", 1, "draft!"]);
+  });
+
+  it("rewrites the conditions of selects, updates and deletes", async () => {
+    const { executed, model } = await documents();
+    const tenant = { equals: ["tenant_id", "acme"] } as { equals: ["tenant_id", string] };
+    model.hook("beforeSelect", ({ where }) => ({ where: [tenant, ...where] }));
+    model.hook("beforeDelete", ({ where }) => ({ where: [tenant, ...where] }));
+    model.hook("beforeUpdate", ({ set, where }) => ({ set: { ...set, title: "renamed" }, where: [tenant, ...where] }));
+
+    await model.select({ $where: [{ equals: ["id", 1] }] });
+    await model.update({ $set: {}, $where: [{ equals: ["id", 1] }] });
+    await model.delete({ $where: [{ equals: ["id", 1] }] });
+
+    assert.deepEqual(
+      executed.map(({ query }) => query),
+      [
+        "SELECT * FROM app.documents WHERE tenant_id=? AND id=?;",
+        "UPDATE app.documents SET title=? WHERE tenant_id=? AND id=?;",
+        "DELETE FROM app.documents WHERE tenant_id=? AND id=?;",
+      ]
+    );
+  });
+
+  it("replaces the selected rows with those returned by afterSelect", async () => {
+    const { model } = await documents(() => ({ rows: [{ tenant_id: "acme", id: 1, title: "secret" }] }));
+    model.hook("afterSelect", (rows) => rows.map((row) => ({ ...row, title: "redacted" })));
+
+    assert.deepEqual(await model.select({ $where: [{ equals: ["tenant_id", "acme"] }] }), [{ tenant_id: "acme", id: 1, title: "redacted" }]);
+  });
+
+  it("tells after hooks what was written, its outcome and the operation", async () => {
+    const { client, model } = await documents();
+    const seen: unknown[] = [];
+    client.hook("afterDelete", (remove, result, { operation }) => void seen.push(["client", remove.where.length, result.applied, operation]));
+    model.hook("afterInsert", (data, result, { model, operation }) => void seen.push([model.name, data.id, result.applied, operation]));
+
+    await model.insert({ tenant_id: "acme", id: 1 });
+    await model.delete({ $where: [{ equals: ["tenant_id", "acme"] }, { equals: ["id", 1] }] });
+    assert.deepEqual(seen, [
+      ["documents", 1, true, "insert"],
+      ["client", 2, true, "delete"],
+    ]);
+  });
+
+  it("runs the middleware of the client, then of the model, around every statement", async () => {
+    const { client, executed, model } = await documents();
+    const seen: string[] = [];
+    client.use(async (context, next) => {
+      seen.push(`client ${context.operation}`);
+      return next();
+    });
+    model.use(async (context, next) => {
+      seen.push(`model ${context.model?.name}`);
+      context.statements[0] = { ...context.statements[0], query: `${context.statements[0].query} -- audited` };
+      return next();
+    });
+
+    await model.delete({ $where: [{ equals: ["tenant_id", "acme"] }] });
+    assert.deepEqual(seen, ["client delete", "model documents"]);
+    assert.match(executed[0].query, /-- audited$/);
+  });
+
+  it("types the handlers of each hook by the rows of the model", () => {
+    type Row = { id: number; title: string };
+    expectType<Equal<Parameters<HookMap<Row>["beforeInsert"]>, [Partial<Row>, HookContext]>>();
+    expectType<Equal<Parameters<HookMap<Row>["afterSelect"]>[0], Partial<Row>[]>>();
+    expectType<Equal<Parameters<HookMap<Row>["afterUpdate"]>[1], WriteResult<Row>>>();
+
+    const check = async () => {
+      const { model } = await documents();
+      // @ts-expect-error before hooks must return a replacement of their argument
+      model.hook("beforeInsert", () => ({ id: "1" }));
+      // @ts-expect-error after hooks receive the outcome of the write
+      model.hook("afterInsert", (_data, result: string) => result);
+    };
+    assert.equal(typeof check, "function");
+  });
+});
@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { identifier, qualifiedName, reservedKeywords, storedIdentifier, storedName } from "../src/Identifier";
+import { lex, random, randomName } from "./helpers";
+
+describe("identifier", () => {
+  it("leaves plain names unquoted so Cassandra folds them to lower case", () => {
+    assert.equal(identifier("users"), "users");
+    assert.equal(identifier("createdAt"), "createdAt");
+    assert.equal(storedName("createdAt"), "createdat");
+  });
+
+  it("quotes reserved keywords in any case", () => {
+    for (const keyword of reservedKeywords) {
+      assert.equal(identifier(keyword), `"${keyword}"`);
+      assert.equal(identifier(keyword.toUpperCase()), `"${keyword.toUpperCase()}"`);
+    }
+  });
+
+  it("quotes names with characters unquoted names can not have", () => {
+    assert.equal(identifier("user id"), '"user id"');
+    assert.equal(identifier("1st"), '"1st"');
+    assert.equal(identifier("_private"), '"_private"');
+    assert.equal(identifier("café"), '"café"');
+    assert.equal(identifier("a-b"), '"a-b"');
+    assert.equal(identifier("a.b"), '"a.b"');
+  });
+
+  it("doubles the quotes inside quoted names", () => {
+    assert.equal(identifier('say "hi"'), '"say ""hi"""');
+    assert.equal(identifier('"'), '""""');
+    assert.equal(identifier('x"; DROP TABLE users; --'), '"x""; DROP TABLE users; --"');
+  });
+
+  it("keeps quoted names as they are and folds plain names to lower case when stored", () => {
+    assert.equal(storedName("UserId"), "userid");
+    assert.equal(storedName("user_id"), "user_id");
+    assert.equal(storedName("User Id"), "User Id");
+    assert.equal(storedName("Select"), "Select");
+  });
+
+  it("quotes stored names that are not in lower case", () => {
+    assert.equal(storedIdentifier("userid"), "userid");
+    assert.equal(storedIdentifier("OldCol"), '"OldCol"');
+    assert.equal(storedIdentifier("select"), '"select"');
+    assert.equal(storedIdentifier("user id"), '"user id"');
+  });
+
+  it("quotes the keyspace and the name separately", () => {
+    assert.equal(qualifiedName("app", "users"), "app.users");
+    assert.equal(qualifiedName("My App", "order"), '"My App"."order"');
+  });
+
+  it("rejects names that are empty or not strings", () => {
+    assert.throws(() => identifier(""));
+    assert.throws(() => identifier(1));
+    assert.throws(() => identifier(Symbol("column")));
+  });
+
+  it("renders every name as exactly one identifier that reads back as its stored name", () => {
+    const rng = random(1);
+    for (let i = 0; i < 5000; i++) {
+      const name = randomName(rng);
+      const tokens = lex(identifier(name));
+
+      assert.equal(tokens.length, 1, `${name} rendered as ${identifier(name)}`);
+      const [token] = tokens;
+      assert.equal(token.kind, "identifier");
+      if (token.kind != "identifier") continue;
+      assert.equal(token.quoted ? token.value : token.value.toLowerCase(), storedName(name));
+      if (!token.quoted) assert.ok(!reservedKeywords.has(name.toLowerCase()), `${name} is reserved`);
+    }
+  });
+
+  it("renders stored names in their exact case", () => {
+    const rng = random(2);
+    for (let i = 0; i < 5000; i++) {
+      const name = randomName(rng);
+      const [token] = lex(storedIdentifier(name));
+      assert.ok(token.kind == "identifier");
+      assert.equal(token.quoted ? token.value : token.value.toLowerCase(), name);
+    }
+  });
+
+  it("qualifies names with their keyspace", () => {
+    const rng = random(3);
+    for (let i = 0; i < 1000; i++) {
+      const [keyspace, table] = [randomName(rng), randomName(rng)];
+      const tokens = lex(qualifiedName(keyspace, table));
+      assert.deepEqual(tokens.map((token) => token.kind), ["identifier", "symbol", "identifier"]);
+      assert.deepEqual(tokens[1], { kind: "symbol", value: "." });
+    }
+  });
+});
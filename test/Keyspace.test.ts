@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { keyspaceStatement } from "../src/Keyspace";
+import { MaterialView } from "../src/MaterialView";
+import { defineModel } from "../src/Model";
+import { defineType } from "../src/UDT";
+import { fakeClient } from "./client";
+
+describe("keyspaces", () => {
+  it("builds create and alter statements with quoted names", () => {
+    assert.equal(
+      keyspaceStatement("CREATE", "Tenant A", { class: "SimpleStrategy", factor: 3 }, true),
+      `CREATE KEYSPACE IF NOT EXISTS "Tenant A" WITH REPLICATION = {'class': 'SimpleStrategy', 'replication_factor': 3};`
+    );
+    assert.equal(
+      keyspaceStatement("ALTER", "app", { class: "NetworkTopologyStrategy", datacenters: [{ name: "eu'west", factor: 3 }, { name: "us", factor: 0 }], durableWrites: false }),
+      `ALTER KEYSPACE app WITH REPLICATION = {'class': 'NetworkTopologyStrategy', 'eu''west': 3, 'us': 0} AND DURABLE_WRITES = false;`
+    );
+  });
+
+  it("rejects replications that are not valid", () => {
+    assert.throws(() => keyspaceStatement("CREATE", "app", { class: "SimpleStrategy", factor: 0 }), /must be a positive integer, got 0/);
+    assert.throws(() => keyspaceStatement("CREATE", "app", { class: "NetworkTopologyStrategy", datacenters: [] }), /at least one datacenter/);
+    assert.throws(
+      () => keyspaceStatement("CREATE", "app", { class: "NetworkTopologyStrategy", datacenters: [{ name: "eu", factor: 1 }, { name: "eu", factor: 2 }] }),
+      /Datacenter "eu" is listed more than once/
+    );
+    assert.throws(() => keyspaceStatement("CREATE", "app", { class: "LocalStrategy" } as any), /only available replication strategies/);
+  });
+
+  it("creates, alters and drops keyspaces through the client", async () => {
+    const { client, executed } = fakeClient();
+    await client.createKeyspace("tenant_a", { class: "SimpleStrategy", factor: 1 });
+    await client.alterKeyspace("tenant_a", { class: "SimpleStrategy", factor: 2, durableWrites: true });
+    await client.dropKeyspace("tenant_a", { ifExists: true });
+
+    assert.deepEqual(
+      executed.map(({ query }) => query),
+      [
+        "CREATE KEYSPACE IF NOT EXISTS tenant_a WITH REPLICATION = {'class': 'SimpleStrategy', 'replication_factor': 1};",
+        "ALTER KEYSPACE tenant_a WITH REPLICATION = {'class': 'SimpleStrategy', 'replication_factor': 2} AND DURABLE_WRITES = true;",
+        "DROP KEYSPACE IF EXISTS tenant_a;",
+      ]
+    );
+  });
+
+  it("describes the replication of a keyspace", async () => {
+    const { client, executed } = fakeClient(({ params }) =>
+      params[0] == "tenant_a"
+        ? { rows: [{ keyspace_name: "tenant_a", durable_writes: true, replication: { class: "org.apache.cassandra.locator.NetworkTopologyStrategy", eu: "3" } }] }
+        : params[0] == "system"
+          ? { rows: [{ keyspace_name: "system", durable_writes: true, replication: { class: "org.apache.cassandra.locator.LocalStrategy" } }] }
+          : undefined
+    );
+
+    assert.deepEqual(await client.describeKeyspace("tenant_a"), {
+      name: "tenant_a",
+      replication: { class: "NetworkTopologyStrategy", datacenters: [{ name: "eu", factor: 3 }], durableWrites: true },
+      options: { class: "org.apache.cassandra.locator.NetworkTopologyStrategy", eu: "3" },
+      durableWrites: true,
+    });
+    assert.equal((await client.describeKeyspace("system"))?.replication, null);
+    assert.equal(await client.describeKeyspace(), null);
+    assert.deepEqual(executed.at(-1)?.params, ["app"]);
+  });
+
+  it("creates the keyspace of the client when connecting", async () => {
+    const { client, executed } = fakeClient(undefined, { keyspace: "tenant_a", createKeyspace: { class: "SimpleStrategy", factor: 1 } });
+    await client.connect();
+
+    assert.deepEqual(
+      executed.map(({ query }) => query),
+      ["CREATE KEYSPACE IF NOT EXISTS tenant_a WITH REPLICATION = {'class': 'SimpleStrategy', 'replication_factor': 1};", "USE tenant_a;"]
+    );
+  });
+
+  it("reads and writes models, types and views in the keyspace of their schema", async () => {
+    const { client, executed } = fakeClient();
+    const point = defineType("point", { x: { type: "int" } }, { keyspace: "metrics" });
+    await point.init(client);
+    const stats = defineModel(
+      "stats",
+      { channel_id: { type: "text", partitionKey: true }, day: { type: "date", clusteringKey: true }, peak: { type: "frozen<point>" } },
+      { keyspace: "metrics" }
+    );
+    await stats.load(client);
+    const byDay = new MaterialView("stats_by_day", { tableName: stats, schema: { day: { partitionKey: true }, channel_id: { clusteringKey: true } } });
+    await byDay.load(client);
+
+    assert.deepEqual(
+      executed.map(({ query }) => query.split(" (")[0].replace(/ AS SELECT.*/, "")),
+      ["CREATE TYPE IF NOT EXISTS metrics.point", "CREATE TABLE IF NOT EXISTS metrics.stats", "CREATE MATERIALIZED VIEW IF NOT EXISTS metrics.stats_by_day"]
+    );
+
+    await stats.select({ $where: [{ equals: ["channel_id", "general"] }] });
+    assert.equal(executed.at(-1)?.query, "SELECT * FROM metrics.stats WHERE channel_id=?;");
+
+    const elsewhere = defineModel("traces", { id: { type: "int", partitionKey: true }, at: { type: "frozen<point>" } });
+    await assert.rejects(elsewhere.load(client), /Model "traces" in keyspace "app" can not use the "point" user defined type of keyspace "metrics"/);
+  });
+});
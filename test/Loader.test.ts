@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, describe, it } from "node:test";
+import { LoadError } from "../src/Loader";
+import { defineModel } from "../src/Model";
+import { fakeClient } from "./client";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "loader-"));
+const source = (module: string) => JSON.stringify(path.resolve(__dirname, "../src", module));
+
+/**
+ * Write the files of a fixture directory and return its path.
+ * @param name The name of the directory.
+ * @param files The contents of its files, keyed by relative path.
+ */
+const fixture = (name: string, files: Record<string, string>) => {
+  const directory = path.join(root, name);
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(directory, file)), { recursive: true });
+    fs.writeFileSync(path.join(directory, file), content);
+  }
+  return directory;
+};
+
+const created = (queries: { query: string }[]) => queries.map(({ query }) => /^CREATE (TYPE|TABLE|MATERIALIZED VIEW) IF NOT EXISTS (\S+)/.exec(query)?.slice(1).join(" "));
+
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+describe("Loader", () => {
+  it("loads the types, models and views of a directory in dependency order", async () => {
+    const directory = fixture("app", {
+      "views/by_city.js": `const { MaterialView } = require(${source("MaterialView")});
+module.exports = new MaterialView("users_by_city", { tableName: "users", schema: { city: { partitionKey: true }, id: { clusteringKey: true } } });`,
+      "models/users.js": `const { defineModel } = require(${source("Model")});
+exports.users = defineModel("users", { id: { type: "int", partitionKey: true }, city: { type: "text" }, home: { type: "frozen<address>" } });`,
+      "types/address.js": `const { defineType } = require(${source("UDT")});
+exports.default = { address: defineType("address", { city: { type: "text" }, location: { type: "frozen<point>" } }) };`,
+      "types/point.js": `const { defineType } = require(${source("UDT")});
+module.exports = { point: defineType("point", { x: { type: "int" } }) };`,
+      "models/helpers.js": `exports.now = () => new Date();`,
+      "models/types.d.ts": `export {};`,
+    });
+    const { client, executed, logs } = fakeClient();
+
+    await client.loader.load({ types: path.join(directory, "types"), models: path.join(directory, "models"), materialViews: path.join(directory, "views") });
+    assert.deepEqual(created(executed), ["TYPE app.point", "TYPE app.address", "TABLE app.users", "MATERIALIZED VIEW app.users_by_city"]);
+    assert.deepEqual(logs.filter((message) => message.includes("does not export")), [
+      `${path.join(directory, "models/helpers.js")} does not export a model, user defined type or material view`,
+    ]);
+  });
+
+  it("finds files by glob pattern and keeps instances passed directly", async () => {
+    const directory = fixture("glob", {
+      "a/messages.model.js": `const { defineModel } = require(${source("Model")});
+exports.messages = defineModel("messages", { id: { type: "int", partitionKey: true } });`,
+      "b/skipped.js": `throw new Error("not matched");`,
+    });
+    const { client, executed } = fakeClient();
+    const audit = defineModel("audit", { id: { type: "int", partitionKey: true } });
+
+    await client.loader.load({ models: [`${directory}/**/*.model.{js,ts}`, audit] });
+    assert.deepEqual(created(executed), ["TABLE app.messages", "TABLE app.audit"]);
+  });
+
+  it("recognizes items created by another copy of the package", async () => {
+    const modelPath = require.resolve("../src/Model");
+    const cached = require.cache[modelPath];
+    delete require.cache[modelPath];
+    try {
+      const copy: typeof import("../src/Model") = require(modelPath);
+      const { client, executed } = fakeClient();
+      await client.loader.load({ models: [copy.defineModel("copied", { id: { type: "int", partitionKey: true } })] });
+      assert.deepEqual(created(executed), ["TABLE app.copied"]);
+    } finally {
+      require.cache[modelPath] = cached;
+    }
+  });
+
+  it("loads everything it can and reports every failure together", async () => {
+    const directory = fixture("broken", {
+      "broken.js": `throw new Error("syntax is hard");`,
+      "orders.js": `const { defineModel } = require(${source("Model")});
+exports.orders = defineModel("orders", { id: { type: "int", partitionKey: true }, total: { type: "frozen<money>" } });`,
+      "users.js": `const { defineModel } = require(${source("Model")});
+exports.users = defineModel("users", { id: { type: "int", partitionKey: true } });`,
+    });
+    const { client, executed } = fakeClient();
+
+    const error = await client.loader.load({ models: [directory, "not a model" as unknown as string, 42 as never] }).then(
+      () => assert.fail("the load did not fail"),
+      (error: unknown) => error
+    );
+    assert.ok(error instanceof LoadError);
+    assert.deepEqual(
+      error.failures.map(({ source }) => source),
+      [path.join(directory, "broken.js"), "not a model", "42", "model orders"]
+    );
+    assert.deepEqual(
+      error.failures.map(({ error }) => error.message.split("\n")[0]),
+      [
+        "syntax is hard",
+        `ENOENT: no such file or directory, stat '${path.resolve("not a model")}'`,
+        "Not a model, user defined type or material view",
+        'Model "orders" requires the "money" user defined type which was not found!',
+      ]
+    );
+    assert.deepEqual(created(executed), ["TABLE app.users"]);
+  });
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { MaterialView, MaterialViewOptions } from "../src/MaterialView";
+import { defineModel } from "../src/Model";
+import { fakeClient } from "./client";
+
+const users = () =>
+  defineModel("users", {
+    id: { type: "uuid", partitionKey: true },
+    email: { type: "text" },
+    name: { type: "text" },
+    verified: { type: "boolean" },
+    joined: { type: "timestamp" },
+  });
+
+describe("MaterialView", () => {
+  it("creates views with their key, included columns, filters and clustering order", () => {
+    const view = new MaterialView("users_by_email", {
+      tableName: users(),
+      schema: { email: { partitionKey: true }, id: { clusteringKey: true, order: "DESC" } },
+      include: ["name"],
+      where: [{ equals: ["verified", true] }],
+    });
+
+    assert.equal(
+      view.createQuery("app").replace(/\s+/g, " "),
+      "CREATE MATERIALIZED VIEW IF NOT EXISTS app.users_by_email AS SELECT email, id, name FROM app.users" +
+        " WHERE email IS NOT NULL AND id IS NOT NULL AND verified=true PRIMARY KEY ((email), id) WITH CLUSTERING ORDER BY (id DESC);"
+    );
+  });
+
+  it("rejects views that do not fit their base table", () => {
+    const invalid = (options: Omit<MaterialViewOptions<any>, "tableName">, message: RegExp) =>
+      assert.throws(() => new MaterialView("invalid", { tableName: users(), ...options }).createQuery("app"), message);
+
+    invalid({ schema: { email: { partitionKey: true } } }, /primary key column "id" of the base table must be part of the primary key/);
+    invalid({ schema: { email: { partitionKey: true }, name: { clusteringKey: true }, id: { clusteringKey: 2 } } }, /only one column outside of the primary key/);
+    invalid({ schema: { nickname: { partitionKey: true }, id: { clusteringKey: true } } }, /"nickname" is not a column of the base table/);
+    invalid({ schema: { id: { partitionKey: true } }, include: ["nickname"] }, /"nickname" is included but is not a column/);
+  });
+
+  it("rejects filters on columns the base table does not have before building the view", () => {
+    const view = new MaterialView("users_by_email", {
+      tableName: users(),
+      schema: { email: { partitionKey: true }, id: { clusteringKey: true } },
+      where: [{ equals: ["deleted" as "verified", false] }],
+    });
+
+    assert.throws(() => view.createQuery("app"), /Invalid materialized view "users_by_email": "deleted" is filtered on but is not a column of the base table/);
+  });
+
+  it("rejects filters on several columns at once", () => {
+    const view = new MaterialView("users_by_email", {
+      tableName: users(),
+      schema: { email: { partitionKey: true }, id: { clusteringKey: true } },
+      where: [{ equals: [["name", "verified"], ["Ada", true]] }],
+    });
+
+    assert.throws(() => view.createQuery("app"), /can only filter single columns, found a multi-column relation/);
+  });
+
+  it("reads rows of the view with the codecs of its base table", async () => {
+    const model = users();
+    const { client, executed } = fakeClient(({ query }) =>
+      query.startsWith("SELECT") ? { rows: [{ id: "c2e6f6b4-2f6c-4d2b-9a3b-6a4b8b0f5a11", joined: new Date(0) }] } : undefined
+    );
+    await model.load(client);
+    const view = new MaterialView("users_by_email", { tableName: model, schema: { email: { partitionKey: true }, id: { clusteringKey: true } } });
+    await view.load(client);
+
+    const rows = await view.select({ $include: ["id", "joined"], $where: [{ equals: ["email", "ada@example.com"] }], $limit: 1 });
+    assert.equal(executed.at(-1)?.query, "SELECT id, joined FROM app.users_by_email WHERE email=? LIMIT ?;");
+    assert.deepEqual(rows, [{ id: "c2e6f6b4-2f6c-4d2b-9a3b-6a4b8b0f5a11", joined: new Date(0) }]);
+    assert.equal(client.materialViews.get("users_by_email"), view);
+  });
+});
@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { MIGRATION_HISTORY_TABLE } from "../src/Migration";
+import { defineModel } from "../src/Model";
+import { defineType } from "../src/UDT";
+import { ExecutedStatement, Response, fakeClient } from "./client";
+
+interface LiveTable {
+  columns: Record<string, { kind: string; position?: number; type: string; clustering_order?: string }>;
+  options?: Record<string, unknown>;
+}
+
+/**
+ * Answer the `system_schema` queries of the migrator with a live schema, and the history queries with its history.
+ */
+const liveSchema = (tables: Record<string, LiveTable>, history: { checksum: string }[] = []) =>
+  ({ query }: ExecutedStatement): Response | undefined => {
+    if (query.includes("FROM system_schema.tables"))
+      return { rows: Object.entries(tables).map(([table_name, { options }]) => ({ table_name, ...options })) };
+    if (query.includes("FROM system_schema.columns"))
+      return {
+        rows: Object.entries(tables).flatMap(([table_name, { columns }]) =>
+          Object.entries(columns).map(([column_name, column]) => ({ table_name, column_name, position: -1, clustering_order: "none", ...column }))
+        ),
+      };
+    if (query.includes(`FROM app.${MIGRATION_HISTORY_TABLE}`))
+      return { rows: history.map(({ checksum }) => ({ applied_at: { getDate: () => new Date(0) }, checksum, statements: [] })) };
+    return undefined;
+  };
+
+const users = () =>
+  defineModel("users", {
+    id: { type: "uuid", partitionKey: true },
+    name: { type: "text" },
+    age: { type: "int" },
+  }, { table: { speculative_retry: "99p", gc_grace_seconds: 3600 } });
+
+const liveUsers: LiveTable = {
+  columns: {
+    id: { kind: "partition_key", position: 0, type: "uuid" },
+    name: { kind: "regular", type: "text" },
+    age: { kind: "regular", type: "int" },
+  },
+  options: { speculative_retry: "99PERCENTILE", gc_grace_seconds: 3600 },
+};
+
+describe("Migrator", () => {
+  it("creates missing tables and types", async () => {
+    const { client } = fakeClient();
+    const address = defineType("address", { street: { type: "text" } });
+    await address.init(client);
+    await users().load(client);
+
+    const plan = await client.migrator.plan();
+    assert.deepEqual(plan.steps.map(({ kind, target }) => [kind, target]), [["createType", "address"], ["createTable", "users"]]);
+    assert.ok(plan.safeSteps.every((step) => step.query?.startsWith("CREATE")));
+  });
+
+  it("adds columns and reports changes it can not apply", async () => {
+    const { client } = fakeClient(liveSchema({
+      users: { columns: { id: liveUsers.columns.id, name: { kind: "regular", type: "int" }, legacy: { kind: "regular", type: "text" } } },
+    }));
+    await users().load(client);
+
+    const plan = await client.migrator.plan();
+    assert.deepEqual(plan.steps.map(({ kind, safe }) => [kind, safe]), [["alterColumn", false], ["addColumn", true], ["dropColumn", false]]);
+    assert.equal(plan.steps[1].query, "ALTER TABLE app.users ADD age int;");
+
+    const dropping = await client.migrator.plan({ dropColumns: true });
+    assert.equal(dropping.steps[2].query, "ALTER TABLE app.users DROP legacy;");
+  });
+
+  it("does not report table options the database stores in another spelling", async () => {
+    const { client } = fakeClient(liveSchema({ users: liveUsers }));
+    await users().load(client);
+
+    assert.ok((await client.migrator.plan()).empty);
+  });
+
+  it("compares map options by their declared keys and strategy classes by their short name", async () => {
+    const model = defineModel("events", { id: { type: "uuid", partitionKey: true } }, {
+      table: { compaction: { class: "LeveledCompactionStrategy", sstable_size_in_mb: 160 } },
+    });
+    const compaction = { class: "org.apache.cassandra.db.compaction.LeveledCompactionStrategy", sstable_size_in_mb: "160", fanout_size: "10" };
+    const { client } = fakeClient(liveSchema({ events: { columns: { id: liveUsers.columns.id }, options: { compaction } } }));
+    await model.load(client);
+
+    assert.ok((await client.migrator.plan()).empty);
+  });
+
+  it("alters table options that drifted", async () => {
+    const { client } = fakeClient(liveSchema({ users: { ...liveUsers, options: { speculative_retry: "95PERCENTILE", gc_grace_seconds: 60 } } }));
+    await users().load(client);
+
+    const plan = await client.migrator.plan();
+    assert.deepEqual(plan.steps.map((step) => step.query), ["ALTER TABLE app.users WITH speculative_retry = '99p' AND gc_grace_seconds = 3600;"]);
+  });
+
+  it("records applied plans in the history", async () => {
+    const { client, executed } = fakeClient(liveSchema({}));
+    await users().load(client);
+
+    const plan = await client.migrator.migrate();
+    const insert = executed.find((statement) => statement.query.startsWith(`INSERT INTO app.${MIGRATION_HISTORY_TABLE}`));
+    assert.equal(insert?.params[0], "app");
+    assert.equal(insert?.params[2], plan.checksum);
+  });
+
+  it("refuses to apply a plan the history records as applied unless forced", async () => {
+    const model = users();
+    const planned = fakeClient(liveSchema({}));
+    await model.load(planned.client);
+    const { checksum } = await planned.client.migrator.plan();
+
+    const { client, executed } = fakeClient(liveSchema({}, [{ checksum }]));
+    await model.load(client);
+    await assert.rejects(client.migrator.migrate(), /was already applied/);
+    assert.ok(!executed.some((statement) => statement.query.startsWith(`INSERT INTO app.${MIGRATION_HISTORY_TABLE}`)));
+
+    await client.migrator.migrate({ force: true });
+    assert.ok(executed.some((statement) => statement.query.startsWith(`INSERT INTO app.${MIGRATION_HISTORY_TABLE}`)));
+  });
+
+  it("records the history in the keyspace of the models when the client has none", async () => {
+    const { client, executed } = fakeClient(() => undefined, { keyspace: undefined });
+    await defineModel("events", { id: { type: "uuid", partitionKey: true } }, { keyspace: "analytics" }).load(client);
+
+    await client.migrator.migrate();
+    assert.ok(executed.some((statement) => statement.query.startsWith(`INSERT INTO analytics.${MIGRATION_HISTORY_TABLE}`)));
+  });
+
+  it("needs a keyspace for the history", async () => {
+    const { client } = fakeClient(() => undefined, { keyspace: undefined });
+    await assert.rejects(client.migrator.history(), /needs a keyspace/);
+  });
+});
@@ -0,0 +1,292 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { types } from "cassandra-driver";
+import { defineModel } from "../src/Model";
+import { ExecutedStatement, Response, fakeClient } from "./client";
+
+const messagesModel = () =>
+  defineModel("messages", {
+    channel_id: { type: "text", partitionKey: true },
+    id: { type: "int", clusteringKey: true },
+    content: { type: "text" },
+  });
+
+/**
+ * A loaded model on a fake client, with the statements executed while loading it cleared.
+ */
+const loaded = async <M extends { load: (client: any) => Promise<void> }>(model: M, respond?: (statement: ExecutedStatement) => Response | undefined) => {
+  const fake = fakeClient(respond);
+  await model.load(fake.client);
+  fake.executed.length = 0;
+  return { ...fake, model };
+};
+
+describe("pagination", () => {
+  // Three pages of two rows, chained by their page states.
+  const pages: Record<string, Response> = {
+    "": { rows: [{ id: 1 }, { id: 2 }], pageState: "aa" },
+    aa: { rows: [{ id: 3 }, { id: 4 }], pageState: "bb" },
+    bb: { rows: [{ id: 5 }] },
+  };
+  const respond = ({ options }: ExecutedStatement) => pages[options.pageState ?? ""];
+
+  it("returns a page and the state of the next one", async () => {
+    const { model, executed } = await loaded(messagesModel(), respond);
+    const page = await model.paginate({ $where: [{ equals: ["channel_id", "general"] }], $fetchSize: 2, $pageState: "aa" });
+
+    assert.deepEqual(page, { rows: [{ id: 3 }, { id: 4 }], nextPageState: "bb" });
+    assert.equal(executed[0].options.fetchSize, 2);
+    assert.equal(executed[0].options.pageState, "aa");
+  });
+
+  it("has no next page state on the last page", async () => {
+    const { model } = await loaded(messagesModel(), respond);
+    const page = await model.paginate({ $where: [{ equals: ["channel_id", "general"] }], $pageState: "bb" });
+    assert.equal(page.nextPageState, undefined);
+  });
+
+  it("iterates every row, one page at a time", async () => {
+    const { model, executed } = await loaded(messagesModel(), respond);
+    const ids: unknown[] = [];
+    for await (const message of model.iterate({ $where: [{ equals: ["channel_id", "general"] }], $fetchSize: 2 })) ids.push(message.id);
+
+    assert.deepEqual(ids, [1, 2, 3, 4, 5]);
+    assert.deepEqual(executed.map((statement) => statement.options.pageState), [undefined, "aa", "bb"]);
+  });
+
+  it("splits the token ring into contiguous ranges", () => {
+    const ranges = messagesModel().tokenRanges(4);
+
+    assert.equal(ranges.length, 4);
+    assert.ok(ranges[0][0].equals(types.Long.MIN_VALUE));
+    assert.ok(ranges[3][1].equals(types.Long.MAX_VALUE));
+    for (let i = 1; i < ranges.length; i++) assert.ok(ranges[i][0].equals(ranges[i - 1][1]));
+  });
+
+  it("scans every token range of the partition key", async () => {
+    const { model, executed } = await loaded(messagesModel(), () => ({ rows: [{ channel_id: "general", id: 1 }] }));
+    const ranges = model.tokenRanges(3);
+    const rows = [];
+    for await (const message of model.scan({ $ranges: ranges, $include: ["id"] })) rows.push(message);
+
+    assert.equal(rows.length, 3);
+    assert.equal(executed[0].query, "SELECT id FROM app.messages WHERE token(channel_id) > ? AND token(channel_id) <= ?;");
+    assert.deepEqual(executed.map((statement) => statement.params), ranges);
+  });
+});
+
+describe("writes", () => {
+  const where = () => [{ equals: ["channel_id", "general"] as ["channel_id", string] }, { equals: ["id", 1] as ["id", number] }];
+
+  it("inserts with a time to live and a write timestamp, only if the row does not exist", async () => {
+    const { model, executed } = await loaded(messagesModel());
+    await model.insert({ channel_id: "general", id: 1, content: "hi" }, { ttl: 60, timestamp: new Date(1000) });
+
+    assert.equal(executed[0].query, "INSERT INTO app.messages (channel_id, id, content) VALUES (?, ?, ?) IF NOT EXISTS USING TTL ? AND TIMESTAMP ?;");
+    assert.deepEqual(executed[0].params.slice(0, 4), ["general", 1, "hi", 60]);
+    assert.equal(String(executed[0].params[4]), "1000000");
+  });
+
+  it("updates without a lightweight transaction unless asked", async () => {
+    const { model, executed } = await loaded(messagesModel());
+    await model.update({ $set: { content: "a" }, $where: where() });
+    await model.update({ $set: { content: "b" }, $where: where(), $ifExists: true });
+    await model.update({ $set: { content: "c" }, $where: where(), $if: [{ equals: ["content", "b"] }] });
+
+    assert.deepEqual(executed.map(({ query }) => query), [
+      "UPDATE app.messages SET content=? WHERE channel_id=? AND id=?;",
+      "UPDATE app.messages SET content=? WHERE channel_id=? AND id=? IF EXISTS;",
+      "UPDATE app.messages SET content=? WHERE channel_id=? AND id=? IF content=?;",
+    ]);
+  });
+
+  it("deletes without a lightweight transaction unless asked", async () => {
+    const { model, executed } = await loaded(messagesModel());
+    await model.delete({ $where: where() });
+    await model.delete({ $where: where(), $ifExists: true, $timestamp: 5 });
+
+    assert.deepEqual(executed.map(({ query }) => query), [
+      "DELETE FROM app.messages WHERE channel_id=? AND id=?;",
+      "DELETE FROM app.messages USING TIMESTAMP ? WHERE channel_id=? AND id=? IF EXISTS;",
+    ]);
+  });
+
+  it("returns the current values of the row when a condition does not hold", async () => {
+    const { model } = await loaded(messagesModel(), () => ({ rows: [{ "[applied]": false, content: "edited" }] }));
+    const result = await model.update({ $set: { content: "mine" }, $where: where(), $if: [{ equals: ["content", "original"] }] });
+
+    assert.deepEqual(result, { applied: false, current: { content: "edited" } });
+  });
+
+  it("reports writes without a lightweight transaction as applied", async () => {
+    const { model } = await loaded(messagesModel());
+    assert.deepEqual(await model.update({ $set: { content: "a" }, $where: where() }), { applied: true });
+  });
+});
+
+describe("collection operators", () => {
+  const profiles = () =>
+    defineModel("profiles", {
+      id: { type: "int", partitionKey: true },
+      history: { type: "list<text>" },
+      roles: { type: "set<text>" },
+      settings: { type: "map<text, int>" },
+    });
+  const where = () => [{ equals: ["id", 1] as ["id", number] }];
+
+  it("compiles each operator to its assignment", async () => {
+    const { model, executed } = await loaded(profiles());
+    await model.update({ $set: { history: { $append: ["b"] } }, $where: where() });
+    await model.update({ $set: { history: { $prepend: ["a"] } }, $where: where() });
+    await model.update({ $set: { history: { $setIndex: [0, "z"] } }, $where: where() });
+    await model.update({ $set: { roles: { $addToSet: ["admin"] } }, $where: where() });
+    await model.update({ $set: { roles: { $remove: ["guest"] } }, $where: where() });
+    await model.update({ $set: { settings: { $putKey: ["theme", 2] } }, $where: where() });
+    await model.update({ $set: { settings: { $putKey: { volume: 3 } } }, $where: where() });
+    await model.update({ $set: { settings: { $removeKey: ["theme"] } }, $where: where() });
+
+    assert.deepEqual(executed.map(({ query }) => query), [
+      "UPDATE app.profiles SET history = history + ? WHERE id=?;",
+      "UPDATE app.profiles SET history = ? + history WHERE id=?;",
+      "UPDATE app.profiles SET history[?] = ? WHERE id=?;",
+      "UPDATE app.profiles SET roles = roles + ? WHERE id=?;",
+      "UPDATE app.profiles SET roles = roles - ? WHERE id=?;",
+      "UPDATE app.profiles SET settings[?] = ? WHERE id=?;",
+      "UPDATE app.profiles SET settings = settings + ? WHERE id=?;",
+      "UPDATE app.profiles SET settings = settings - ? WHERE id=?;",
+    ]);
+    assert.deepEqual(executed[2].params, [0, "z", 1]);
+    assert.deepEqual(executed[5].params, ["theme", 2, 1]);
+  });
+
+  it("deletes list and map elements with a DELETE statement", async () => {
+    const { model, executed, batches } = await loaded(profiles());
+    await model.update({ $set: { history: { $deleteIndex: 2 } }, $where: where() });
+    await model.update({ $set: { settings: { $deleteIndex: "theme" }, roles: { $addToSet: ["admin"] } }, $where: where() });
+
+    assert.deepEqual(executed.map(({ query }) => query), ["DELETE history[?] FROM app.profiles WHERE id=?;"]);
+    assert.deepEqual(executed[0].params, [2, 1]);
+    assert.deepEqual(batches[0].map(({ query }) => query), [
+      "UPDATE app.profiles SET roles = roles + ? WHERE id=?;",
+      "DELETE settings[?] FROM app.profiles WHERE id=?;",
+    ]);
+  });
+
+  it("rejects operators the collection does not support", async () => {
+    const { model } = await loaded(profiles());
+    await assert.rejects(model.update({ $set: { roles: { $append: ["admin"] } } as any, $where: where() }), /does not support "\$append"/);
+    await assert.rejects(model.update({ $set: { settings: { $setIndex: [0, 1] } } as any, $where: where() }), /does not support "\$setIndex"/);
+    await assert.rejects(
+      model.update({ $set: { history: { $deleteIndex: 0 }, roles: { $addToSet: ["admin"] } }, $where: where(), $ifExists: true }),
+      /can not combine "\$deleteIndex"/
+    );
+  });
+});
+
+describe("filtering", () => {
+  const articles = () =>
+    defineModel("articles", {
+      author: { type: "text", partitionKey: true },
+      published: { type: "int", clusteringKey: 1 },
+      id: { type: "int", clusteringKey: 2 },
+      title: { type: "text" },
+      tags: { type: "set<text>" },
+    }, { indexes: [{ column: "tags" }, { column: "title", using: "sai" }] });
+
+  const reason = async (where: Parameters<ReturnType<typeof articles>["select"]>[0]["$where"]) => {
+    const { client } = fakeClient(undefined, { filtering: "throw" });
+    const model = articles();
+    await model.load(client);
+    return model.select({ $where: where }).then(() => undefined, (error: Error) => error.message);
+  };
+
+  it("accepts queries the primary key or an index can serve", async () => {
+    assert.equal(await reason([{ equals: ["author", "ada"] }, { greaterThanOrEqual: ["published", 2020] }]), undefined);
+    assert.equal(await reason([{ equals: ["author", "ada"] }, { equals: ["published", 2020] }, { lessThan: ["id", 5] }]), undefined);
+    assert.equal(await reason([{ contains: ["tags", "cassandra"] }]), undefined);
+    assert.equal(await reason([{ greaterThanOrEqual: ["title", "m"] }]), undefined);
+  });
+
+  it("explains why a query needs ALLOW FILTERING", async () => {
+    assert.match(await reason([{ equals: ["published", 2020] }]) ?? "", /clustering column "published" is restricted without restricting the partition key/);
+    assert.match(await reason([{ equals: ["author", "ada"] }, { equals: ["id", 1] }]) ?? "", /preceding clustering column is not restricted/);
+    assert.match(await reason([{ notEquals: ["author", "ada"] }]) ?? "", /uses "notEquals"/);
+    assert.match(await reason([{ equals: ["author", "ada"] }, { equals: ["tags", ["a"]] }]) ?? "", /"tags" is not part of the primary key and has no index that supports "equals"/);
+  });
+
+  it("warns, throws or ignores depending on the client", async () => {
+    const where = [{ equals: ["published", 2020] as ["published", number] }];
+    const warned = await loaded(articles());
+    await warned.model.select({ $where: where });
+    assert.match(warned.logs.at(-1) ?? "", /^Query on "articles" requires ALLOW FILTERING/);
+
+    const ignoring = fakeClient(undefined, { filtering: "ignore" });
+    const model = articles();
+    await model.load(ignoring.client);
+    await model.select({ $where: where });
+    assert.ok(!ignoring.logs.some((message) => message.includes("ALLOW FILTERING")));
+  });
+
+  it("skips the check and adds ALLOW FILTERING when asked", async () => {
+    const { client, executed } = fakeClient(undefined, { filtering: "throw" });
+    const model = articles();
+    await model.load(client);
+    await model.select({ $where: [{ equals: ["published", 2020] }], $allowFiltering: true });
+
+    assert.equal(executed.at(-1)?.query, "SELECT * FROM app.articles WHERE published=? ALLOW FILTERING;");
+  });
+});
+
+describe("select options", () => {
+  const orders = () =>
+    defineModel("orders", {
+      customer: { type: "text", partitionKey: true },
+      day: { type: "date", clusteringKey: 1 },
+      id: { type: "int", clusteringKey: 2 },
+      region: { type: "text", static: true },
+      amount: { type: "decimal" },
+    });
+  const where = () => [{ equals: ["customer", "ada"] as ["customer", string] }];
+
+  it("orders, limits and filters rows", async () => {
+    const { model, executed } = await loaded(orders());
+    await model.select({ $include: ["id"], $where: where(), $orderBy: { day: "DESC", id: "DESC" }, $perPartitionLimit: 2, $limit: 10 });
+    await model.select({ $where: [{ equals: ["amount", "10"] }], $allowFiltering: true });
+
+    assert.deepEqual(executed.map(({ query }) => query), [
+      "SELECT id FROM app.orders WHERE customer=? ORDER BY day DESC, id DESC PER PARTITION LIMIT ? LIMIT ?;",
+      "SELECT * FROM app.orders WHERE amount=? ALLOW FILTERING;",
+    ]);
+    assert.deepEqual(executed[0].params.slice(1), [2, 10]);
+  });
+
+  it("selects distinct partitions", async () => {
+    const { model, executed } = await loaded(orders());
+    await model.select({ $where: [], $distinct: true });
+    await model.select({ $include: ["customer", "region"], $where: [], $distinct: true });
+
+    assert.deepEqual(executed.map(({ query }) => query), [
+      "SELECT DISTINCT customer FROM app.orders;",
+      "SELECT DISTINCT customer, region FROM app.orders;",
+    ]);
+  });
+
+  it("groups rows and decodes their aggregates", async () => {
+    const { model, executed } = await loaded(orders(), () => ({
+      rows: [{ day: types.LocalDate.fromString("2024-01-01"), total: types.BigDecimal.fromString("12.50"), orders: types.Long.fromNumber(3) }],
+    }));
+    const rows = await model.select({ $where: where(), $groupBy: ["customer", "day"], $aggregates: { total: { sum: "amount" }, orders: { count: "*" } } });
+
+    assert.equal(executed[0].query, "SELECT customer, day, sum(amount) AS total, count(*) AS orders FROM app.orders WHERE customer=? GROUP BY customer, day;");
+    assert.deepEqual(rows, [{ day: "2024-01-01", total: "12.50", orders: 3 }]);
+  });
+
+  it("rejects options the table can not serve", async () => {
+    const { model } = await loaded(orders());
+    await assert.rejects(model.select({ $where: where(), $orderBy: { amount: "ASC" } }), /because it is not a clustering column/);
+    await assert.rejects(model.select({ $include: ["amount"], $where: [], $distinct: true }), /because it is not a partition key or static column/);
+    await assert.rejects(model.select({ $where: where(), $groupBy: ["day"] }), /because it is not a prefix of the primary key/);
+    await assert.rejects(model.select({ $where: where(), $aggregates: { top: { max: "price" as "amount" } } }), /because it is not a column of "orders"/);
+    await assert.rejects(model.select({ $where: where(), $orderBy: { id: "SIDEWAYS" as "ASC" } }), /Unsupported sort order/);
+  });
+});
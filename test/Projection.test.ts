@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defineModel } from "../src/Model";
+import { Responder, fakeClient } from "./client";
+
+const stored = { channel_id: "general", id: 1, author_id: "ada", content: "hi" };
+
+const models = async (respond: Responder = ({ query }) => (query.startsWith("SELECT") ? { rows: [stored] } : undefined)) => {
+  const fake = fakeClient(respond);
+  const messages = defineModel("messages", {
+    channel_id: { type: "text", partitionKey: true },
+    id: { type: "int", clusteringKey: true },
+    author_id: { type: "text" },
+    content: { type: "text" },
+  });
+  const byAuthor = defineModel("messages_by_author", {
+    author_id: { type: "text", partitionKey: true },
+    channel_id: { type: "text", clusteringKey: 1 },
+    id: { type: "int", clusteringKey: 2 },
+    content: { type: "text" },
+  });
+  await messages.load(fake.client);
+  await byAuthor.load(fake.client);
+  messages.project(byAuthor);
+  fake.executed.length = 0;
+  return { ...fake, messages, byAuthor };
+};
+
+const where = () => [{ equals: ["channel_id", "general"] as ["channel_id", string] }, { equals: ["id", 1] as ["id", number] }];
+const queries = (statements: { query: string }[]) => statements.map(({ query }) => query);
+
+describe("projections", () => {
+  it("inserts the projection row once a new row was inserted", async () => {
+    const { batches, executed, messages } = await models(() => undefined);
+    await messages.insert({ ...stored, id: 2 });
+
+    assert.deepEqual(queries(executed), ["INSERT INTO app.messages (channel_id, id, author_id, content) VALUES (?, ?, ?, ?) IF NOT EXISTS;"]);
+    assert.deepEqual(queries(batches[0]), ["INSERT INTO app.messages_by_author (author_id, channel_id, id, content) VALUES (?, ?, ?, ?);"]);
+    assert.equal(batches[0][0].options.logged, true);
+  });
+
+  it("moves the projection row of a replaced row in the same logged batch", async () => {
+    const { batches, messages } = await models();
+    await messages.insert({ ...stored, author_id: "grace" }, { ifNotExists: false });
+
+    assert.deepEqual(queries(batches[0]), [
+      "INSERT INTO app.messages (channel_id, id, author_id, content) VALUES (?, ?, ?, ?);",
+      "DELETE FROM app.messages_by_author WHERE author_id=? AND channel_id=? AND id=?;",
+      "INSERT INTO app.messages_by_author (author_id, channel_id, id, content) VALUES (?, ?, ?, ?);",
+    ]);
+    assert.deepEqual(batches[0][1].params, ["ada", "general", 1]);
+  });
+
+  it("updates the projection row of the row it read", async () => {
+    const { batches, executed, messages } = await models();
+    await messages.update({ $set: { content: "edited" }, $where: where() });
+
+    assert.deepEqual(queries(executed), ["SELECT * FROM app.messages WHERE channel_id=? AND id=?;"]);
+    assert.deepEqual(queries(batches[0]), [
+      "UPDATE app.messages SET content=? WHERE channel_id=? AND id=?;",
+      "UPDATE app.messages_by_author SET content=? WHERE author_id=? AND channel_id=? AND id=?;",
+    ]);
+    assert.deepEqual(batches[0][1].params, ["edited", "ada", "general", 1]);
+  });
+
+  it("moves the projection row when the update changes its key", async () => {
+    const { batches, messages } = await models();
+    await messages.update({ $set: { author_id: "grace" }, $where: where() });
+
+    assert.deepEqual(queries(batches[0]).slice(1), [
+      "DELETE FROM app.messages_by_author WHERE author_id=? AND channel_id=? AND id=?;",
+      "INSERT INTO app.messages_by_author (author_id, channel_id, id, content) VALUES (?, ?, ?, ?);",
+    ]);
+    assert.deepEqual(batches[0][2].params, ["grace", "general", 1, "hi"]);
+  });
+
+  it("creates a missing row and its projection row like any update, unless only existing rows are updated", async () => {
+    const { batches, executed, messages } = await models(() => undefined);
+
+    assert.deepEqual(await messages.update({ $set: { author_id: "ada", content: "new" }, $where: where() }), { applied: true });
+    assert.deepEqual(queries(batches[0]).slice(1), ["INSERT INTO app.messages_by_author (author_id, channel_id, id, content) VALUES (?, ?, ?, ?);"]);
+
+    executed.length = 0;
+    assert.deepEqual(await messages.update({ $set: { content: "new" }, $where: where(), $ifExists: true }), { applied: false });
+    assert.deepEqual(queries(executed), ["SELECT * FROM app.messages WHERE channel_id=? AND id=?;"]);
+    assert.equal(batches.length, 1);
+  });
+
+  it("writes the projection only once a conditional update was applied", async () => {
+    let applied = false;
+    const { batches, executed, messages } = await models(({ query }) =>
+      query.startsWith("SELECT") ? { rows: [stored] } : { rows: [{ "[applied]": applied }] }
+    );
+
+    assert.equal((await messages.update({ $set: { content: "edited" }, $where: where(), $if: [{ equals: ["content", "hi"] }] })).applied, false);
+    assert.equal(batches.length, 0);
+
+    applied = true;
+    await messages.update({ $set: { content: "edited" }, $where: where(), $if: [{ equals: ["content", "hi"] }] });
+    assert.equal(executed.at(-1)?.query, "UPDATE app.messages SET content=? WHERE channel_id=? AND id=? IF content=?;");
+    assert.deepEqual(queries(batches[0]), ["UPDATE app.messages_by_author SET content=? WHERE author_id=? AND channel_id=? AND id=?;"]);
+  });
+
+  it("deletes the projection rows of the deleted rows", async () => {
+    const { batches, messages } = await models();
+    await messages.delete({ $where: where() });
+
+    assert.deepEqual(queries(batches[0]), [
+      "DELETE FROM app.messages WHERE channel_id=? AND id=?;",
+      "DELETE FROM app.messages_by_author WHERE author_id=? AND channel_id=? AND id=?;",
+    ]);
+  });
+
+  it("rejects projections that need columns the model does not have", async () => {
+    const { messages } = await models();
+    const byTopic = defineModel("messages_by_topic", { topic: { type: "text", partitionKey: true }, id: { type: "int", clusteringKey: true } });
+
+    assert.throws(() => messages.project(byTopic), /Can not project "messages" onto "messages_by_topic": "topic" is not a column of "messages"/);
+  });
+});
@@ -0,0 +1,319 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { types } from "cassandra-driver";
+import { qualifiedName } from "../src/Identifier";
+import { defineModel } from "../src/Model";
+import {
+  CollectionOperator,
+  Statement,
+  UDTFieldTypes,
+  countStatement,
+  cqlLiteral,
+  deleteStatement,
+  insertStatement,
+  selectStatement,
+  updateStatement,
+} from "../src/Query";
+import { StatementCache, normalizeQuery } from "../src/StatementCache";
+import { CqlType, parseType } from "../src/TypeParser";
+import { fakeClient } from "./client";
+import { Random, Token, lex, random, randomName, randomValue } from "./helpers";
+
+const columnOperators = ["equals", "notEquals", "greaterThanOrEqual", "lessThanOrEqual", "moreThan", "lessThan", "contains", "notContains"];
+const tupleOperators = ["equals", "greaterThanOrEqual", "lessThanOrEqual", "moreThan", "lessThan"];
+
+/**
+ * Every value a statement binds, walking into lists, tuples, maps and sets.
+ */
+const boundValues = (value: unknown): unknown[] => {
+  if (value instanceof types.Tuple) return value.elements.flatMap(boundValues);
+  if (value instanceof Map) return [...value].flatMap(boundValues);
+  if (value instanceof Set || Array.isArray(value)) return [...value].flatMap(boundValues);
+  return [value];
+};
+
+/**
+ * Check that a statement binds every value instead of writing it into the query.
+ * @param statement The generated statement.
+ * @param values The values passed to the generator.
+ */
+const assertBound = ({ query, params }: Statement, values: string[]) => {
+  assert.doesNotMatch(query, /VALUE\d+/, `A value leaked into ${query}`);
+
+  const tokens = lex(query);
+  assert.ok(!tokens.some((token) => token.kind == "string"), `A string literal is in ${query}`);
+  assert.equal(tokens.filter((token) => token.kind == "marker").length, params.length, `The bind markers of ${query} do not match its ${params.length} parameters`);
+
+  const bound = boundValues(params);
+  for (const value of values) assert.ok(bound.includes(value), `${value} is not bound by ${query}`);
+};
+
+const queries = (statements: [Statement, string[]][]) => statements.map(([{ query }]) => normalizeQuery(query));
+
+const randomColumns = (rng: Random) => [...new Set(Array.from({ length: 1 + rng.int(3) }, () => randomName(rng)))];
+
+/**
+ * Random where clauses on the columns, collecting the values they bind.
+ */
+const randomWhere = (rng: Random, columns: string[], value: () => string) =>
+  columns.map((column): any => {
+    switch (rng.int(4)) {
+      case 0:
+        return { in: [column, [value(), value()]] };
+      case 1:
+        return { [rng.pick(tupleOperators)]: [[column, column], [value(), value()]] };
+      default:
+        return { [rng.pick(columnOperators)]: [column, value()] };
+    }
+  });
+
+/**
+ * Generate a statement of every kind on the same random table and columns. Each call binds new values.
+ * @returns Every statement with the values it has to bind.
+ */
+const randomStatements = (rng: Random, cache?: StatementCache) => {
+  const seed = rng.int(2 ** 30);
+
+  return (next: Random): [Statement, string[]][] => {
+    const shape = random(seed);
+    const values = () => {
+      const generated: string[] = [];
+      const value = () => {
+        const text = randomValue(next);
+        generated.push(text);
+        return text;
+      };
+      return [generated, value] as const;
+    };
+
+    const table = qualifiedName(randomName(shape), randomName(shape));
+    const columns = randomColumns(shape);
+    const [whereValues, whereValue] = values();
+    const where = randomWhere(shape, columns, whereValue);
+    const [dataValues, dataValue] = values();
+    const data = Object.fromEntries(columns.map((column) => [column, dataValue()]));
+    const [operationValues, operationValue] = values();
+    const operations: Record<Exclude<CollectionOperator, "$deleteIndex">, () => unknown> = {
+      $append: () => [operationValue()],
+      $prepend: () => [operationValue()],
+      $addToSet: () => [operationValue()],
+      $remove: () => [operationValue()],
+      $putKey: () => [operationValue(), operationValue()],
+      $removeKey: () => [operationValue()],
+      $setIndex: () => [next.int(10), operationValue()],
+    };
+    const operator = shape.pick(Object.keys(operations) as (keyof typeof operations)[]);
+    const operation = operations[operator]();
+    const [elementValues, elementValue] = values();
+    const elements: [string, any][] = [[columns[0], elementValue()]];
+    const limit = 1 + next.int(1000);
+    const ttl = next.int(100000);
+    const timestamp = new Date(next.int(2 ** 40));
+
+    return [
+      [selectStatement<any>(table, { columns, where, limit, perPartitionLimit: limit, orderBy: [[columns[0], "DESC"]], aggregates: { [randomName(shape)]: { max: columns[0] } } }, cache), whereValues],
+      [countStatement<any>(table, { where, limit }, cache), whereValues],
+      [insertStatement<any>(table, { data, ttl, timestamp, ifNotExists: shape.next() < 0.5 }, cache), dataValues],
+      [updateStatement<any>(table, { set: data, where, ttl, timestamp, conditions: where }, cache), [...dataValues, ...whereValues]],
+      [updateStatement<any>(table, { set: { [columns[0]]: { [operator]: operation } }, where, timestamp }, cache), [...operationValues, ...whereValues]],
+      [deleteStatement<any>(table, { where, timestamp, elements, conditions: where }, cache), [...elementValues, ...whereValues]],
+    ];
+  };
+};
+
+describe("cqlLiteral", () => {
+  it("escapes text so it reads back as the same string", () => {
+    const rng = random(10);
+    for (let i = 0; i < 5000; i++) {
+      const value = randomValue(rng) + randomName(rng);
+      assert.deepEqual(lex(cqlLiteral(parseType("text"), value)), [{ kind: "string", value }]);
+    }
+  });
+
+  it("renders collections, tuples and user defined types with every value escaped", () => {
+    const address = { "Street": parseType("text"), "zip code": parseType("int"), "tags": parseType("set<text>") };
+    const udtFields: UDTFieldTypes = (name) => (name == "address" ? address : undefined);
+    const type = parseType("map<text, frozen<list<tuple<text, frozen<address>>>>>");
+    const rng = random(11);
+
+    for (let i = 0; i < 1000; i++) {
+      const strings: string[] = [];
+      const text = () => {
+        const value = randomValue(rng) + randomName(rng);
+        strings.push(value);
+        return value;
+      };
+      const value = new Map(Array.from({ length: 1 + rng.int(3) }, () => [
+        text(),
+        Array.from({ length: rng.int(3) }, () => [text(), { street: text(), "zip code": rng.int(99999), tags: [text()] }]),
+      ]));
+
+      const tokens = lex(cqlLiteral(type, value, udtFields));
+      assert.deepEqual(tokens.filter((token): token is Extract<Token, { kind: "string" }> => token.kind == "string").map((token) => token.value), strings);
+      for (const token of tokens) if (token.kind == "identifier") assert.ok(["Street", "zip code", "tags"].includes(token.value), `Unexpected identifier ${token.value}`);
+    }
+  });
+
+  it("rejects values that are not literals of their type", () => {
+    const udtFields: UDTFieldTypes = (name) => (name == "address" ? { street: parseType("text") } : undefined);
+    const cases: [string, unknown][] = [
+      ["int", "1; DROP TABLE users"],
+      ["bigint", "1) OR (1=1"],
+      ["decimal", "NaN"],
+      ["boolean", "true"],
+      ["uuid", "00000000-0000-0000-0000-000000000000' OR '1"],
+      ["blob", "0x00"],
+      ["frozen<address>", { street: "a", "street) VALUES (1": "b" }],
+      ["frozen<address>", "{street: 'a'}"],
+      ["frozen<unknown>", {}],
+    ];
+
+    for (const [type, value] of cases) assert.throws(() => cqlLiteral(parseType(type), value, udtFields), `${type} accepted ${JSON.stringify(value)}`);
+  });
+
+  it("renders the literals of other types", () => {
+    const check = (type: CqlType, value: unknown, literal: string) => assert.equal(cqlLiteral(type, value), literal);
+    check(parseType("int"), -12, "-12");
+    check(parseType("decimal"), "1.5e-3", "1.5e-3");
+    check(parseType("boolean"), false, "false");
+    check(parseType("blob"), Buffer.from([0, 255]), "0x00ff");
+    check(parseType("timestamp"), new Date(0), "'1970-01-01T00:00:00.000Z'");
+    check(parseType("text"), null, "NULL");
+  });
+});
+
+describe("statements", () => {
+  it("bind every value instead of writing it into the query", () => {
+    const rng = random(20);
+    for (let i = 0; i < 2000; i++)
+      for (const [statement, values] of randomStatements(rng)(rng)) assertBound(statement, values);
+  });
+
+  it("reuse the query of a shape whatever its values", () => {
+    const rng = random(21);
+    for (let i = 0; i < 500; i++) {
+      const generate = randomStatements(rng);
+      assert.deepEqual(queries(generate(random(i))), queries(generate(random(i + 1))));
+
+      const cache = new StatementCache();
+      const cached = randomStatements(rng, cache);
+      const first = cached(random(i));
+      const second = cached(random(i + 1));
+      assert.deepEqual(queries(first), queries(second));
+      for (const [statement, values] of second) assertBound(statement, values);
+      assert.equal(cache.stats.size, 6);
+      assert.equal(cache.stats.hits, 6);
+    }
+  });
+
+  it("reject limits, times to live and timestamps that are not finite numbers", () => {
+    assert.throws(() => selectStatement<any>("t", { where: [], limit: "1; DROP TABLE t" as any }));
+    assert.throws(() => countStatement<any>("t", { where: [], limit: Infinity }));
+    assert.throws(() => selectStatement<any>("t", { where: [], limit: 0 }), /at least 1/);
+    assert.throws(() => selectStatement<any>("t", { where: [], perPartitionLimit: 0.5 }), /at least 1/);
+    assert.throws(() => insertStatement<any>("t", { data: { a: 1 }, ttl: -1 }), /at least 0/);
+    assert.throws(() => insertStatement<any>("t", { data: { a: 1 }, ttl: NaN }));
+    assert.throws(() => updateStatement<any>("t", { set: { a: 1 }, where: [], timestamp: new Date(NaN) }));
+    assert.throws(() => selectStatement<any>("t", { where: [], orderBy: [["a", "ASC; DROP TABLE t" as any]] }));
+  });
+
+  it("round limits and times to live down to integers", () => {
+    assert.deepEqual(countStatement<any>("t", { where: [], limit: 2.9 }).params, [2]);
+    assert.deepEqual(insertStatement<any>("t", { data: { a: 1 }, ttl: 10.5 }).params, [1, 10]);
+  });
+});
+
+describe("QueryBuilder", () => {
+  const messages = async () => {
+    const fake = fakeClient();
+    const model = defineModel("messages", {
+      channel_id: { type: "text", partitionKey: true },
+      created_at: { type: "int", clusteringKey: true },
+      content: { type: "text" },
+    });
+    await model.load(fake.client);
+    fake.executed.length = 0;
+    return { ...fake, model };
+  };
+
+  it("compiles chained conditions, ordering and limits into one select", async () => {
+    const { model, executed } = await messages();
+    await model.find().where("channel_id").eq("general").and("created_at").gte(10).orderBy("created_at", "DESC").limit(50).select("content");
+
+    assert.equal(executed[0].query, "SELECT content FROM app.messages WHERE channel_id=? AND created_at>=? ORDER BY created_at DESC LIMIT ?;");
+    assert.deepEqual(executed[0].params, ["general", 10, 50]);
+    assert.equal(executed[0].options.prepare, true);
+  });
+
+  it("rejects a limit of 0 instead of dropping it", async () => {
+    const { model, executed } = await messages();
+    await assert.rejects(model.find().where("channel_id").eq("general").limit(0).select(), /The limit must be at least 1/);
+    await assert.rejects(model.select({ $where: [{ equals: ["channel_id", "general"] }], $limit: 0 }), /The limit must be at least 1/);
+    assert.equal(executed.length, 0);
+  });
+
+  it("passes whether to prepare to the compiled statement", async () => {
+    const { model } = await messages();
+    assert.equal(model.find().where("channel_id").eq("general").toSelect().prepare, true);
+
+    const statement = model.find().where("channel_id").eq("general").prepare(false).toSelect("content");
+    assert.deepEqual(statement, { query: "SELECT content FROM app.messages WHERE channel_id=?;", params: ["general"], prepare: false });
+  });
+});
+
+describe("multi-column and token relations", () => {
+  const events = async () => {
+    const fake = fakeClient();
+    const model = defineModel("events", {
+      tenant: { type: "text", partitionKey: 1 },
+      bucket: { type: "int", partitionKey: 2 },
+      day: { type: "date", clusteringKey: 1 },
+      id: { type: "int", clusteringKey: 2 },
+      seq: { type: "int", clusteringKey: 3 },
+      payload: { type: "text" },
+    });
+    await model.load(fake.client);
+    fake.executed.length = 0;
+    return { ...fake, model };
+  };
+  const partition = () => [{ equals: ["tenant", "acme"] as ["tenant", string] }, { equals: ["bucket", 1] as ["bucket", number] }];
+
+  it("compares consecutive clustering columns as tuples of encoded values", async () => {
+    const { model, executed } = await events();
+    await model.select({ $where: [...partition(), { moreThan: [["day", "id"], ["2024-01-01", 5]] }] });
+    await model.select({ $where: [...partition(), { in: [["id", "seq"], [[1, 2], [3, 4]]] }] });
+
+    assert.equal(executed[0].query, "SELECT * FROM app.events WHERE tenant=? AND bucket=? AND (day, id)>?;");
+    const [tuple] = executed[0].params.slice(2) as types.Tuple[];
+    assert.ok(tuple instanceof types.Tuple);
+    assert.ok(tuple.get(0) instanceof types.LocalDate);
+    assert.equal(tuple.get(1), 5);
+
+    assert.equal(executed[1].query, "SELECT * FROM app.events WHERE tenant=? AND bucket=? AND (id, seq) IN ?;");
+    assert.deepEqual((executed[1].params[2] as types.Tuple[]).map((element) => element.values()), [[1, 2], [3, 4]]);
+  });
+
+  it("compares the token of the whole partition key", async () => {
+    const { model, executed } = await events();
+    await model.find().token("tenant", "bucket").gt("-100").token("tenant", "bucket").lte(types.Long.fromNumber(100)).select();
+
+    assert.equal(executed[0].query, "SELECT * FROM app.events WHERE token(tenant, bucket)>? AND token(tenant, bucket)<=?;");
+    assert.deepEqual(executed[0].params.map(String), ["-100", "100"]);
+  });
+
+  it("builds tuple relations fluently", async () => {
+    const { model, executed } = await events();
+    await model.find().where("tenant").eq("acme").and("bucket").eq(1).tuple("id", "seq").lte([9, 9]).select();
+
+    assert.equal(executed[0].query, "SELECT * FROM app.events WHERE tenant=? AND bucket=? AND (id, seq)<=?;");
+  });
+
+  it("rejects relations on columns that are not consecutive clustering columns or the partition key", async () => {
+    const { model } = await events();
+    await assert.rejects(model.select({ $where: [...partition(), { equals: [["day", "seq"], ["2024-01-01", 1]] }] }), /must be consecutive clustering columns \(day, id, seq\)/);
+    await assert.rejects(model.select({ $where: [...partition(), { equals: [["payload" as "id"], ["x"]] }] }), /must be consecutive clustering columns/);
+    await assert.rejects(model.select({ $where: [{ token: [["bucket", "tenant"], "moreThan", 0] }] }), /must use the partition key \(tenant, bucket\)/);
+    await assert.rejects(model.select({ $where: [{ token: [["tenant", "bucket"], "notEquals" as "equals", 0] }] }), /Unsupported token operator: notEquals/);
+    await assert.rejects(model.select({ $where: [...partition(), { notIn: [["id", "seq"], [[1, 2]]] } as any] }), /Unsupported multi-column operator: notIn/);
+  });
+});
@@ -0,0 +1,209 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { InferModel, InferModelInsert, Model, defineModel } from "../src/Model";
+import { tableOptionsClause } from "../src/Query";
+import { IndexOptions, Schema } from "../src/Schema";
+import { InferType, defineType } from "../src/UDT";
+import { fakeClient } from "./client";
+import { Equal, expectType } from "./helpers";
+
+describe("keys, static columns and counters", () => {
+  it("orders key columns by their position, then by declaration", () => {
+    const schema = new Schema<any>({
+      bucket: { type: "int", partitionKey: 2 },
+      tenant: { type: "text", partitionKey: 1 },
+      day: { type: "date", clusteringKey: true },
+      hour: { type: "int", clusteringKey: 1 },
+      value: { type: "text" },
+    });
+
+    assert.deepEqual(schema.partitionKey, ["tenant", "bucket"]);
+    assert.deepEqual(schema.clusteringKey, ["hour", "day"]);
+  });
+
+  it("takes the clustering order from sortBy over the order of the column", () => {
+    const schema = new Schema<any>({
+      channel_id: { type: "text", partitionKey: true },
+      created_at: { type: "timestamp", clusteringKey: 1, order: "DESC" },
+      id: { type: "int", clusteringKey: 2, order: "DESC" },
+    }, { sortBy: { column: "id", order: "ASC" } });
+
+    assert.deepEqual(schema.clusteringOrder, [["created_at", "DESC"], ["id", "ASC"]]);
+  });
+
+  it("creates tables with static columns and their clustering order", () => {
+    const model = defineModel("messages", {
+      channel_id: { type: "text", partitionKey: true },
+      created_at: { type: "timestamp", clusteringKey: true, order: "DESC" },
+      topic: { type: "text", static: true },
+    });
+
+    assert.equal(
+      model.createQuery(undefined, "app").replace(/\s+/g, " "),
+      "CREATE TABLE IF NOT EXISTS app.messages ( channel_id text, created_at timestamp, topic text STATIC, PRIMARY KEY ((channel_id), created_at) ) WITH CLUSTERING ORDER BY (created_at DESC);"
+    );
+  });
+
+  it("rejects schemas Cassandra would reject", () => {
+    const invalid = (definition: Record<string, any>, message: RegExp) =>
+      assert.throws(() => new Model("invalid", new Schema<any>(definition)), message);
+
+    invalid({ value: { type: "text" } }, /at least one column must be part of the partition key/);
+    invalid({ id: { type: "int", partitionKey: true }, topic: { type: "text", static: true } }, /requires the table to have clustering columns/);
+    invalid({ id: { type: "int", partitionKey: true, static: true }, at: { type: "int", clusteringKey: true } }, /primary key column "id" can not be static/);
+    invalid({ id: { type: "counter", partitionKey: true }, views: { type: "counter" } }, /primary key column "id" can not be a counter/);
+    invalid({ id: { type: "int", partitionKey: true }, views: { type: "counter" }, title: { type: "text" } }, /"title" must be a counter/);
+    invalid({ id: { type: "int", partitionKey: true }, Id: { type: "int" } }, /"Id" and "id" are the same column/);
+  });
+
+  it("increments and decrements counters", async () => {
+    const { client, executed } = fakeClient();
+    const stats = defineModel("stats", { channel_id: { type: "text", partitionKey: true }, messages: { type: "counter" }, members: { type: "counter" } });
+    await stats.load(client);
+
+    await stats.increment({ $counters: { messages: 2 }, $where: [{ equals: ["channel_id", "general"] }] });
+    await stats.decrement({ $counters: { members: 1 }, $where: [{ equals: ["channel_id", "general"] }] });
+
+    assert.deepEqual(executed.slice(1).map(({ query }) => query), [
+      "UPDATE app.stats SET messages = messages + ? WHERE channel_id=?;",
+      "UPDATE app.stats SET members = members - ? WHERE channel_id=?;",
+    ]);
+    assert.equal(String(executed[1].params[0]), "2");
+    await assert.rejects(stats.increment({ $counters: { channel_id: 1 } as any, $where: [{ equals: ["channel_id", "general"] }] }), /is not a counter/);
+  });
+});
+
+describe("table options", () => {
+  it("renders numbers, strings and maps", () => {
+    assert.deepEqual(tableOptionsClause({
+      default_time_to_live: 3600,
+      comment: "Bob's table",
+      compaction: { class: "LeveledCompactionStrategy", sstable_size_in_mb: 160 },
+      caching: { keys: "ALL", rows_per_partition: 10 },
+      cdc: true,
+      gc_grace_seconds: undefined,
+    }), [
+      "default_time_to_live = 3600",
+      "comment = 'Bob''s table'",
+      "compaction = {'class': 'LeveledCompactionStrategy', 'sstable_size_in_mb': '160'}",
+      "caching = {'keys': 'ALL', 'rows_per_partition': '10'}",
+      "cdc = true",
+    ]);
+  });
+
+  it("rejects properties and values that are not CQL", () => {
+    assert.throws(() => tableOptionsClause({ "comment = ''; DROP TABLE users; --": "x" } as any), /Invalid table property/);
+    assert.throws(() => tableOptionsClause({ gc_grace_seconds: NaN }), /as an option value/);
+  });
+
+  it("creates tables with their options after the clustering order", () => {
+    const model = defineModel("events", {
+      id: { type: "uuid", partitionKey: true },
+      at: { type: "timestamp", clusteringKey: true, order: "DESC" },
+    }, { table: { default_time_to_live: 60, compression: { class: "LZ4Compressor" } } });
+
+    assert.match(
+      model.createQuery(undefined, "app").replace(/\s+/g, " "),
+      /\) WITH CLUSTERING ORDER BY \(at DESC\) AND default_time_to_live = 60 AND compression = \{'class': 'LZ4Compressor'\};$/
+    );
+  });
+});
+
+describe("inferred row types", () => {
+  const users = defineModel("users", {
+    id: { type: "uuid", partitionKey: true },
+    joined: { type: "timestamp", clusteringKey: true },
+    name: { type: "text" },
+    age: { type: "int" },
+    tags: { type: "set<text>" },
+    scores: { type: "map<text, frozen<list<bigint>>>" },
+    location: { type: "tuple<double, double>" },
+    level: { type: "int", codec: { decode: (value: number) => (value > 9 ? "high" : "low") as "high" | "low", encode: () => 0 } },
+  });
+
+  it("types key columns as required and other columns as nullable", () => {
+    expectType<Equal<InferModel<typeof users>, {
+      id: string;
+      joined: Date;
+      name: string | null;
+      age: number | null;
+      tags: string[] | null;
+      scores: Record<string, string[]> | null;
+      location: [number, number] | null;
+      level: "high" | "low" | null;
+    }>>();
+  });
+
+  it("only requires the primary key on inserts", () => {
+    expectType<Equal<InferModelInsert<typeof users>["name"], string | null | undefined>>();
+    expectType<Equal<InferModelInsert<typeof users>["id"], string>>();
+
+    const valid: InferModelInsert<typeof users> = { id: "c2e6f6b4-2f6c-4d2b-9a3b-6a4b8b0f5a11", joined: new Date() };
+    // @ts-expect-error the clustering key is required
+    const missingKey: InferModelInsert<typeof users> = { id: "c2e6f6b4-2f6c-4d2b-9a3b-6a4b8b0f5a11" };
+    // @ts-expect-error age is a number
+    const wrongType: InferModelInsert<typeof users> = { ...valid, age: "42" };
+    assert.ok(valid && missingKey && wrongType);
+  });
+
+  it("infers the fields of user defined types", () => {
+    const address = defineType("address", { street: { type: "text" }, zip: { type: "int" } });
+    expectType<Equal<InferType<typeof address>, { street: string | null; zip: number | null }>>();
+  });
+
+  it("rejects columns and values that are not in the schema", async () => {
+    const { client } = fakeClient();
+    await users.load(client);
+
+    // @ts-expect-error nickname is not a column
+    await users.insert({ id: "c2e6f6b4-2f6c-4d2b-9a3b-6a4b8b0f5a11", joined: new Date(), nickname: "x" }).catch(() => undefined);
+    // @ts-expect-error tags holds strings
+    await users.update({ $set: { tags: { $addToSet: [1] } }, $where: [{ equals: ["id", "x"] }] }).catch(() => undefined);
+  });
+});
+
+describe("indexes", () => {
+  const articles = (indexes: IndexOptions<any>[]) =>
+    defineModel("articles", {
+      id: { type: "uuid", partitionKey: true },
+      author: { type: "text" },
+      title: { type: "text" },
+      tags: { type: "set<text>" },
+      metadata: { type: "map<text, text>" },
+      history: { type: "frozen<list<int>>" },
+    }, { indexes });
+
+  it("creates secondary, custom and local indexes", () => {
+    const model = articles([
+      { column: "author" },
+      { column: "tags" },
+      { column: "metadata", target: "keys", name: "articles_by_metadata_key" },
+      { column: "history" },
+      { column: "title", using: "sai", options: { case_sensitive: "false" } },
+      { column: "title", using: "sasi", name: "articles_title_sasi" },
+      { column: "author", using: "local", name: "articles_author_local" },
+    ]);
+
+    assert.deepEqual(model.createIndexQueries("app"), [
+      "CREATE INDEX IF NOT EXISTS articles_author_idx ON app.articles (author);",
+      "CREATE INDEX IF NOT EXISTS articles_tags_idx ON app.articles (values(tags));",
+      "CREATE INDEX IF NOT EXISTS articles_by_metadata_key ON app.articles (keys(metadata));",
+      "CREATE INDEX IF NOT EXISTS articles_history_idx ON app.articles (full(history));",
+      "CREATE CUSTOM INDEX IF NOT EXISTS articles_title_idx ON app.articles (title) USING 'StorageAttachedIndex' WITH OPTIONS = {'case_sensitive': 'false'};",
+      "CREATE CUSTOM INDEX IF NOT EXISTS articles_title_sasi ON app.articles (title) USING 'org.apache.cassandra.index.sasi.SASIIndex';",
+      "CREATE INDEX IF NOT EXISTS articles_author_local ON app.articles ((id), author);",
+    ]);
+  });
+
+  it("rejects indexes Cassandra would reject", () => {
+    const invalid = (index: IndexOptions<any>, message: RegExp) =>
+      assert.throws(() => new Model("articles", articles([index]).schema), message);
+
+    invalid({ column: "missing" }, /refers to a column that does not exist/);
+    invalid({ column: "id" }, /"id" is the only partition key column and can not be indexed/);
+    invalid({ column: "tags", target: "keys" }, /can only target keys of a map/);
+    invalid({ column: "tags", target: "full" }, /can only target the full value of a frozen collection/);
+    invalid({ column: "title", options: { mode: "CONTAINS" } }, /can only have options when it uses sai or sasi/);
+    invalid({ column: "title", using: "lucene" as "sai" }, /invalid implementation "lucene"/);
+  });
+});
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defineModel } from "../src/Model";
+import { StatementCache, normalizeQuery } from "../src/StatementCache";
+import { fakeClient } from "./client";
+
+const build = (query: string) => () => ({ query, params: ["built"] });
+const params = () => ["reused"];
+
+describe("StatementCache", () => {
+  it("normalizes the whitespace of queries", () => {
+    assert.equal(normalizeQuery("\n  SELECT *\n    FROM app.users\n  WHERE id=? ;\n"), "SELECT * FROM app.users WHERE id=?;");
+  });
+
+  it("builds the query of a shape once and reuses it with new parameters", () => {
+    const cache = new StatementCache();
+    assert.deepEqual(cache.statement("a", build("SELECT  1 ;"), params), { query: "SELECT 1;", params: ["built"] });
+    assert.deepEqual(cache.statement("a", build("SELECT 2;"), params), { query: "SELECT 1;", params: ["reused"] });
+    assert.deepEqual(cache.stats, { hits: 1, misses: 1, size: 1, prepared: 0 });
+  });
+
+  it("evicts the least recently used shape", () => {
+    const cache = new StatementCache(2);
+    cache.statement("a", build("A;"), params);
+    cache.statement("b", build("B;"), params);
+    cache.statement("a", build("A;"), params);
+    cache.statement("c", build("C;"), params);
+
+    assert.equal(cache.statement("a", build("A2;"), params).query, "A;");
+    assert.equal(cache.statement("b", build("B2;"), params).query, "B2;");
+    assert.equal(cache.stats.size, 2);
+  });
+
+  it("bounds the prepared queries it tracks by the same size", () => {
+    const cache = new StatementCache(2);
+    for (const query of ["A;", "B;", "A;", "C;", "D;"]) cache.prepared(query);
+    assert.equal(cache.stats.prepared, 2);
+
+    cache.clear();
+    assert.deepEqual(cache.stats, { hits: 0, misses: 0, size: 0, prepared: 0 });
+  });
+
+  it("shares the query of a shape across calls of a model", async () => {
+    const { client, executed } = fakeClient(undefined, { statementCacheSize: 10 });
+    const users = defineModel("users", { id: { type: "int", partitionKey: true }, name: { type: "text" } });
+    await users.load(client);
+
+    await users.select({ $where: [{ equals: ["id", 1] }] });
+    await users.select({ $where: [{ equals: ["id", 2] }] });
+    await users.select({ $where: [{ equals: ["id", 3] }], $limit: 1 });
+
+    assert.deepEqual(executed.slice(1).map(({ params }) => params), [[1], [2], [3, 1]]);
+    assert.deepEqual(client.statements.stats, { hits: 1, misses: 2, size: 2, prepared: 2 });
+  });
+});
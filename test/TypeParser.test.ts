@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defineModel } from "../src/Model";
+import { formatType, parseType, typeDependencies, unfreeze } from "../src/TypeParser";
+
+describe("parseType", () => {
+  it("parses nested collections, tuples and vectors", () => {
+    assert.deepEqual(parseType("map<text, frozen<set<uuid>>>"), {
+      kind: "map",
+      key: { kind: "native", name: "text" },
+      value: { kind: "frozen", inner: { kind: "set", element: { kind: "native", name: "uuid" } } },
+    });
+    assert.deepEqual(parseType("tuple<int, list<text>, address>"), {
+      kind: "tuple",
+      elements: [
+        { kind: "native", name: "int" },
+        { kind: "list", element: { kind: "native", name: "text" } },
+        { kind: "udt", name: "address" },
+      ],
+    });
+    assert.deepEqual(parseType("vector<float, 3>"), { kind: "vector", element: { kind: "native", name: "float" }, dimension: 3 });
+  });
+
+  it("formats types in the canonical spelling of Cassandra", () => {
+    assert.equal(formatType(parseType("MAP< TEXT ,frozen<List<BigInt>> >")), "map<text, frozen<list<bigint>>>");
+    assert.equal(formatType(parseType('frozen<"Home Address">')), 'frozen<"Home Address">');
+    assert.equal(formatType(parseType('"say ""hi"""')), '"say ""hi"""');
+    for (const type of ["list<frozen<tuple<int, text>>>", "map<uuid, frozen<map<text, int>>>", "vector<float, 1536>", "set<frozen<address>>"])
+      assert.equal(formatType(parseType(type)), type);
+  });
+
+  it("rejects types that are not valid CQL", () => {
+    assert.throws(() => parseType("list<int"), /expected ">" but found "end of type"/);
+    assert.throws(() => parseType("map<int>"), /expected 2 type argument\(s\) but found 1/);
+    assert.throws(() => parseType("list<int, text>"), /expected 1 type argument\(s\) but found 2/);
+    assert.throws(() => parseType("vector<float, 0>"), /must be a positive integer/);
+    assert.throws(() => parseType("vector<float>"), /expected ","/);
+    assert.throws(() => parseType("int int"), /unexpected "int"/);
+    assert.throws(() => parseType("list<1>"), /unexpected "1"/);
+    assert.throws(() => parseType(""), /unexpected end of type/);
+  });
+
+  it("finds the user defined types a type depends on", () => {
+    assert.deepEqual(typeDependencies(parseType("map<frozen<point>, frozen<list<frozen<address>>>>")), ["point", "address"]);
+    assert.deepEqual(typeDependencies(parseType("tuple<int, vector<float, 2>>")), []);
+  });
+
+  it("removes every level of frozen", () => {
+    assert.deepEqual(unfreeze(parseType("frozen<frozen<list<int>>>")), { kind: "list", element: { kind: "native", name: "int" } });
+  });
+
+  it("creates tables with nested collection and vector columns", () => {
+    const model = defineModel("documents", {
+      id: { type: "uuid", partitionKey: true },
+      tags: { type: "map<text,frozen<set<text>>>" },
+      embedding: { type: "vector<float,3>" },
+      location: { type: "tuple<double,double>" },
+    });
+
+    assert.match(
+      model.createQuery(undefined, "app").replace(/\s+/g, " "),
+      /tags map<text, frozen<set<text>>>, embedding vector<float, 3>, location tuple<double, double>,/
+    );
+  });
+
+  it("rejects columns with invalid types", () => {
+    const model = defineModel("broken", { id: { type: "uuid", partitionKey: true }, tags: { type: "map<text>" } });
+    assert.throws(() => model.createQuery(undefined, "app"), /Invalid type "map<text>"/);
+  });
+});
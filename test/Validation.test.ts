@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defineModel } from "../src/Model";
+import { defineType } from "../src/UDT";
+import { ValidationError, validators } from "../src/Validation";
+import { fakeClient } from "./client";
+
+const profiles = async (options: Parameters<typeof fakeClient>[1] = {}) => {
+  const fake = fakeClient(undefined, options);
+  const address = defineType("address", { street: { type: "text" }, zip: { type: "int" } });
+  await address.init(fake.client);
+  const model = defineModel("profiles", {
+    id: { type: "uuid", partitionKey: true },
+    version: { type: "int", clusteringKey: true },
+    name: { type: "text", validate: [validators.length({ min: 1, max: 8 }), validators.pattern(/^[a-z]+$/, "must be lowercase")] },
+    age: { type: "tinyint", validate: validators.range({ min: 13 }) },
+    role: { type: "text", validate: validators.oneOf(["admin", "member"]) },
+    tags: { type: "list<text>" },
+    scores: { type: "map<text, int>" },
+    home: { type: "frozen<address>" },
+  });
+  await model.load(fake.client);
+  fake.executed.length = 0;
+  return { ...fake, model };
+};
+
+const id = "c2e6f6b4-2f6c-4d2b-9a3b-6a4b8b0f5a11";
+
+const issuesOf = async (write: Promise<unknown>) => {
+  const error = await write.then(
+    () => assert.fail("the write was not rejected"),
+    (error: unknown) => error
+  );
+  assert.ok(error instanceof ValidationError);
+  assert.equal(error.model, "profiles");
+  return error.issues.map(({ field, message }) => `${field} ${message}`);
+};
+
+describe("validation", () => {
+  it("lists every missing key, unknown column and value of the wrong type of an insert without sending it", async () => {
+    const { executed, model } = await profiles();
+    const row = { id: "not a uuid", nickname: "ada", age: 300, tags: ["a", 1, null], scores: { math: "A" } } as any;
+
+    assert.deepEqual(await issuesOf(model.insert(row)), [
+      "version is required",
+      'id must be of type "uuid"',
+      "nickname is not a column",
+      'age must be of type "tinyint"',
+      'tags[1] must be of type "text"',
+      "tags[2] can not be null",
+      'scores.math must be of type "int"',
+    ]);
+    assert.equal(executed.length, 0);
+  });
+
+  it("checks the fields of user defined types", async () => {
+    const { model } = await profiles();
+    const home = { street: "Main", zip: "1234", city: "Springfield" } as any;
+
+    assert.deepEqual(await issuesOf(model.insert({ id, version: 1, home })), ['home.zip must be of type "int"', 'home.city is not a field of type "address"']);
+  });
+
+  it("runs the validators of a column once its value has the declared type", async () => {
+    const { model } = await profiles();
+
+    assert.deepEqual(await issuesOf(model.insert({ id, version: 1, name: "Ada Lovelace", age: 12, role: "owner" })), [
+      "name must have at most 8 characters",
+      "name must be lowercase",
+      "age must be at least 13",
+      'role must be one of "admin", "member"',
+    ]);
+    assert.deepEqual(await issuesOf(model.insert({ id, version: 1, name: 42 as any })), ['name must be of type "text"']);
+    await model.insert({ id, version: 1, name: "ada", age: 36, role: "admin", tags: ["math"], home: { street: "Main", zip: 1234 } });
+  });
+
+  it("rejects updates of key and counter columns and collection operations with payloads of the wrong type", async () => {
+    const { client, model } = await profiles();
+    const where = [{ equals: ["id", id] as ["id", string] }, { equals: ["version", 1] as ["version", number] }];
+    const set = { version: 2, tags: { $append: [1] }, scores: { $putKey: ["math", "A"] }, name: "" } as any;
+
+    assert.deepEqual(await issuesOf(model.update({ $set: set, $where: where })), [
+      "version is part of the primary key and can not be updated",
+      'tags[0] must be of type "text"',
+      'scores[1] must be of type "int"',
+      "name must have at least 1 characters",
+      "name must be lowercase",
+    ]);
+
+    const visits = defineModel("visits", { id: { type: "uuid", partitionKey: true }, total: { type: "counter" } });
+    await visits.load(client);
+    await assert.rejects(
+      visits.update({ $set: { total: 1 }, $where: [{ equals: ["id", id] }] }),
+      /"total" is a counter and can only be incremented or decremented/
+    );
+  });
+
+  it("skips validation when the client disables it", async () => {
+    const { executed, model } = await profiles({ validate: false });
+    await model.insert({ id, version: 1, age: 300, name: "Ada Lovelace" });
+    assert.deepEqual(executed[0].params.slice(2), [300, "Ada Lovelace"]);
+  });
+
+  it("does not check the type of columns with a custom codec", async () => {
+    const { client, executed } = fakeClient(undefined, { codecs: { bigint: { decode: (value) => value, encode: (value) => value } } });
+    const ledger = defineModel("ledger", { id: { type: "int", partitionKey: true }, amount: { type: "bigint" } });
+    await ledger.load(client);
+
+    await ledger.insert({ id: 1, amount: { cents: 10 } as any });
+    assert.deepEqual(executed.at(-1)?.params, [1, { cents: 10 }]);
+  });
+});
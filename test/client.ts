@@ -0,0 +1,73 @@
+import { types } from "cassandra-driver";
+import { Client } from "../src/Client";
+import { normalizeQuery } from "../src/StatementCache";
+
+export interface ExecutedStatement {
+  query: string;
+  params: any[];
+  options: Record<string, any>;
+}
+
+export interface Response {
+  rows?: Record<string, unknown>[];
+  /**
+   * The state of the next page, as hex.
+   */
+  pageState?: string;
+}
+
+/**
+ * Answers a statement sent to the fake driver. Throwing fails the statement.
+ */
+export type Responder = (statement: ExecutedStatement) => Response | undefined | Promise<Response | undefined>;
+
+// The driver exports the constructors of rows and result sets, but only declares their interfaces.
+const { Row, ResultSet } = types as unknown as {
+  Row: new (columns: { name: string; type: unknown }[]) => types.Row;
+  ResultSet: new (response: unknown, host: string, triedHosts: object, speculativeExecutions: number, consistency: number, isSchemaInAgreement: boolean) => types.ResultSet;
+};
+
+/**
+ * Build a row the way the driver returns it.
+ * @param values The values of the row, keyed by column.
+ */
+export const row = (values: Record<string, unknown>) =>
+  Object.assign(new Row(Object.keys(values).map((name) => ({ name, type: { code: types.dataTypes.custom } }))), values);
+
+const resultSet = ({ rows = [], pageState }: Response = {}) =>
+  new ResultSet({ rows: rows.map(row), meta: pageState ? { pageState: Buffer.from(pageState, "hex") } : undefined }, "127.0.0.1", {}, 0, 1, true);
+
+/**
+ * A client whose driver records the statements and batches it is sent instead of connecting to a cluster.
+ * @param respond Answers every statement. Statements without an answer return no rows.
+ * @param options The options of the client. The keyspace defaults to `app`.
+ */
+export const fakeClient = (respond: Responder = () => undefined, options: Partial<ConstructorParameters<typeof Client>[0]> = {}) => {
+  const executed: ExecutedStatement[] = [];
+  const batches: ExecutedStatement[][] = [];
+  const logs: string[] = [];
+  const log = (message: string) => void logs.push(message);
+  const client = new Client({
+    contactPoints: ["127.0.0.1"],
+    localDataCenter: "datacenter1",
+    keyspace: "app",
+    logging: { success: log, info: log, error: log, warn: log },
+    ...options,
+  });
+
+  (client as { cassandara: unknown }).cassandara = {
+    keyspace: "keyspace" in options ? options.keyspace : "app",
+    connect: async () => undefined,
+    execute: async (query: string, params: any[] = [], queryOptions: Record<string, any> = {}) => {
+      const statement = { query: normalizeQuery(query), params, options: queryOptions };
+      executed.push(statement);
+      return resultSet(await respond(statement));
+    },
+    batch: async (statements: { query: string; params: any[] }[], queryOptions: Record<string, any> = {}) => {
+      batches.push(statements.map(({ query, params }) => ({ query: normalizeQuery(query), params, options: queryOptions })));
+      return resultSet();
+    },
+  };
+
+  return { client, executed, batches, logs };
+};
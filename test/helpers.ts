@@ -0,0 +1,104 @@
+export type Token =
+  | { kind: "identifier"; value: string; quoted: boolean }
+  | { kind: "string"; value: string }
+  | { kind: "number"; value: string }
+  | { kind: "marker" }
+  | { kind: "symbol"; value: string };
+
+/**
+ * A seeded random number generator, so a failing case can be reproduced.
+ * @param seed The seed.
+ */
+export const random = (seed: number) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (max: number) => Math.floor(next() * max);
+  const pick = <T>(items: readonly T[]) => items[int(items.length)];
+
+  return { next, int, pick };
+};
+
+export type Random = ReturnType<typeof random>;
+
+const nameCharacters = ["a", "b", "Z", "_", "0", "9", '"', "'", ";", " ", "-", "(", ")", "?", "$", "é", "\n", "*", ".", ",", "{", "}"];
+const keywords = ["select", "FROM", "Token", "where", "order", "Users", "createdAt", "user_id", "limit", "ttl", "timestamp"];
+
+/**
+ * A name that may be a reserved keyword, mixed case or full of characters that have a meaning in CQL.
+ */
+export const randomName = (rng: Random) =>
+  rng.next() < 0.3 ? rng.pick(keywords) : Array.from({ length: 1 + rng.int(8) }, () => rng.pick(nameCharacters)).join("");
+
+let valueCount = 0;
+
+/**
+ * A text value that would break the statement if it ended up in the query. Every value carries the `VALUE` marker and
+ * a counter, so the test can tell it appears in a query.
+ */
+export const randomValue = (rng: Random) =>
+  `VALUE${valueCount++}${rng.pick(["'", "'); DROP TABLE users; --", "\" OR 1=1", "?", "$$", "*/", ""])}`;
+
+/**
+ * Split a CQL statement into tokens.
+ * @param query The statement.
+ * @throws {Error} Throws an error if a quoted identifier or string literal is not terminated.
+ */
+export const lex = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const quoted = (quote: string) => {
+    let value = "";
+    for (i++; ; i++) {
+      if (i >= query.length) throw new Error(`Unterminated ${quote} in ${query}`);
+      if (query[i] == quote) {
+        if (query[i + 1] != quote) break;
+        i++;
+      }
+      value += query[i];
+    }
+    i++;
+    return value;
+  };
+
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) i++;
+    else if (char == '"') tokens.push({ kind: "identifier", value: quoted('"'), quoted: true });
+    else if (char == "'") tokens.push({ kind: "string", value: quoted("'") });
+    else if (char == "?") {
+      tokens.push({ kind: "marker" });
+      i++;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const [word] = /^[A-Za-z_][A-Za-z0-9_]*/.exec(query.slice(i))!;
+      tokens.push({ kind: "identifier", value: word, quoted: false });
+      i += word.length;
+    } else if (/[0-9]/.test(char)) {
+      const [number] = /^[0-9]+(\.[0-9]+)?([eE][-+]?[0-9]+)?/.exec(query.slice(i))!;
+      tokens.push({ kind: "number", value: number });
+      i += number.length;
+    } else {
+      const [symbol] = /^(!=|>=|<=|.)/.exec(query.slice(i))!;
+      tokens.push({ kind: "symbol", value: symbol });
+      i += symbol.length;
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Whether two types are identical, for assertions that are checked when the tests compile.
+ */
+export type Equal<A, B> = (<X>() => X extends A ? 1 : 2) extends <X>() => X extends B ? 1 : 2 ? true : false;
+
+/**
+ * Assert a type-level condition. The call only compiles when the condition is `true`.
+ */
+export const expectType = <_ extends true>() => undefined;
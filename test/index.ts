@@ -0,0 +1,17 @@
+import "./Batch.test";
+import "./Bulk.test";
+import "./Codec.test";
+import "./Entity.test";
+import "./Hooks.test";
+import "./Identifier.test";
+import "./Keyspace.test";
+import "./Loader.test";
+import "./MaterialView.test";
+import "./Migration.test";
+import "./Model.test";
+import "./Projection.test";
+import "./Query.test";
+import "./Schema.test";
+import "./StatementCache.test";
+import "./TypeParser.test";
+import "./Validation.test";